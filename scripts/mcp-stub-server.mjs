@@ -0,0 +1,200 @@
+// ---------------------------------------------------------------------------
+// browclaw — Stand-in MCP server for local testing
+// ---------------------------------------------------------------------------
+//
+// A small Model Context Protocol server speaking the streamable HTTP
+// transport, with no dependencies. It offers two tools, a few resources
+// and a prompt, and answers tool calls as an event stream (everything else
+// as plain JSON) so both response styles get exercised.
+//
+//   npm run mcp-stub              # listens on http://localhost:8808/mcp
+//   PORT=9000 npm run mcp-stub
+//
+// Then add http://localhost:8808/mcp under Settings → MCP Servers.
+
+import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8808;
+const PATH = '/mcp';
+
+const TOOLS = [
+  {
+    name: 'echo',
+    description: 'Return the given text unchanged.',
+    inputSchema: {
+      type: 'object',
+      properties: { text: { type: 'string', description: 'Text to echo' } },
+      required: ['text'],
+    },
+  },
+  {
+    name: 'add',
+    description: 'Add two numbers.',
+    inputSchema: {
+      type: 'object',
+      properties: { a: { type: 'number' }, b: { type: 'number' } },
+      required: ['a', 'b'],
+    },
+  },
+];
+
+const RESOURCES = [
+  {
+    uri: 'stub://notes/welcome',
+    name: 'Welcome note',
+    description: 'A short text resource',
+    mimeType: 'text/plain',
+    text: 'Hello from the stand-in MCP server.',
+  },
+  {
+    uri: 'stub://data/colors.json',
+    name: 'Colors',
+    mimeType: 'application/json',
+    text: JSON.stringify({ colors: ['red', 'green', 'blue'] }),
+  },
+];
+
+const PROMPTS = [
+  {
+    name: 'summarize',
+    description: 'Ask for a summary of a topic',
+    arguments: [{ name: 'topic', description: 'What to summarize', required: true }],
+  },
+];
+
+const sessions = new Set();
+
+function callTool(name, args) {
+  switch (name) {
+    case 'echo':
+      return { content: [{ type: 'text', text: String(args.text ?? '') }] };
+    case 'add':
+      return { content: [{ type: 'text', text: String(Number(args.a) + Number(args.b)) }] };
+    default:
+      return { content: [{ type: 'text', text: `No tool named ${name}` }], isError: true };
+  }
+}
+
+/** Result of one JSON-RPC request, or an error object */
+function handle(method, params = {}) {
+  switch (method) {
+    case 'initialize':
+      return {
+        result: {
+          protocolVersion: params.protocolVersion ?? '2025-03-26',
+          capabilities: { tools: {}, resources: {}, prompts: {} },
+          serverInfo: { name: 'browclaw-mcp-stub', version: '0.1.0' },
+        },
+      };
+    case 'ping':
+      return { result: {} };
+    case 'tools/list':
+      return { result: { tools: TOOLS } };
+    case 'tools/call':
+      return { result: callTool(params.name, params.arguments ?? {}) };
+    case 'resources/list':
+      return { result: { resources: RESOURCES.map(({ text: _text, ...info }) => info) } };
+    case 'resources/read': {
+      const resource = RESOURCES.find((r) => r.uri === params.uri);
+      if (!resource) return { error: { code: -32002, message: `Resource not found: ${params.uri}` } };
+      return { result: { contents: [{ uri: resource.uri, mimeType: resource.mimeType, text: resource.text }] } };
+    }
+    case 'prompts/list':
+      return { result: { prompts: PROMPTS } };
+    case 'prompts/get': {
+      if (params.name !== 'summarize') return { error: { code: -32602, message: `Unknown prompt: ${params.name}` } };
+      const topic = params.arguments?.topic || 'the conversation so far';
+      return {
+        result: {
+          messages: [{ role: 'user', content: { type: 'text', text: `Summarize ${topic} in three bullet points.` } }],
+        },
+      };
+    }
+    default:
+      return { error: { code: -32601, message: `Method not found: ${method}` } };
+  }
+}
+
+function cors(res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, Authorization, Mcp-Session-Id');
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+const server = createServer(async (req, res) => {
+  cors(res);
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  if (url.pathname !== PATH) {
+    res.writeHead(404).end();
+    return;
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const sessionId = req.headers['mcp-session-id'];
+  if (req.method === 'DELETE') {
+    sessions.delete(sessionId);
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405).end();
+    return;
+  }
+
+  let message;
+  try {
+    message = JSON.parse(await readBody(req));
+  } catch {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }));
+    return;
+  }
+
+  if (message.method !== 'initialize' && !sessions.has(sessionId)) {
+    res.writeHead(404).end('Unknown session');
+    return;
+  }
+
+  // Notifications get no response
+  if (message.id === undefined) {
+    res.writeHead(202).end();
+    return;
+  }
+
+  console.log(`${message.method}${message.params?.name ? ` ${message.params.name}` : ''}`);
+  const reply = { jsonrpc: '2.0', id: message.id, ...handle(message.method, message.params) };
+
+  const headers = {};
+  if (message.method === 'initialize') {
+    const id = randomUUID();
+    sessions.add(id);
+    headers['Mcp-Session-Id'] = id;
+  }
+
+  if (message.method === 'tools/call') {
+    res.writeHead(200, { ...headers, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    res.write(`event: message\ndata: ${JSON.stringify(reply)}\n\n`);
+    res.end();
+  } else {
+    res.writeHead(200, { ...headers, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(reply));
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Stand-in MCP server at http://localhost:${PORT}${PATH}`);
+});
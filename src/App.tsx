@@ -12,6 +12,7 @@ import { FilesPage } from './components/files/FilesPage.js';
 import { TasksPage } from './components/tasks/TasksPage.js';
 import { SettingsPage } from './components/settings/SettingsPage.js';
 import { SkillsPage } from './components/skills/SkillsPage.js';
+import { UsagePage } from './components/usage/UsagePage.js';
 
 export function App() {
   const orchRef = useRef<Orchestrator | null>(null);
@@ -77,6 +78,7 @@ export function App() {
           <Route path="files" element={<FilesPage />} />
           <Route path="tasks" element={<TasksPage />} />
           <Route path="skills" element={<SkillsPage />} />
+          <Route path="usage" element={<UsagePage />} />
           <Route path="settings" element={<SettingsPage />} />
           <Route path="*" element={<Navigate to="/chat" replace />} />
         </Route>
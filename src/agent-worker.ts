@@ -2,20 +2,39 @@
 // browclaw — Agent Worker
 // ---------------------------------------------------------------------------
 //
-// Runs in a dedicated Web Worker. Owns the Claude API tool-use loop.
+// Runs in a dedicated Web Worker. Owns the model tool-use loop.
 // Communicates with the main thread via postMessage.
 //
 // This is the browser equivalent of NanoClaw's container agent runner.
-// Instead of Claude Agent SDK in a Linux container, we use raw Anthropic
-// API calls with a tool-use loop.
-
-import type { WorkerInbound, WorkerOutbound, InvokePayload, CompactPayload, ConversationMessage, ThinkingLogEntry, TokenUsage } from './types.js';
-import { TOOL_DEFINITIONS } from './tools.js';
-import { ANTHROPIC_API_URL, ANTHROPIC_API_VERSION, FETCH_MAX_RESPONSE } from './config.js';
-import { readGroupFile, writeGroupFile, listGroupFiles } from './storage.js';
-import { executeShell } from './shell.js';
+// Instead of Claude Agent SDK in a Linux container, we make raw model API
+// calls (through a ModelProvider, see providers/) with a tool-use loop.
+
+import type { WorkerInbound, WorkerOutbound, InvokePayload, CompactPayload, ConversationMessage, ContentBlock, ThinkingLogEntry, ModelProvider, ModelRequest, ModelResponse, ProviderSettings, TextStreamer, ToolPolicy, ApprovalResponse, McpToolRoute } from './types.js';
+import { toolRegistry } from './tools.js';
+import { toToolResult, validateToolInput, type ToolContext, type ToolResult } from './tool-registry.js';
+import { syncToolPlugins } from './tool-plugins.js';
+import { compileSchemaPatterns } from './json-schema.js';
+import { COMPACTION_MAX_TOKENS, TOOL_CONCURRENCY } from './config.js';
+import { getProviderInfo } from './providers/registry.js';
+import { AnthropicProvider } from './providers/anthropic.js';
+import { OpenAICompatibleProvider } from './providers/openai-compatible.js';
+import { MockProvider } from './providers/mock.js';
+import { withRetry } from './providers/retry.js';
+import { addSpend, exceededRunBudget, type Spend } from './budgets.js';
+import { buildDelegatePayload, relayToDelegates, runDelegate } from './delegate.js';
+import { callMcpRoute } from './mcp.js';
+import { ToolLoopGuard } from './tool-loop.js';
+import {
+  readGroupFile,
+  writeGroupFile,
+  readGroupFileBytes,
+  writeGroupFileBytes,
+  listGroupFiles,
+} from './storage.js';
 import { ulid } from './ulid.js';
 
+type ToolUseBlock = Extract<ContentBlock, { type: 'tool_use' }>;
+
 // ---------------------------------------------------------------------------
 // Message handler
 // ---------------------------------------------------------------------------
@@ -31,386 +50,483 @@ self.onmessage = async (event: MessageEvent<WorkerInbound>) => {
       await handleCompact(payload as CompactPayload);
       break;
     case 'cancel':
-      // TODO: AbortController-based cancellation
+      handleCancel((payload as { groupId: string }).groupId);
+      break;
+    case 'approval-response':
+      handleApprovalResponse(payload as ApprovalResponse);
       break;
   }
 };
 
-// Shell emulator needs no boot — it's pure JS over OPFS
+/** In-flight runs keyed by groupId, so a `cancel` can abort them. */
+const activeRuns = new Map<string, AbortController>();
+
+/**
+ * Register an AbortController for the group for the duration of `fn`.
+ */
+async function runCancellable(
+  groupId: string,
+  fn: (signal: AbortSignal) => Promise<void>,
+): Promise<void> {
+  const controller = new AbortController();
+  activeRuns.set(groupId, controller);
+  try {
+    await fn(controller.signal);
+  } finally {
+    if (activeRuns.get(groupId) === controller) activeRuns.delete(groupId);
+  }
+}
+
+function handleCancel(groupId: string): void {
+  const controller = activeRuns.get(groupId);
+  if (controller) {
+    log(groupId, 'info', 'Cancelling', 'Stop requested by user');
+    controller.abort();
+  } else {
+    // Nothing running — still acknowledge so the main thread can go idle
+    post({ type: 'cancelled', payload: { groupId, partialText: '' } });
+  }
+}
 
 // ---------------------------------------------------------------------------
-// Agent invocation — tool-use loop
+// Tool approval — pause the loop until the main thread decides
 // ---------------------------------------------------------------------------
 
-async function handleInvoke(payload: InvokePayload): Promise<void> {
-  if (payload.provider === 'ollama') {
-    return invokeOllama(payload);
+/** Approval requests awaiting a response, keyed by request id */
+const pendingApprovals = new Map<string, (approved: boolean) => void>();
+
+function handleApprovalResponse(response: ApprovalResponse): void {
+  const { id, approved } = response;
+  const resolve = pendingApprovals.get(id);
+  if (resolve) {
+    resolve(approved);
+    pendingApprovals.delete(id);
+  } else {
+    // Asked by a sub-agent this run delegated to
+    relayToDelegates({ type: 'approval-response', payload: response });
   }
-  return invokeAnthropic(payload);
 }
 
-function getOpenAITools() {
-  return TOOL_DEFINITIONS.map((t) => ({
-    type: 'function',
-    function: {
-      name: t.name,
-      description: t.description,
-      parameters: t.input_schema,
-    },
-  }));
+/**
+ * Ask the main thread whether a tool call may run. Deny policies are
+ * settled there too, so every denial ends up in the approvals log.
+ * Rejects if the run is cancelled while waiting.
+ */
+function requestApproval(
+  groupId: string,
+  tool: string,
+  input: Record<string, unknown>,
+  policy: Exclude<ToolPolicy, 'allow'>,
+  signal: AbortSignal,
+): Promise<boolean> {
+  signal.throwIfAborted();
+  const id = ulid();
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      pendingApprovals.delete(id);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    pendingApprovals.set(id, (approved) => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(approved);
+    });
+    post({
+      type: 'approval-request',
+      payload: { id, groupId, tool, input, policy, timestamp: Date.now() },
+    });
+  });
 }
 
-async function invokeOllama(payload: InvokePayload): Promise<void> {
-  const { groupId, messages, systemPrompt, ollamaUrl, model, maxTokens } = payload;
-  post({ type: 'typing', payload: { groupId } });
-  log(groupId, 'info', 'Starting (Ollama)', `Model: ${model}`);
-
-  try {
-    const currentMessages: any[] = [];
-    if (systemPrompt) {
-      currentMessages.push({ role: 'system', content: systemPrompt });
-    }
+// Shell emulator needs no boot — it's pure JS over OPFS
 
-    for (const m of messages) {
-      currentMessages.push({
-        role: m.role,
-        content: typeof m.content === 'string' ? m.content : JSON.stringify(m.content),
-      });
-    }
+// ---------------------------------------------------------------------------
+// Agent invocation — tool-use loop
+// ---------------------------------------------------------------------------
 
-    let iterations = 0;
-    const maxIterations = 25;
+/**
+ * Build the backend for one run, by the wire format the provider speaks
+ * (its toolFormat in registry.ts). Providers keep per-run state (the mock
+ * replays its fixture from the start), so each invoke gets a fresh one.
+ */
+function createModelProvider(settings: ProviderSettings): ModelProvider {
+  // The mock replays fixtures instead of calling an API
+  if (settings.provider === 'mock') return new MockProvider(settings);
+  switch (getProviderInfo(settings.provider).toolFormat) {
+    case 'openai':
+      return new OpenAICompatibleProvider(settings);
+    case 'anthropic':
+      return new AnthropicProvider(settings);
+  }
+}
 
-    while (iterations < maxIterations) {
-      iterations++;
+async function handleInvoke(payload: InvokePayload): Promise<void> {
+  return runCancellable(payload.groupId, (signal) => runAgentLoop(payload, signal));
+}
 
-      const body = {
-        model,
-        messages: currentMessages,
-        tools: getOpenAITools(),
-        max_tokens: maxTokens,
-      };
+async function runAgentLoop(payload: InvokePayload, signal: AbortSignal): Promise<void> {
+  const { groupId, messages, systemPrompt, model, maxTokens, contextLimit } = payload;
+  const provider = createModelProvider(payload);
 
-      log(
-        groupId,
-        'api-call',
-        `Ollama API call #${iterations}`,
-        `${currentMessages.length} messages in context`,
-      );
+  post({ type: 'typing', payload: { groupId } });
+  log(
+    groupId,
+    'info',
+    'Starting',
+    `${getProviderInfo(provider.id).label} · Model: ${model} · Max tokens: ${maxTokens}`,
+  );
+  const streamer = createTextStreamer(groupId);
 
-      const res = await fetch(`${ollamaUrl}/v1/chat/completions`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
+  try {
+    const currentMessages: ConversationMessage[] = [...messages];
+    // Thinking from every call in this run, shown with the final reply
+    const reasoning: string[] = [];
+    // Usage so far, checked against the budget between iterations
+    const spent: Spend = { tokens: 0, cost: 0 };
+    const guard = new ToolLoopGuard();
+    let iterations = 0;
+    const { maxIterations } = payload;
+    syncToolPlugins(toolRegistry, payload.toolPlugins);
+    const allTools = [...toolRegistry.definitions(), ...payload.mcpTools.map((route) => route.definition)];
+    for (const route of payload.mcpTools) compileSchemaPatterns(route.definition.input_schema);
+    const tools = payload.toolNames
+      ? allTools.filter((tool) => payload.toolNames!.includes(tool.name))
+      : allTools;
+
+    // End the run early, saying why and what the loop attempted
+    const stopRun = (reason: string) => {
+      const text = `${reason}\n\n${guard.summary()}`;
+      log(groupId, 'info', 'Stopped early', text);
+      post({
+        type: 'response',
+        payload: {
+          groupId,
+          text,
+          reasoning: joinReasoning(reasoning),
+          transcript: [...currentMessages, { role: 'assistant', content: text }],
+        },
       });
+    };
 
-      if (!res.ok) {
-        throw new Error(`Ollama API error ${res.status}: ${await res.text()}`);
-      }
-
-      const result = await res.json();
-      const choice = result.choices[0];
-      const message = choice.message;
-
-      if (result.usage) {
-        post({
-          type: 'token-usage',
-          payload: {
-            groupId,
-            inputTokens: result.usage.prompt_tokens || 0,
-            outputTokens: result.usage.completion_tokens || 0,
-            cacheReadTokens: 0,
-            cacheCreationTokens: 0,
-            contextLimit: 8192,
-          },
-        });
-      }
+    // What handlers get besides their input
+    const context: ToolContext = {
+      groupId,
+      signal,
+      javascriptNetwork: payload.javascriptNetwork,
+      readFile: (path) => readGroupFile(groupId, path),
+      writeFile: (path, content) => writeGroupFile(groupId, path, content),
+      readFileBytes: (path) => readGroupFileBytes(groupId, path),
+      writeFileBytes: (path, content) => writeGroupFileBytes(groupId, path, content),
+      listFiles: (path) => listGroupFiles(groupId, path),
+      // Persisted by the main thread
+      createTask: (task) => post({ type: 'task-created', payload: { task } }),
+      delegate: (input) => delegateTask(input, { payload, spent }, signal),
+    };
 
-      if (message.content) {
-        const preview =
-          message.content.length > 200
-            ? message.content.slice(0, 200) + '…'
-            : message.content;
-        log(groupId, 'text', 'Response text', preview);
+    // Execute one tool call (after approval, if its policy asks for it)
+    const runToolCall = async (block: ToolUseBlock): Promise<ContentBlock> => {
+      const inputPreview = JSON.stringify(block.input);
+      const inputShort = inputPreview.length > 300 ? inputPreview.slice(0, 300) + '…' : inputPreview;
+      log(groupId, 'tool-call', `Tool: ${block.name}`, inputShort);
+
+      // A sub-agent calling a tool it was not given, or input that does
+      // not match the tool's schema
+      const definition = tools.find((tool) => tool.name === block.name);
+      const invalid = definition
+        ? validateToolInput(definition.input_schema, block.input)
+        : null;
+      if (!definition || invalid) {
+        const reason = definition
+          ? `Tool error (${block.name}): ${invalid}`
+          : `Unknown tool: ${block.name}`;
+        log(groupId, 'tool-result', `Result: ${block.name}`, reason);
+        guard.record(block.name, block.input, reason);
+        return { type: 'tool_result', tool_use_id: block.id, content: reason };
       }
 
-      currentMessages.push(message);
-
-      if (choice.finish_reason === 'tool_calls' && message.tool_calls) {
-        for (const tc of message.tool_calls) {
-          const fn = tc.function;
-          const inputStr = fn.arguments || '{}';
-          log(groupId, 'tool-call', `Tool: ${fn.name}`, inputStr);
-
-          post({
-            type: 'tool-activity',
-            payload: { groupId, tool: fn.name, status: 'running' },
-          });
-
-          let inputCode = {};
-          try {
-            inputCode = JSON.parse(inputStr);
-          } catch {
-            // ignore JSON parse errors and pass empty object
-          }
-
-          const output = await executeTool(fn.name, inputCode, groupId);
-          const outputStr = typeof output === 'string' ? output : JSON.stringify(output);
-
-          log(
-            groupId,
-            'tool-result',
-            `Result: ${fn.name}`,
-            outputStr.length > 500 ? outputStr.slice(0, 500) + '…' : outputStr,
-          );
-          post({
-            type: 'tool-activity',
-            payload: { groupId, tool: fn.name, status: 'done' },
-          });
-
-          currentMessages.push({
-            role: 'tool',
-            tool_call_id: tc.id,
-            name: fn.name,
-            content: outputStr.slice(0, 100_000),
-          });
+      const policy = payload.toolPolicies[block.name] ?? 'allow';
+      if (policy !== 'allow') {
+        if (policy === 'ask') {
+          log(groupId, 'info', `Awaiting approval: ${block.name}`);
+        }
+        const approved = await requestApproval(groupId, block.name, block.input, policy, signal);
+        if (!approved) {
+          const reason = policy === 'deny'
+            ? `Tool "${block.name}" is disabled by the user's tool policy.`
+            : `The user denied this ${block.name} call. Do not retry it; ask the user how to proceed instead.`;
+          log(groupId, 'tool-result', `Denied: ${block.name}`, reason);
+          guard.record(block.name, block.input, reason);
+          return { type: 'tool_result', tool_use_id: block.id, content: reason };
         }
+        // Telegram's typing indicator lapses while the user decides
         post({ type: 'typing', payload: { groupId } });
-      } else {
-        const text = message.content || '(no response)';
-        const cleaned = text
-          .replace(/<internal>[\s\S]*?<\/internal>/g, '')
-          .trim();
-        post({
-          type: 'response',
-          payload: { groupId, text: cleaned || '(no response)' },
-        });
-        return;
       }
-    }
 
-    post({
-      type: 'response',
-      payload: {
-        groupId,
-        text: '⚠️ Reached maximum tool-use iterations. Stopping to avoid infinite loops.',
-      },
-    });
-  } catch (err: unknown) {
-    post({
-      type: 'error',
-      payload: {
-        groupId,
-        error: err instanceof Error ? err.message : String(err),
-      },
-    });
-  }
-}
+      post({
+        type: 'tool-activity',
+        payload: { groupId, callId: block.id, tool: block.name, status: 'running' },
+      });
 
-async function invokeAnthropic(payload: InvokePayload): Promise<void> {
-  const { groupId, messages, systemPrompt, apiKey, model, maxTokens } = payload;
+      const { content: outputStr, fileDiff } = await executeTool(block.name, block.input, context, payload.mcpTools);
+      signal.throwIfAborted();
 
-  post({ type: 'typing', payload: { groupId } });
-  log(groupId, 'info', 'Starting', `Model: ${model} · Max tokens: ${maxTokens}`);
+      const outputShort = outputStr.length > 500 ? outputStr.slice(0, 500) + '…' : outputStr;
+      log(groupId, 'tool-result', `Result: ${block.name}`, outputShort, { fileDiff });
 
-  try {
-    let currentMessages: ConversationMessage[] = [...messages];
-    let iterations = 0;
-    const maxIterations = 25; // Safety limit to prevent infinite loops
+      post({
+        type: 'tool-activity',
+        payload: { groupId, callId: block.id, tool: block.name, status: 'done' },
+      });
+
+      const verdict = guard.record(block.name, block.input, outputStr);
+      if (verdict === 'nudge') {
+        log(groupId, 'info', `Loop check: ${block.name}`, 'Same result again; asking the model to change approach');
+      }
+      return {
+        type: 'tool_result',
+        tool_use_id: block.id,
+        content:
+          outputStr.slice(0, 100_000) +
+          (verdict === 'nudge' ? guard.nudge(block.name, outputStr) : ''),
+      };
+    };
 
     while (iterations < maxIterations) {
       iterations++;
 
-      const body = {
-        model,
-        max_tokens: maxTokens,
-        cache_control: { type: 'ephemeral' },
-        system: systemPrompt,
-        messages: currentMessages,
-        tools: TOOL_DEFINITIONS,
-      };
-
       log(groupId, 'api-call', `API call #${iterations}`, `${currentMessages.length} messages in context`);
 
-      const res = await fetch(ANTHROPIC_API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': ANTHROPIC_API_VERSION,
-          'anthropic-dangerous-direct-browser-access': 'true',
-        },
-        body: JSON.stringify(body),
+      const result = await completeWithRetry(provider, payload, {
+        systemPrompt,
+        messages: currentMessages,
+        tools: payload.toolUse ? tools : [],
+        maxTokens,
+        signal,
+        streamer,
+        thinkingBudget: payload.thinkingBudget,
       });
 
-      if (!res.ok) {
-        const errBody = await res.text();
-        throw new Error(`Anthropic API error ${res.status}: ${errBody}`);
-      }
-
-      const result = await res.json();
-
       // Emit token usage
       if (result.usage) {
+        addSpend(spent, result.usage, payload.budget.prices);
         post({
           type: 'token-usage',
-          payload: {
-            groupId,
-            inputTokens: result.usage.input_tokens || 0,
-            outputTokens: result.usage.output_tokens || 0,
-            cacheReadTokens: result.usage.cache_read_input_tokens || 0,
-            cacheCreationTokens: result.usage.cache_creation_input_tokens || 0,
-            contextLimit: getContextLimit(model),
-          },
+          payload: { groupId, ...result.usage, contextLimit, provider: provider.id, model, purpose: 'agent' },
         });
       }
 
-      // Log any text blocks in the response (intermediate reasoning)
+      // Log thinking and any text blocks in the response (intermediate reasoning)
       for (const block of result.content) {
         if (block.type === 'text' && block.text) {
           const preview = block.text.length > 200 ? block.text.slice(0, 200) + '…' : block.text;
           log(groupId, 'text', 'Response text', preview);
+        } else if (block.type === 'thinking' && block.thinking) {
+          reasoning.push(block.thinking);
+          log(groupId, 'thinking', 'Thinking', block.thinking);
+        } else if (block.type === 'redacted_thinking') {
+          log(groupId, 'thinking', 'Thinking (redacted by the provider)');
         }
       }
 
-      if (result.stop_reason === 'tool_use') {
-        // Execute all tool calls
-        const toolResults = [];
-        for (const block of result.content) {
-          if (block.type === 'tool_use') {
-            const inputPreview = JSON.stringify(block.input);
-            const inputShort = inputPreview.length > 300 ? inputPreview.slice(0, 300) + '…' : inputPreview;
-            log(groupId, 'tool-call', `Tool: ${block.name}`, inputShort);
-
-            post({
-              type: 'tool-activity',
-              payload: { groupId, tool: block.name, status: 'running' },
-            });
-
-            const output = await executeTool(block.name, block.input, groupId);
-
-            const outputStr = typeof output === 'string' ? output : JSON.stringify(output);
-            const outputShort = outputStr.length > 500 ? outputStr.slice(0, 500) + '…' : outputStr;
-            log(groupId, 'tool-result', `Result: ${block.name}`, outputShort);
-
-            post({
-              type: 'tool-activity',
-              payload: { groupId, tool: block.name, status: 'done' },
-            });
-
-            toolResults.push({
-              type: 'tool_result' as const,
-              tool_use_id: block.id,
-              content: typeof output === 'string'
-                ? output.slice(0, 100_000)
-                : JSON.stringify(output).slice(0, 100_000),
-            });
-          }
-        }
+      if (result.stopReason === 'tool_use') {
+        const calls = result.content.filter((b): b is ToolUseBlock => b.type === 'tool_use');
+        const toolResults = await runToolCalls(
+          groupId,
+          calls,
+          // Calls needing a decision from the user are asked about one at a time
+          (call) =>
+            toolRegistry.isReadOnlyCall(call.name, call.input) &&
+            (payload.toolPolicies[call.name] ?? 'allow') === 'allow',
+          runToolCall,
+        );
 
-        // Continue the conversation with tool results
+        // Continue the conversation with tool results. Thinking blocks stay
+        // in the assistant turn: the API requires them back, signed and in order.
         currentMessages.push({ role: 'assistant', content: result.content });
-        currentMessages.push({ role: 'user', content: toolResults as any });
+        currentMessages.push({ role: 'user', content: toolResults });
+
+        // Stop before the next call once the model is going in circles or
+        // the run has used up its budget
+        if (guard.stuckTool) {
+          stopRun(
+            `⚠️ Stopped after ${iterations} API call${iterations === 1 ? '' : 's'}: ` +
+              `${guard.stuckTool} kept returning the same result, so retrying was not making progress.`,
+          );
+          return;
+        }
+        const exceeded = exceededRunBudget(payload.budget, spent);
+        if (exceeded) {
+          stopRun(
+            `⛔ Stopped after ${iterations} API call${iterations === 1 ? '' : 's'}: the ${exceeded} ` +
+              'budget ran out during this run. Budgets can be changed in Settings → Budgets.',
+          );
+          return;
+        }
 
         // Re-signal typing between tool iterations
         post({ type: 'typing', payload: { groupId } });
       } else {
         // Final response — extract text
-        const text = result.content
-          .filter((b: { type: string }) => b.type === 'text')
-          .map((b: { text: string }) => b.text)
-          .join('');
+        const text = extractText(result.content);
 
         // Strip internal tags (matching NanoClaw pattern)
         const cleaned = text.replace(/<internal>[\s\S]*?<\/internal>/g, '').trim();
 
-        post({ type: 'response', payload: { groupId, text: cleaned || '(no response)' } });
+        post({
+          type: 'response',
+          payload: {
+            groupId,
+            text: cleaned || '(no response)',
+            reasoning: joinReasoning(reasoning),
+            transcript: [...currentMessages, { role: 'assistant', content: result.content }],
+          },
+        });
         return;
       }
     }
 
     // If we hit max iterations
-    post({
-      type: 'response',
-      payload: {
-        groupId,
-        text: '⚠️ Reached maximum tool-use iterations (25). Stopping to avoid excessive API usage.',
-      },
-    });
+    stopRun(
+      `⚠️ Reached maximum tool-use iterations (${maxIterations}). Stopping to avoid excessive API usage; ` +
+        'the limit can be raised for this chat in Settings → Tool Loop.',
+    );
   } catch (err: unknown) {
+    if (signal.aborted) {
+      postCancelled(groupId, streamer.text());
+      return;
+    }
     const message = err instanceof Error ? err.message : String(err);
     post({ type: 'error', payload: { groupId, error: message } });
   }
 }
 
-// ---------------------------------------------------------------------------
-// Context compaction — ask Claude to summarize the conversation
-// ---------------------------------------------------------------------------
+/**
+ * Call the model, retrying rate limits and transient server errors within
+ * the configured budget. Each wait is logged so the user can see why the
+ * run is paused.
+ */
+function completeWithRetry(
+  provider: ModelProvider,
+  payload: CompactPayload,
+  request: ModelRequest,
+): Promise<ModelResponse> {
+  const { groupId, maxRetries } = payload;
+  return withRetry(() => provider.complete(request), {
+    maxRetries,
+    signal: request.signal,
+    onRetry: ({ attempt, delayMs, error }) => {
+      log(
+        groupId,
+        'retry',
+        `Retrying in ${Math.ceil(delayMs / 1000)}s (${attempt}/${maxRetries})`,
+        error.message,
+      );
+    },
+  });
+}
 
-async function handleCompact(payload: CompactPayload): Promise<void> {
-  if (payload.provider === 'ollama') {
-    return compactOllama(payload);
+/**
+ * Run one turn's tool calls. Consecutive calls accepted by `parallel` run
+ * together, at most TOOL_CONCURRENCY at once; any other call waits for
+ * everything before it and runs alone, so writes and shell commands keep
+ * their order. Results come back in the order of the calls.
+ */
+async function runToolCalls(
+  groupId: string,
+  calls: ToolUseBlock[],
+  parallel: (call: ToolUseBlock) => boolean,
+  run: (call: ToolUseBlock) => Promise<ContentBlock>,
+): Promise<ContentBlock[]> {
+  const results: ContentBlock[] = [];
+  let i = 0;
+  while (i < calls.length) {
+    let end = i;
+    while (end < calls.length && parallel(calls[end])) end++;
+
+    if (end - i > 1) {
+      const batch = calls.slice(i, end);
+      log(groupId, 'info', `Running ${batch.length} tool calls in parallel`, batch.map((c) => c.name).join(', '));
+      results.push(...(await mapConcurrent(batch, TOOL_CONCURRENCY, run)));
+      i = end;
+    } else {
+      results.push(await run(calls[i]));
+      i++;
+    }
   }
-  return compactAnthropic(payload);
+  return results;
 }
 
-async function compactOllama(payload: CompactPayload): Promise<void> {
-  const { groupId, messages, systemPrompt, ollamaUrl, model, maxTokens } = payload;
-  post({ type: 'typing', payload: { groupId } });
-  log(groupId, 'info', 'Compacting context', `Summarizing ${messages.length} messages`);
+/**
+ * Map over `items` with at most `limit` calls of `fn` in flight.
+ */
+async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(lanes);
+  return results;
+}
 
-  try {
-    const compactSystemPrompt = [
-      systemPrompt,
-      '',
-      '## COMPACTION TASK',
-      'Produce a concise summary of the conversation so far.',
-      'The summary will replace the full conversation history to stay within token limits.',
-    ].join('\n');
+function postCancelled(groupId: string, partialText: string): void {
+  const cleaned = partialText.replace(/<internal>[\s\S]*?<\/internal>/g, '').trim();
+  log(groupId, 'info', 'Cancelled', cleaned ? `Kept ${cleaned.length} chars of partial output` : undefined);
+  post({ type: 'cancelled', payload: { groupId, partialText: cleaned } });
+}
 
-    const currentMessages: any[] = [{ role: 'system', content: compactSystemPrompt }];
-    for (const m of messages) {
-      currentMessages.push({
-        role: m.role,
-        content: typeof m.content === 'string' ? m.content : JSON.stringify(m.content),
-      });
-    }
-    currentMessages.push({
-      role: 'user',
-      content:
-        'Please provide a concise summary of our entire conversation so far. Include all key facts, decisions, code discussed, and important context.',
-    });
+function joinReasoning(parts: string[]): string | undefined {
+  return parts.length > 0 ? parts.join('\n\n') : undefined;
+}
 
-    const res = await fetch(`${ollamaUrl}/v1/chat/completions`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model,
-        messages: currentMessages,
-        max_tokens: Math.min(maxTokens, 4096),
-      }),
-    });
+function extractText(content: ContentBlock[]): string {
+  return content
+    .filter((b): b is Extract<ContentBlock, { type: 'text' }> => b.type === 'text')
+    .map((b) => b.text)
+    .join('');
+}
 
-    if (!res.ok) throw new Error(`Ollama API error: ${await res.text()}`);
+/**
+ * Forward text deltas to the main thread. Separate text blocks (e.g. text
+ * before and after a round of tool calls) are joined with a blank line so
+ * the live preview reads like the final message.
+ */
+function createTextStreamer(groupId: string): TextStreamer {
+  let streamed = '';
+  let needsBreak = false;
+  return {
+    push(text) {
+      if (!text) return;
+      const delta = needsBreak ? `\n\n${text}` : text;
+      streamed += delta;
+      post({ type: 'stream-delta', payload: { groupId, text: delta } });
+      needsBreak = false;
+    },
+    nextBlock() {
+      if (streamed) needsBreak = true;
+    },
+    text: () => streamed,
+  };
+}
 
-    const result = await res.json();
-    const summary = result.choices[0]?.message?.content || '';
+// ---------------------------------------------------------------------------
+// Context compaction — ask the model to summarize the conversation
+// ---------------------------------------------------------------------------
 
-    log(groupId, 'info', 'Compaction complete', `Summary: ${summary.length} chars`);
-    post({ type: 'compact-done', payload: { groupId, summary } });
-  } catch (err: unknown) {
-    post({
-      type: 'error',
-      payload: {
-        groupId,
-        error: `Compaction failed: ${err instanceof Error ? err.message : String(err)}`,
-      },
-    });
-  }
+async function handleCompact(payload: CompactPayload): Promise<void> {
+  return runCancellable(payload.groupId, (signal) => runCompaction(payload, signal));
 }
 
-async function compactAnthropic(payload: CompactPayload): Promise<void> {
-  const { groupId, messages, systemPrompt, apiKey, model, maxTokens } = payload;
+async function runCompaction(payload: CompactPayload, signal: AbortSignal): Promise<void> {
+  const { groupId, messages, systemPrompt, model, maxTokens, contextLimit } = payload;
+  const provider = createModelProvider(payload);
 
   post({ type: 'typing', payload: { groupId } });
   log(groupId, 'info', 'Compacting context', `Summarizing ${messages.length} messages`);
@@ -435,39 +551,28 @@ async function compactAnthropic(payload: CompactPayload): Promise<void> {
       },
     ];
 
-    const body = {
-      model,
-      max_tokens: Math.min(maxTokens, 4096),
-      cache_control: { type: 'ephemeral' },
-      system: compactSystemPrompt,
+    const result = await completeWithRetry(provider, payload, {
+      systemPrompt: compactSystemPrompt,
       messages: compactMessages,
-    };
-
-    const res = await fetch(ANTHROPIC_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': ANTHROPIC_API_VERSION,
-        'anthropic-dangerous-direct-browser-access': 'true',
-      },
-      body: JSON.stringify(body),
+      tools: [],
+      maxTokens: Math.min(maxTokens, COMPACTION_MAX_TOKENS),
+      signal,
     });
-
-    if (!res.ok) {
-      const errBody = await res.text();
-      throw new Error(`Anthropic API error ${res.status}: ${errBody}`);
+    if (result.usage) {
+      post({
+        type: 'token-usage',
+        payload: { groupId, ...result.usage, contextLimit, provider: provider.id, model, purpose: 'compaction' },
+      });
     }
-
-    const result = await res.json();
-    const summary = result.content
-      .filter((b: { type: string }) => b.type === 'text')
-      .map((b: { text: string }) => b.text)
-      .join('');
+    const summary = extractText(result.content);
 
     log(groupId, 'info', 'Compaction complete', `Summary: ${summary.length} chars`);
     post({ type: 'compact-done', payload: { groupId, summary } });
   } catch (err: unknown) {
+    if (signal.aborted) {
+      postCancelled(groupId, '');
+      return;
+    }
     const message = err instanceof Error ? err.message : String(err);
     post({ type: 'error', payload: { groupId, error: `Compaction failed: ${message}` } });
   }
@@ -477,102 +582,75 @@ async function compactAnthropic(payload: CompactPayload): Promise<void> {
 // Tool execution
 // ---------------------------------------------------------------------------
 
+/**
+ * Run a call with the registered tool's handler, or on the MCP server
+ * that offers it. Failures become the result, for the model to see.
+ */
 async function executeTool(
   name: string,
   input: Record<string, unknown>,
-  groupId: string,
-): Promise<string> {
+  context: ToolContext,
+  mcpTools: McpToolRoute[],
+): Promise<ToolResult> {
   try {
-    switch (name) {
-      case 'bash': {
-        const result = await executeShell(
-          input.command as string,
-          groupId,
-          {},
-          Math.min((input.timeout as number) || 30, 120),
-        );
-        let output = result.stdout;
-        if (result.stderr) output += (output ? '\n' : '') + result.stderr;
-        if (result.exitCode !== 0 && !result.stderr) {
-          output += `\n[exit code: ${result.exitCode}]`;
-        }
-        return output || '(no output)';
-      }
-
-      case 'read_file':
-        return await readGroupFile(groupId, input.path as string);
-
-      case 'write_file':
-        await writeGroupFile(groupId, input.path as string, input.content as string);
-        return `Written ${(input.content as string).length} bytes to ${input.path}`;
-
-      case 'list_files': {
-        const entries = await listGroupFiles(groupId, (input.path as string) || '.');
-        return entries.length > 0 ? entries.join('\n') : '(empty directory)';
-      }
-
-      case 'fetch_url': {
-        const fetchRes = await fetch(input.url as string, {
-          method: (input.method as string) || 'GET',
-          headers: input.headers as Record<string, string> | undefined,
-          body: input.body as string | undefined,
-        });
-        const rawText = await fetchRes.text();
-        const contentType = fetchRes.headers.get('content-type') || '';
-        const status = `[HTTP ${fetchRes.status}]\n`;
-
-        // Strip HTML to reduce token usage
-        let body = rawText;
-        if (contentType.includes('html') || rawText.trimStart().startsWith('<')) {
-          body = stripHtml(rawText);
-        }
-
-        return status + body.slice(0, FETCH_MAX_RESPONSE);
-      }
-
-      case 'update_memory':
-        await writeGroupFile(groupId, 'CLAUDE.md', input.content as string);
-        return 'Memory updated successfully.';
+    const tool = toolRegistry.get(name);
+    if (tool) return toToolResult(await tool.handler(input, context));
+    const route = mcpTools.find((r) => r.definition.name === name);
+    if (route) return { content: await callMcpRoute(route, input, context.signal) };
+    return { content: `Unknown tool: ${name}` };
+  } catch (err: unknown) {
+    return { content: `Tool error (${name}): ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
 
-      case 'create_task': {
-        // Post a dedicated message to the main thread to persist the task
-        const taskData = {
-          id: ulid(),
-          groupId,
-          schedule: input.schedule as string,
-          prompt: input.prompt as string,
-          enabled: true,
-          lastRun: null,
-          createdAt: Date.now(),
-        };
-        post({ type: 'task-created', payload: { task: taskData } });
-        return `Task created successfully.\nSchedule: ${taskData.schedule}\nPrompt: ${taskData.prompt}`;
-      }
+/** The run a delegate call comes from, for its sub-agent's limits */
+interface ParentRun {
+  payload: InvokePayload;
+  /** Updated as the sub-agent reports usage, so the parent's budget covers it */
+  spent: Spend;
+}
 
-      case 'javascript': {
-        try {
-          // Indirect eval: (0, eval)(...) runs in global scope and
-          // naturally returns the value of the last expression —
-          // no explicit `return` needed.
-          const code = input.code as string;
-          const result = (0, eval)(`"use strict";\n${code}`);
-          if (result === undefined) return '(no return value)';
-          if (result === null) return 'null';
-          if (typeof result === 'object') {
-            try { return JSON.stringify(result, null, 2); } catch { /* fall through */ }
-          }
-          return String(result);
-        } catch (err: unknown) {
-          return `JavaScript error: ${err instanceof Error ? err.message : String(err)}`;
-        }
+/**
+ * Run a delegate call as a sub-agent and return its final reply. Its log
+ * entries are nested one level under this run's, its usage is recorded as
+ * 'delegate' and counted against this run's budget, and its tool activity
+ * and approval requests pass through unchanged. Typing and streamed text
+ * stay with this run.
+ */
+async function delegateTask(
+  input: Record<string, unknown>,
+  run: ParentRun,
+  signal: AbortSignal,
+): Promise<string> {
+  const { payload, spent } = run;
+  const child = buildDelegatePayload(payload, input, spent);
+  log(
+    payload.groupId,
+    'info',
+    'Delegating to a sub-agent',
+    `Tools: ${child.toolNames.join(', ') || 'none'} · Up to ${child.maxIterations} API calls`,
+  );
+
+  return runDelegate(
+    child,
+    (msg) => {
+      switch (msg.type) {
+        case 'thinking-log':
+          post({ type: 'thinking-log', payload: { ...msg.payload, depth: (msg.payload.depth ?? 0) + 1 } });
+          break;
+        case 'token-usage':
+          addSpend(spent, msg.payload, payload.budget.prices);
+          post({ type: 'token-usage', payload: { ...msg.payload, purpose: 'delegate' } });
+          break;
+        case 'tool-activity':
+        case 'task-created':
+        case 'approval-request':
+          post(msg);
+          break;
       }
-
-      default:
-        return `Unknown tool: ${name}`;
-    }
-  } catch (err: unknown) {
-    return `Tool error (${name}): ${err instanceof Error ? err.message : String(err)}`;
-  }
+    },
+    signal,
+  );
 }
 
 // ---------------------------------------------------------------------------
@@ -583,45 +661,15 @@ function post(message: WorkerOutbound): void {
   (self as unknown as Worker).postMessage(message);
 }
 
-/**
- * Extract readable text from HTML, stripping tags, scripts, styles, and
- * collapsing whitespace.  Runs in the worker (no DOM), so we use regex.
- */
-function stripHtml(html: string): string {
-  let text = html;
-  // Remove script/style/noscript blocks entirely
-  text = text.replace(/<(script|style|noscript|svg|head)[^>]*>[\s\S]*?<\/\1>/gi, '');
-  // Remove HTML comments
-  text = text.replace(/<!--[\s\S]*?-->/g, '');
-  // Remove all tags
-  text = text.replace(/<[^>]+>/g, ' ');
-  // Decode common HTML entities
-  text = text.replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&nbsp;/g, ' ')
-    .replace(/&#\d+;/g, '');
-  // Collapse whitespace
-  text = text.replace(/[ \t]+/g, ' ').replace(/\n\s*\n/g, '\n').trim();
-  return text;
-}
-
-/** Map model names to their context window limits (tokens). */
-function getContextLimit(_model: string): number {
-  // The actual session context window — 200k tokens for Claude Sonnet/Opus.
-  return 200_000;
-}
-
 function log(
   groupId: string,
   kind: ThinkingLogEntry['kind'],
   label: string,
   detail?: string,
+  extra?: Pick<ThinkingLogEntry, 'fileDiff'>,
 ): void {
   post({
     type: 'thinking-log',
-    payload: { groupId, kind, timestamp: Date.now(), label, detail },
+    payload: { groupId, kind, timestamp: Date.now(), label, detail, ...extra },
   });
 }
@@ -0,0 +1,81 @@
+// ---------------------------------------------------------------------------
+// browclaw — Image attachments
+// ---------------------------------------------------------------------------
+//
+// Images pasted into the browser chat or sent as Telegram photos are saved
+// under `attachments/` in the group directory, where the agent's file tools
+// can reach them too. When the conversation is built for the model they are
+// read back and sent as base64 image blocks.
+
+import type { Attachment, ContentBlock } from './types.js';
+import { IMAGE_MAX_DIMENSION } from './config.js';
+import { readGroupFileBlob, writeGroupFileBlob } from './storage.js';
+import { bytesToBase64 } from './binary.js';
+import { ulid } from './ulid.js';
+
+/** Image formats accepted by Anthropic and OpenAI-compatible vision models */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+export function isSupportedImage(mimeType: string): boolean {
+  return mimeType in IMAGE_EXTENSIONS;
+}
+
+/**
+ * Save an image to the group's attachments directory, downscaling it
+ * first if either side exceeds IMAGE_MAX_DIMENSION.
+ */
+export async function saveImageAttachment(
+  groupId: string,
+  image: Blob,
+  name?: string,
+): Promise<Attachment> {
+  if (!isSupportedImage(image.type)) {
+    throw new Error(`Unsupported image type: ${image.type || 'unknown'}`);
+  }
+  const blob = await downscale(image);
+  const path = `attachments/${ulid()}.${IMAGE_EXTENSIONS[blob.type]}`;
+  await writeGroupFileBlob(groupId, path, blob);
+  return { path, mimeType: blob.type, ...(name ? { name } : {}) };
+}
+
+/**
+ * Read a saved image back as a canonical image content block.
+ */
+export async function loadImageBlock(
+  groupId: string,
+  attachment: Attachment,
+): Promise<ContentBlock> {
+  const blob = await readGroupFileBlob(groupId, attachment.path);
+  return {
+    type: 'image',
+    source: { type: 'base64', media_type: attachment.mimeType, data: bytesToBase64(new Uint8Array(await blob.arrayBuffer())) },
+  };
+}
+
+async function downscale(image: Blob): Promise<Blob> {
+  // Re-encoding a GIF would keep only its first frame
+  if (image.type === 'image/gif') return image;
+
+  const bitmap = await createImageBitmap(image);
+  try {
+    const scale = IMAGE_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height);
+    if (scale >= 1) return image;
+
+    const canvas = new OffscreenCanvas(
+      Math.round(bitmap.width * scale),
+      Math.round(bitmap.height * scale),
+    );
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    // PNG keeps transparency; everything else is re-encoded as JPEG
+    return image.type === 'image/png'
+      ? canvas.convertToBlob({ type: 'image/png' })
+      : canvas.convertToBlob({ type: 'image/jpeg', quality: 0.85 });
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,142 @@
+// ---------------------------------------------------------------------------
+// browclaw — Binary files
+// ---------------------------------------------------------------------------
+//
+// MIME detection, text-or-binary checks, base64 and byte sizes for files
+// in the workspace. Images, PDFs, archives and fetched binary responses are
+// stored as bytes; only files that look like text are decoded for the
+// model or shown as text in the Files page.
+
+/** MIME types by file extension */
+const MIME_TYPES: Record<string, string> = {
+  txt: 'text/plain', md: 'text/markdown', csv: 'text/csv', tsv: 'text/tab-separated-values',
+  html: 'text/html', htm: 'text/html', css: 'text/css', xml: 'application/xml',
+  js: 'text/javascript', mjs: 'text/javascript', ts: 'text/plain', tsx: 'text/plain', jsx: 'text/plain',
+  json: 'application/json', yaml: 'text/yaml', yml: 'text/yaml', toml: 'text/plain',
+  py: 'text/plain', sh: 'text/plain', sql: 'text/plain', log: 'text/plain',
+  diff: 'text/plain', patch: 'text/plain', ics: 'text/calendar',
+  svg: 'image/svg+xml', png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg',
+  gif: 'image/gif', webp: 'image/webp', avif: 'image/avif', bmp: 'image/bmp', ico: 'image/x-icon',
+  pdf: 'application/pdf', zip: 'application/zip', gz: 'application/gzip', tar: 'application/x-tar',
+  wasm: 'application/wasm', mp3: 'audio/mpeg', wav: 'audio/wav', ogg: 'audio/ogg',
+  mp4: 'video/mp4', webm: 'video/webm', woff: 'font/woff', woff2: 'font/woff2',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+/** Leading bytes of common binary formats, for files without a known extension */
+const SIGNATURES: [type: string, bytes: number[], offset?: number][] = [
+  ['image/png', [0x89, 0x50, 0x4e, 0x47]],
+  ['image/jpeg', [0xff, 0xd8, 0xff]],
+  ['image/gif', [0x47, 0x49, 0x46, 0x38]],
+  ['image/webp', [0x57, 0x45, 0x42, 0x50], 8],
+  ['application/pdf', [0x25, 0x50, 0x44, 0x46]],
+  ['application/zip', [0x50, 0x4b, 0x03, 0x04]],
+  ['application/gzip', [0x1f, 0x8b]],
+  ['application/wasm', [0x00, 0x61, 0x73, 0x6d]],
+];
+
+/** Bytes checked when deciding whether a file is text */
+const SNIFF_LENGTH = 8000;
+
+/** MIME type of a path by its extension, or null when the extension is unknown */
+export function mimeTypeForPath(path: string): string | null {
+  const name = path.split('/').pop() ?? '';
+  const ext = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+  return MIME_TYPES[ext] ?? null;
+}
+
+/**
+ * MIME type of a file: by its extension, else by its leading bytes, else
+ * text/plain or application/octet-stream depending on whether it looks
+ * like text.
+ */
+export function detectMimeType(path: string, bytes: Uint8Array): string {
+  const byPath = mimeTypeForPath(path);
+  if (byPath) return byPath;
+  const signature = SIGNATURES.find(([, magic, offset = 0]) =>
+    magic.every((byte, i) => bytes[offset + i] === byte),
+  );
+  if (signature) return signature[0];
+  return looksBinary(bytes) ? 'application/octet-stream' : 'text/plain';
+}
+
+/** Whether a MIME type is text the model and the file viewer can read as is */
+export function isTextMimeType(mimeType: string): boolean {
+  // Without parameters such as "; charset=utf-8"
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  return (
+    type.startsWith('text/') ||
+    /^application\/(json|xml|javascript|x-ndjson)$/.test(type) ||
+    type.endsWith('+xml') ||
+    type.endsWith('+json')
+  );
+}
+
+/**
+ * Whether bytes look binary: a NUL byte, or not valid UTF-8, near the
+ * start. A multi-byte character cut off at the end of the sample is fine.
+ */
+export function looksBinary(bytes: Uint8Array): boolean {
+  const sample = bytes.subarray(0, SNIFF_LENGTH);
+  if (sample.includes(0)) return true;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: sample.length < bytes.length });
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+/** Whether a file is binary, going by its extension and then its bytes */
+export function isBinaryFile(path: string, bytes: Uint8Array): boolean {
+  const byPath = mimeTypeForPath(path);
+  if (byPath && !isTextMimeType(byPath)) return true;
+  return looksBinary(bytes);
+}
+
+/**
+ * A file's content for display: its text when it looks like text, else
+ * the file as a Blob typed by its MIME type (OPFS files carry none).
+ */
+export async function textOrBlob(path: string, file: Blob): Promise<string | Blob> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isBinaryFile(path, bytes)) return new TextDecoder().decode(bytes);
+  return new Blob([bytes], { type: detectMimeType(path, bytes) });
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked to stay under the engine's argument-count limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/** Decode base64: standard or URL-safe, or a data: URL; whitespace and padding optional */
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  let clean = base64.replace(/\s+/g, '');
+  if (clean.startsWith('data:')) clean = clean.slice(clean.indexOf(',') + 1);
+  clean = clean.replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  if (!/^[A-Za-z0-9+/]*$/.test(clean) || clean.length % 4 === 1) {
+    throw new Error('Invalid base64 content');
+  }
+  const binary = atob(clean + '='.repeat((4 - (clean.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** A byte count for people: "512 B", "12.3 KB", "4.0 MB" */
+export function formatBytes(size: number): string {
+  if (size < 1024) return `${size} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = size / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,186 @@
+// ---------------------------------------------------------------------------
+// browclaw — Spending and token budgets
+// ---------------------------------------------------------------------------
+//
+// Daily and monthly caps on tokens and estimated cost, across all groups
+// and per group. The orchestrator checks them against recorded usage before
+// starting a run and passes what is left to the worker, which stops a tool
+// loop between iterations once the run has spent it. Runs in several chats
+// at once share the caps across all chats, so what each run's next model
+// call may cost is held against those until the run ends. Days and months
+// follow the browser's local time.
+
+import type {
+  BudgetLimits,
+  BudgetPeriod,
+  Budgets,
+  ModelPrices,
+  ModelUsage,
+  RunBudget,
+  UsageRecord,
+} from './types.js';
+import { estimateCost, usageTokens } from './usage.js';
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['daily', 'monthly'];
+
+export function emptyBudgets(): Budgets {
+  return { global: {}, groups: {} };
+}
+
+/**
+ * Parse budgets stored in config, tolerating missing or malformed JSON.
+ */
+export function parseBudgets(raw: string | undefined): Budgets {
+  if (!raw) return emptyBudgets();
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      global: parsed.global ?? {},
+      groups: parsed.groups ?? {},
+    };
+  } catch {
+    return emptyBudgets();
+  }
+}
+
+/**
+ * Return a copy of `budgets` with one period's caps changed, for a group or
+ * (without `groupId`) across all groups. Caps of 0 or less are removed.
+ */
+export function withBudget(
+  budgets: Budgets,
+  period: BudgetPeriod,
+  limits: BudgetLimits,
+  groupId?: string,
+): Budgets {
+  const next: Budgets = { global: { ...budgets.global }, groups: { ...budgets.groups } };
+  const scope = groupId ? { ...next.groups[groupId] } : next.global;
+
+  const cleaned: BudgetLimits = {};
+  if (limits.tokens && limits.tokens > 0) cleaned.tokens = limits.tokens;
+  if (limits.cost && limits.cost > 0) cleaned.cost = limits.cost;
+  if (Object.keys(cleaned).length > 0) scope[period] = cleaned;
+  else delete scope[period];
+
+  if (groupId) {
+    if (Object.keys(scope).length > 0) next.groups[groupId] = scope;
+    else delete next.groups[groupId];
+  }
+  return next;
+}
+
+/** Start of the current day or month, local time */
+export function periodStart(period: BudgetPeriod, now: Date = new Date()): number {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  if (period === 'monthly') start.setDate(1);
+  return start.getTime();
+}
+
+export interface Spend {
+  tokens: number;
+  cost: number;
+}
+
+/**
+ * Tokens and cost recorded since `since`, for one group or all of them.
+ */
+export function spendSince(records: UsageRecord[], since: number, groupId?: string): Spend {
+  const spend: Spend = { tokens: 0, cost: 0 };
+  for (const record of records) {
+    if (record.timestamp < since) continue;
+    if (groupId && record.groupId !== groupId) continue;
+    spend.tokens += usageTokens(record);
+    spend.cost += record.cost;
+  }
+  return spend;
+}
+
+/**
+ * Check a group's budgets against this month's usage, plus what runs in
+ * progress in other groups hold for their next calls (`held`, by group).
+ * Returns why a run is blocked, or what it may still spend under the
+ * tightest applicable caps. `held` is set when only those holds block it,
+ * so the run can wait for them to end.
+ */
+export function checkBudgets(
+  budgets: Budgets,
+  groupId: string,
+  monthRecords: UsageRecord[],
+  held: Map<string, Spend>,
+  prices: ModelPrices,
+  now: Date = new Date(),
+): { blocked: string; held?: boolean } | { budget: RunBudget } {
+  const budget: RunBudget = { tokens: null, cost: null, prices };
+  const scopes = [
+    { scope: budgets.global, groupId: undefined, name: 'across all chats' },
+    { scope: budgets.groups[groupId] ?? {}, groupId, name: 'for this chat' },
+  ];
+
+  for (const { scope, groupId: scopeGroup, name } of scopes) {
+    for (const period of BUDGET_PERIODS) {
+      const limits = scope[period];
+      if (!limits) continue;
+      const spent = spendSince(monthRecords, periodStart(period, now), scopeGroup);
+      const others = heldBy(held, groupId, scopeGroup);
+      const resets = period === 'daily' ? 'tomorrow' : 'next month';
+      const heldUp = (what: string) =>
+        `The rest of the ${period} ${what} ${name} is held by runs in progress in other chats.`;
+
+      if (limits.tokens !== undefined) {
+        const left = limits.tokens - spent.tokens - others.tokens;
+        if (left <= 0 && spent.tokens < limits.tokens) return { blocked: heldUp('token budget'), held: true };
+        if (left <= 0) {
+          return {
+            blocked:
+              `The ${period} token budget ${name} is used up ` +
+              `(${spent.tokens.toLocaleString()} of ${limits.tokens.toLocaleString()} tokens). ` +
+              `It resets ${resets}.`,
+          };
+        }
+        budget.tokens = budget.tokens === null ? left : Math.min(budget.tokens, left);
+      }
+      if (limits.cost !== undefined) {
+        const left = limits.cost - spent.cost - others.cost;
+        if (left <= 0 && spent.cost < limits.cost) return { blocked: heldUp('spending budget'), held: true };
+        if (left <= 0) {
+          return {
+            blocked:
+              `The ${period} spending budget ${name} is used up ` +
+              `($${spent.cost.toFixed(2)} of $${limits.cost.toFixed(2)}). It resets ${resets}.`,
+          };
+        }
+        budget.cost = budget.cost === null ? left : Math.min(budget.cost, left);
+      }
+    }
+  }
+  return { budget };
+}
+
+/** What groups other than `groupId` hold, within one group or (without `scopeGroup`) all of them */
+function heldBy(held: Map<string, Spend>, groupId: string, scopeGroup?: string): Spend {
+  const total: Spend = { tokens: 0, cost: 0 };
+  for (const [heldGroup, spend] of held) {
+    if (heldGroup === groupId || (scopeGroup && heldGroup !== scopeGroup)) continue;
+    total.tokens += spend.tokens;
+    total.cost += spend.cost;
+  }
+  return total;
+}
+
+/**
+ * Which of a run's caps its spending so far has reached, if any.
+ */
+export function exceededRunBudget(budget: RunBudget, spent: Spend): 'token' | 'spending' | null {
+  if (budget.tokens !== null && spent.tokens >= budget.tokens) return 'token';
+  if (budget.cost !== null && spent.cost >= budget.cost) return 'spending';
+  return null;
+}
+
+/**
+ * Add one call's usage to a run's spending.
+ */
+export function addSpend(spent: Spend, usage: ModelUsage, prices: ModelPrices): void {
+  spent.tokens += usageTokens(usage);
+  spent.cost += estimateCost(usage, prices);
+}
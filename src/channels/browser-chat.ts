@@ -2,7 +2,7 @@
 // browclaw — Browser Chat Channel
 // ---------------------------------------------------------------------------
 
-import type { Channel, InboundMessage } from '../types.js';
+import type { Channel, InboundMessage, Attachment } from '../types.js';
 import { DEFAULT_GROUP_ID } from '../config.js';
 import { ulid } from '../ulid.js';
 
@@ -32,7 +32,7 @@ export class BrowserChatChannel implements Channel {
   /**
    * Called by the UI when the user submits a message.
    */
-  submit(text: string, groupId?: string): void {
+  submit(text: string, groupId?: string, attachments: Attachment[] = []): void {
     const gid = groupId || this.activeGroupId;
     const msg: InboundMessage = {
       id: ulid(),
@@ -41,6 +41,7 @@ export class BrowserChatChannel implements Channel {
       content: text,
       timestamp: Date.now(),
       channel: 'browser',
+      ...(attachments.length > 0 ? { attachments } : {}),
     };
     this.messageCallback?.(msg);
   }
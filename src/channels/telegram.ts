@@ -2,14 +2,24 @@
 // browclaw — Telegram Bot API Channel
 // ---------------------------------------------------------------------------
 
-import type { Channel, InboundMessage } from '../types.js';
+import type {
+  Channel,
+  InboundMessage,
+  Attachment,
+  ApprovalRequest,
+  ApprovalLogEntry,
+} from '../types.js';
 import {
   TELEGRAM_API_BASE,
+  TELEGRAM_FILE_BASE,
   TELEGRAM_MAX_LENGTH,
   TELEGRAM_POLL_TIMEOUT,
 } from '../config.js';
+import { formatToolInput } from '../tool-policies.js';
+import { saveImageAttachment } from '../attachments.js';
 
 type MessageCallback = (msg: InboundMessage) => void;
+type ApprovalCallback = (id: string, approved: boolean) => void;
 
 /**
  * Telegram channel using the Bot API via fetch().
@@ -22,6 +32,9 @@ export class TelegramChannel implements Channel {
   private offset = 0;
   private abortController: AbortController | null = null;
   private messageCallback: MessageCallback | null = null;
+  private approvalCallback: ApprovalCallback | null = null;
+  /** Sent approval prompts by request id, so they can be edited once decided */
+  private approvalMessages = new Map<string, { chatId: string; messageId: number; text: string }>();
   private running = false;
 
   /**
@@ -95,6 +108,53 @@ export class TelegramChannel implements Channel {
     this.messageCallback = callback;
   }
 
+  /**
+   * Register callback for approval button presses.
+   */
+  onApproval(callback: ApprovalCallback): void {
+    this.approvalCallback = callback;
+  }
+
+  /**
+   * Ask the chat to approve a tool call with an inline keyboard.
+   * Sent as plain text: tool input may contain Markdown control characters.
+   */
+  async requestApproval(request: ApprovalRequest): Promise<void> {
+    const chatId = request.groupId.replace(/^tg:/, '');
+    const text = `🔐 Approve tool call: ${request.tool}\n\n${formatToolInput(request.tool, request.input)}`;
+    const result = (await this.apiCall('sendMessage', {
+      chat_id: chatId,
+      text,
+      reply_markup: {
+        inline_keyboard: [[
+          { text: '✅ Approve', callback_data: `approve:${request.id}` },
+          { text: '❌ Deny', callback_data: `deny:${request.id}` },
+        ]],
+      },
+    })) as { result: { message_id: number } };
+    this.approvalMessages.set(request.id, {
+      chatId,
+      messageId: result.result.message_id,
+      text,
+    });
+  }
+
+  /**
+   * Replace an approval prompt's buttons with the decision.
+   */
+  async closeApproval(entry: ApprovalLogEntry): Promise<void> {
+    const sent = this.approvalMessages.get(entry.id);
+    if (!sent) return;
+    this.approvalMessages.delete(entry.id);
+    const outcome =
+      entry.decidedBy === 'cancelled' ? '⏹ Cancelled' : entry.approved ? '✅ Approved' : '❌ Denied';
+    await this.apiCall('editMessageText', {
+      chat_id: sent.chatId,
+      message_id: sent.messageId,
+      text: `${sent.text}\n\n${outcome}`,
+    });
+  }
+
   /**
    * Check if the channel is configured and running.
    */
@@ -128,7 +188,8 @@ export class TelegramChannel implements Channel {
 
         for (const update of data.result) {
           this.offset = update.update_id + 1;
-          this.handleUpdate(update);
+          // Awaited so a photo still downloading can't be overtaken by later messages
+          await this.handleUpdate(update);
         }
       } catch (err: unknown) {
         if (err instanceof Error && err.name === 'AbortError') break;
@@ -138,7 +199,12 @@ export class TelegramChannel implements Channel {
     }
   }
 
-  private handleUpdate(update: TelegramUpdate): void {
+  private async handleUpdate(update: TelegramUpdate): Promise<void> {
+    if (update.callback_query) {
+      this.handleCallbackQuery(update.callback_query);
+      return;
+    }
+
     const msg = update.message;
     if (!msg) return;
 
@@ -166,16 +232,29 @@ export class TelegramChannel implements Channel {
     // Ignore unregistered chats
     if (!this.registeredChatIds.has(chatId)) return;
 
-    // Extract message content
+    const groupId = `tg:${chatId}`;
+    const attachments: Attachment[] = [];
+    if (msg.photo?.length) {
+      try {
+        attachments.push(await this.downloadPhoto(groupId, msg.photo));
+      } catch (err) {
+        console.error('Failed to download Telegram photo:', err);
+      }
+    }
+
+    // Extract message content. A downloaded photo is carried as an
+    // attachment, so only its caption remains as text.
     const content =
-      msg.text ||
-      (msg.photo ? '[Photo]' : null) ||
-      (msg.voice ? '[Voice message]' : null) ||
-      (msg.document ? `[Document: ${msg.document.file_name}]` : null) ||
-      (msg.sticker ? `[Sticker: ${msg.sticker.emoji || ''}]` : null) ||
-      (msg.location ? `[Location: ${msg.location.latitude}, ${msg.location.longitude}]` : null) ||
-      (msg.contact ? `[Contact: ${msg.contact.first_name}]` : null) ||
-      '[Unsupported message type]';
+      attachments.length > 0
+        ? msg.caption ?? ''
+        : msg.text ||
+          (msg.photo ? `[Photo]${msg.caption ? ` ${msg.caption}` : ''}` : null) ||
+          (msg.voice ? '[Voice message]' : null) ||
+          (msg.document ? `[Document: ${msg.document.file_name}]` : null) ||
+          (msg.sticker ? `[Sticker: ${msg.sticker.emoji || ''}]` : null) ||
+          (msg.location ? `[Location: ${msg.location.latitude}, ${msg.location.longitude}]` : null) ||
+          (msg.contact ? `[Contact: ${msg.contact.first_name}]` : null) ||
+          '[Unsupported message type]';
 
     const senderName =
       msg.from?.first_name ||
@@ -184,14 +263,45 @@ export class TelegramChannel implements Channel {
 
     this.messageCallback?.({
       id: String(msg.message_id),
-      groupId: `tg:${chatId}`,
+      groupId,
       sender: senderName,
       content,
       timestamp: msg.date * 1000,
       channel: 'telegram',
+      ...(attachments.length > 0 ? { attachments } : {}),
     });
   }
 
+  /**
+   * Download the largest size of a photo via getFile and save it to the
+   * group's attachments.
+   */
+  private async downloadPhoto(groupId: string, sizes: TelegramPhotoSize[]): Promise<Attachment> {
+    const largest = sizes.reduce((a, b) => (b.width * b.height > a.width * a.height ? b : a));
+    const file = (await this.apiCall('getFile', { file_id: largest.file_id })) as {
+      result: { file_path?: string };
+    };
+    if (!file.result.file_path) throw new Error('Telegram returned no file path');
+
+    const res = await fetch(`${TELEGRAM_FILE_BASE}${this.token}/${file.result.file_path}`);
+    if (!res.ok) throw new Error(`Telegram file download failed: ${res.status}`);
+    // Telegram serves photos as JPEG but not always with an image content type
+    const blob = await res.blob();
+    return saveImageAttachment(groupId, new Blob([blob], { type: 'image/jpeg' }));
+  }
+
+  private handleCallbackQuery(query: TelegramCallbackQuery): void {
+    const chatId = query.message ? String(query.message.chat.id) : '';
+    const [action, id] = (query.data || '').split(':');
+
+    // Always answer so the client stops showing a spinner
+    this.apiCall('answerCallbackQuery', { callback_query_id: query.id }).catch(console.error);
+
+    if (!this.registeredChatIds.has(chatId) || !id) return;
+    if (action !== 'approve' && action !== 'deny') return;
+    this.approvalCallback?.(id, action === 'approve');
+  }
+
   private async apiCall(method: string, body: Record<string, unknown>): Promise<unknown> {
     const res = await fetch(`${TELEGRAM_API_BASE}${this.token}/${method}`, {
       method: 'POST',
@@ -240,6 +350,19 @@ function sleep(ms: number): Promise<void> {
 interface TelegramUpdate {
   update_id: number;
   message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+interface TelegramCallbackQuery {
+  id: string;
+  data?: string;
+  message?: TelegramMessage;
+}
+
+interface TelegramPhotoSize {
+  file_id: string;
+  width: number;
+  height: number;
 }
 
 interface TelegramMessage {
@@ -248,7 +371,8 @@ interface TelegramMessage {
   from?: { id: number; first_name?: string; username?: string };
   date: number;
   text?: string;
-  photo?: unknown[];
+  caption?: string;
+  photo?: TelegramPhotoSize[];
   voice?: unknown;
   document?: { file_name?: string };
   sticker?: { emoji?: string };
@@ -3,9 +3,10 @@
 // ---------------------------------------------------------------------------
 
 import { useState } from 'react';
-import { Link, Wrench, ClipboardList, MessageSquare, Info } from 'lucide-react';
+import { Link, Wrench, ClipboardList, MessageSquare, Brain, Info, RotateCw } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
 import type { ThinkingLogEntry } from '../../types.js';
+import { useFileViewerStore } from '../../stores/file-viewer-store.js';
 
 interface Props {
   entries: ThinkingLogEntry[];
@@ -16,7 +17,9 @@ const kindIcons: Record<string, LucideIcon> = {
   'tool-call': Wrench,
   'tool-result': ClipboardList,
   'text': MessageSquare,
+  'thinking': Brain,
   'info': Info,
+  'retry': RotateCw,
 };
 
 function formatTime(ts: number): string {
@@ -30,6 +33,7 @@ function formatTime(ts: number): string {
 export function ActivityLog({ entries }: Props) {
   const [open, setOpen] = useState(false);
   const [expandedDetails, setExpandedDetails] = useState<Set<number>>(new Set());
+  const openDiff = useFileViewerStore((s) => s.openDiff);
 
   function toggleDetail(idx: number) {
     setExpandedDetails((prev) => {
@@ -40,6 +44,10 @@ export function ActivityLog({ entries }: Props) {
     });
   }
 
+  // Surface a pending retry even while the log is collapsed
+  const last = entries[entries.length - 1];
+  const retrying = last?.kind === 'retry' ? last : null;
+
   return (
     <div className="px-4 pt-2">
       <div className="collapse collapse-arrow bg-base-200">
@@ -50,19 +58,39 @@ export function ActivityLog({ entries }: Props) {
         />
         <div className="collapse-title text-sm font-medium py-2 min-h-0">
           Activity <span className="badge badge-sm badge-primary ml-1">{entries.length}</span>
+          {retrying && (
+            <span className="badge badge-sm badge-warning ml-1 gap-1">
+              <RotateCw className="w-3 h-3" /> {retrying.label}
+            </span>
+          )}
         </div>
         <div className="collapse-content">
           <div className="max-h-48 overflow-y-auto space-y-1 text-xs">
             {entries.map((entry, idx) => {
               const KindIcon = kindIcons[entry.kind];
               return (
-              <div key={idx} className="flex items-start gap-1.5">
+              <div
+                key={idx}
+                className={`flex items-start gap-1.5 ${entry.kind === 'retry' ? 'text-warning' : ''} ${
+                  entry.depth ? 'border-l border-base-content/20 pl-2' : ''
+                }`}
+                // Sub-agent entries sit under the delegate call that started them
+                style={entry.depth ? { marginLeft: `${entry.depth}rem` } : undefined}
+              >
                 {KindIcon ? <KindIcon className="w-3.5 h-3.5 shrink-0 mt-0.5" /> : <span>•</span>}
                 <span className="opacity-50 shrink-0">
                   {formatTime(entry.timestamp)}
                 </span>
                 <div className="flex-1 min-w-0">
                   <span className="font-medium">{entry.label}</span>
+                  {entry.fileDiff && (
+                    <button
+                      className="ml-1 link link-primary text-xs"
+                      onClick={() => openDiff(entry.fileDiff!)}
+                    >
+                      view diff
+                    </button>
+                  )}
                   {entry.detail && (
                     <>
                       {entry.detail.length > 120 && (
@@ -0,0 +1,76 @@
+// ---------------------------------------------------------------------------
+// browclaw — Archived history modal
+// ---------------------------------------------------------------------------
+
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import type { ArchivedMessage } from '../../types.js';
+import { getArchivedMessages } from '../../db.js';
+import { MessageBubble } from './MessageBubble.js';
+
+interface Props {
+  compactionId: string;
+  onClose: () => void;
+}
+
+export function ArchivedHistoryModal({ compactionId, onClose }: Props) {
+  const [messages, setMessages] = useState<ArchivedMessage[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getArchivedMessages(compactionId)
+      .then((archived) => {
+        if (!cancelled) setMessages(archived);
+      })
+      .catch(() => setMessages([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [compactionId]);
+
+  // Close on ESC
+  useEffect(() => {
+    function handleKey(e: KeyboardEvent) {
+      if (e.key === 'Escape') onClose();
+    }
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  return (
+    <dialog className="modal modal-open">
+      <div className="modal-box w-11/12 max-w-3xl h-[85vh] flex flex-col p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-base-300">
+          <h3 className="font-bold">
+            Archived history
+            {messages && (
+              <span className="ml-2 text-sm font-normal opacity-60">
+                {messages.length} message{messages.length === 1 ? '' : 's'}
+              </span>
+            )}
+          </h3>
+          <button className="btn btn-ghost btn-sm btn-square" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4">
+          {messages === null ? (
+            <div className="flex justify-center py-8">
+              <span className="loading loading-spinner loading-md" />
+            </div>
+          ) : messages.length === 0 ? (
+            <p className="text-sm opacity-60 text-center py-8">
+              The archived messages are no longer available.
+            </p>
+          ) : (
+            messages.map((msg) => <MessageBubble key={msg.id} message={msg} />)
+          )}
+        </div>
+      </div>
+      <form method="dialog" className="modal-backdrop">
+        <button onClick={onClose}>close</button>
+      </form>
+    </dialog>
+  );
+}
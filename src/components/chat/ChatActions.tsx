@@ -1,9 +1,9 @@
 // ---------------------------------------------------------------------------
-// browclaw — Chat actions (Compact + New Session)
+// browclaw — Chat actions (Stop + Compact + New Session)
 // ---------------------------------------------------------------------------
 
 import { useState } from 'react';
-import { Package, RefreshCw } from 'lucide-react';
+import { Package, RefreshCw, Square } from 'lucide-react';
 import { useOrchestratorStore } from '../../stores/orchestrator-store.js';
 
 interface Props {
@@ -13,6 +13,8 @@ interface Props {
 export function ChatActions({ disabled }: Props) {
   const compactContext = useOrchestratorStore((s) => s.compactContext);
   const newSession = useOrchestratorStore((s) => s.newSession);
+  const cancel = useOrchestratorStore((s) => s.cancel);
+  const orchState = useOrchestratorStore((s) => s.state);
   const [confirmAction, setConfirmAction] = useState<'compact' | 'new-session' | null>(null);
 
   async function handleConfirm() {
@@ -27,6 +29,14 @@ export function ChatActions({ disabled }: Props) {
   return (
     <>
       <div className="flex gap-1 px-4 py-2">
+        {orchState !== 'idle' && (
+          <button
+            className="btn btn-error btn-outline btn-xs gap-1"
+            onClick={cancel}
+          >
+            <Square className="w-3.5 h-3.5" /> Stop
+          </button>
+        )}
         <button
           className="btn btn-ghost btn-xs gap-1"
           disabled={disabled}
@@ -52,7 +62,7 @@ export function ChatActions({ disabled }: Props) {
             </h3>
             <p className="py-4">
               {confirmAction === 'compact'
-                ? 'This will summarize the conversation to reduce token usage. The summary replaces the current history.'
+                ? 'This will summarize older messages to reduce token usage. The most recent messages are kept as they are; the summarized ones are archived and can still be viewed.'
                 : 'This will clear all messages and start a fresh conversation. This cannot be undone.'}
             </p>
             <div className="modal-action">
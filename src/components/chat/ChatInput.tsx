@@ -2,22 +2,59 @@
 // browclaw — Chat input
 // ---------------------------------------------------------------------------
 
-import { useState, useRef, type KeyboardEvent } from 'react';
-import { Send } from 'lucide-react';
+import {
+  useState,
+  useRef,
+  useEffect,
+  type KeyboardEvent,
+  type ClipboardEvent,
+  type DragEvent,
+} from 'react';
+import { Send, ImagePlus, X } from 'lucide-react';
+import { isSupportedImage } from '../../attachments.js';
+import { McpPromptPicker } from './McpPromptPicker.js';
 
 interface Props {
-  onSend: (text: string) => void;
+  groupId: string;
+  onSend: (text: string, images: File[]) => void;
   disabled: boolean;
 }
 
-export function ChatInput({ onSend, disabled }: Props) {
+interface PendingImage {
+  file: File;
+  previewUrl: string;
+}
+
+export function ChatInput({ groupId, onSend, disabled }: Props) {
   const [text, setText] = useState('');
+  const [images, setImages] = useState<PendingImage[]>([]);
+  const [dragging, setDragging] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Release preview URLs still held when the input unmounts
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+  useEffect(() => () => imagesRef.current.forEach((i) => URL.revokeObjectURL(i.previewUrl)), []);
+
+  function addImages(files: Iterable<File>) {
+    const added = [...files]
+      .filter((file) => isSupportedImage(file.type))
+      .map((file) => ({ file, previewUrl: URL.createObjectURL(file) }));
+    if (added.length > 0) setImages((current) => [...current, ...added]);
+  }
+
+  function removeImage(index: number) {
+    URL.revokeObjectURL(images[index].previewUrl);
+    setImages(images.filter((_, i) => i !== index));
+  }
 
   function handleSend() {
     const trimmed = text.trim();
-    if (!trimmed || disabled) return;
-    onSend(trimmed);
+    if ((!trimmed && images.length === 0) || disabled) return;
+    onSend(trimmed, images.map((i) => i.file));
+    images.forEach((i) => URL.revokeObjectURL(i.previewUrl));
+    setImages([]);
     setText('');
     // Reset textarea height
     if (textareaRef.current) {
@@ -25,6 +62,11 @@ export function ChatInput({ onSend, disabled }: Props) {
     }
   }
 
+  function handleInsertPrompt(prompt: string) {
+    setText((current) => (current.trim() ? `${current}\n\n${prompt}` : prompt));
+    textareaRef.current?.focus();
+  }
+
   function handleKeyDown(e: KeyboardEvent) {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -32,26 +74,92 @@ export function ChatInput({ onSend, disabled }: Props) {
     }
   }
 
+  function handlePaste(e: ClipboardEvent) {
+    const files = [...e.clipboardData.files];
+    if (files.some((file) => isSupportedImage(file.type))) {
+      e.preventDefault();
+      addImages(files);
+    }
+  }
+
+  function handleDrop(e: DragEvent) {
+    e.preventDefault();
+    setDragging(false);
+    if (!disabled) addImages(e.dataTransfer.files);
+  }
+
   return (
-    <div className="flex items-end gap-2 p-4">
-      <textarea
-        ref={textareaRef}
-        className="textarea textarea-bordered flex-1 chat-textarea text-base leading-snug"
-        placeholder="Type a message..."
-        value={text}
-        onChange={(e) => setText(e.target.value)}
-        onKeyDown={handleKeyDown}
-        disabled={disabled}
-        rows={1}
-      />
-      <button
-        className="btn btn-primary btn-circle"
-        onClick={handleSend}
-        disabled={disabled || !text.trim()}
-        aria-label="Send message"
-      >
-        <Send className="w-5 h-5" />
-      </button>
+    <div
+      className={`p-4 ${dragging ? 'bg-base-200' : ''}`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+    >
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {images.map((image, i) => (
+            <div key={image.previewUrl} className="relative">
+              <img
+                src={image.previewUrl}
+                alt={image.file.name}
+                className="h-16 w-16 object-cover rounded border border-base-300"
+              />
+              <button
+                className="btn btn-circle btn-xs absolute -top-2 -right-2"
+                onClick={() => removeImage(i)}
+                aria-label={`Remove ${image.file.name}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex items-end gap-2">
+        <button
+          className="btn btn-ghost btn-circle"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          aria-label="Attach images"
+          title="Attach images"
+        >
+          <ImagePlus className="w-5 h-5" />
+        </button>
+        <McpPromptPicker groupId={groupId} disabled={disabled} onInsert={handleInsertPrompt} />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/gif,image/webp"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) addImages(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        <textarea
+          ref={textareaRef}
+          className="textarea textarea-bordered flex-1 chat-textarea text-base leading-snug"
+          placeholder="Type a message..."
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          disabled={disabled}
+          rows={1}
+        />
+        <button
+          className="btn btn-primary btn-circle"
+          onClick={handleSend}
+          disabled={disabled || (!text.trim() && images.length === 0)}
+          aria-label="Send message"
+        >
+          <Send className="w-5 h-5" />
+        </button>
+      </div>
     </div>
   );
 }
@@ -6,9 +6,11 @@ import { useEffect, useRef } from 'react';
 import { X, MessageSquare, Globe, FileText, MapPin } from 'lucide-react';
 import { useOrchestratorStore } from '../../stores/orchestrator-store.js';
 import { MessageList } from './MessageList.js';
+import { MessageBubble } from './MessageBubble.js';
 import { ChatInput } from './ChatInput.js';
 import { TypingIndicator } from './TypingIndicator.js';
 import { ToolActivity } from './ToolActivity.js';
+import { ToolApproval } from './ToolApproval.js';
 import { ActivityLog } from './ActivityLog.js';
 import { ContextBar } from './ContextBar.js';
 import { ChatActions } from './ChatActions.js';
@@ -49,12 +51,16 @@ const PROMPT_STARTERS = [
 
 export function ChatPage() {
   const messages = useOrchestratorStore((s) => s.messages);
+  const streamingText = useOrchestratorStore((s) => s.streamingText);
   const isTyping = useOrchestratorStore((s) => s.isTyping);
   const toolActivity = useOrchestratorStore((s) => s.toolActivity);
   const activityLog = useOrchestratorStore((s) => s.activityLog);
+  const pendingApprovals = useOrchestratorStore((s) => s.pendingApprovals);
   const orchState = useOrchestratorStore((s) => s.state);
   const tokenUsage = useOrchestratorStore((s) => s.tokenUsage);
+  const contextWindow = useOrchestratorStore((s) => s.contextWindow);
   const error = useOrchestratorStore((s) => s.error);
+  const activeGroupId = useOrchestratorStore((s) => s.activeGroupId);
   const sendMessage = useOrchestratorStore((s) => s.sendMessage);
   const loadHistory = useOrchestratorStore((s) => s.loadHistory);
 
@@ -63,7 +69,7 @@ export function ChatPage() {
   // Scroll to bottom on new messages
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isTyping]);
+  }, [messages, isTyping, streamingText, pendingApprovals]);
 
   // Load history on mount
   useEffect(() => {
@@ -105,10 +111,27 @@ export function ChatPage() {
 
         <MessageList messages={messages} />
 
-        {isTyping && <TypingIndicator />}
-        {toolActivity && (
-          <ToolActivity tool={toolActivity.tool} status={toolActivity.status} />
+        {streamingText ? (
+          <MessageBubble
+            message={{
+              id: 'streaming',
+              groupId: activeGroupId,
+              sender: '',
+              content: streamingText,
+              timestamp: Date.now(),
+              channel: 'browser',
+              isFromMe: true,
+              isTrigger: false,
+            }}
+            streaming
+          />
+        ) : (
+          isTyping && <TypingIndicator />
         )}
+        {toolActivity.length > 0 && <ToolActivity tools={toolActivity.map((t) => t.tool)} />}
+        {pendingApprovals.map((request) => (
+          <ToolApproval key={request.id} request={request} />
+        ))}
 
         <div ref={bottomRef} />
       </div>
@@ -119,7 +142,7 @@ export function ChatPage() {
         {activityLog.length > 0 && <ActivityLog entries={activityLog} />}
 
         {/* Context / token usage bar */}
-        {tokenUsage && <ContextBar usage={tokenUsage} />}
+        {tokenUsage && <ContextBar usage={tokenUsage} contextWindow={contextWindow} />}
 
         {/* Compact / New Session actions */}
         <ChatActions disabled={orchState !== 'idle'} />
@@ -141,6 +164,7 @@ export function ChatPage() {
 
         {/* Input */}
         <ChatInput
+          groupId={activeGroupId}
           onSend={sendMessage}
           disabled={orchState !== 'idle'}
         />
@@ -2,10 +2,14 @@
 // browclaw — Context / token usage bar
 // ---------------------------------------------------------------------------
 
-import type { TokenUsage } from '../../types.js';
+import { Scissors } from 'lucide-react';
+import type { ContextWindowReport, TokenUsage } from '../../types.js';
+import { usedContextTokens } from '../../context-window.js';
 
 interface Props {
   usage: TokenUsage;
+  /** How history was fitted into the last request, if known */
+  contextWindow: ContextWindowReport | null;
 }
 
 function formatTokens(n: number): string {
@@ -13,8 +17,8 @@ function formatTokens(n: number): string {
   return String(n);
 }
 
-export function ContextBar({ usage }: Props) {
-  const total = usage.inputTokens + usage.outputTokens;
+export function ContextBar({ usage, contextWindow }: Props) {
+  const total = usedContextTokens(usage);
   const pct = Math.min((total / usage.contextLimit) * 100, 100);
 
   let colorClass = 'progress-success';
@@ -36,6 +40,19 @@ export function ContextBar({ usage }: Props) {
       <span className="text-xs opacity-60 whitespace-nowrap hidden sm:inline">
         {formatTokens(total)} / {formatTokens(usage.contextLimit)} tokens{cacheInfo}
       </span>
+      {contextWindow && contextWindow.droppedMessages > 0 && (
+        <span
+          className="badge badge-sm badge-ghost gap-1 whitespace-nowrap"
+          title={`The ${contextWindow.droppedMessages} oldest messages (~${formatTokens(
+            contextWindow.droppedTokens,
+          )} tokens) were not sent, to stay within the ${formatTokens(
+            contextWindow.budgetTokens,
+          )}-token context budget. Compact the context to keep a summary of them.`}
+        >
+          <Scissors className="w-3 h-3" />
+          {contextWindow.droppedMessages} older not sent
+        </span>
+      )}
     </div>
   );
 }
@@ -0,0 +1,134 @@
+// ---------------------------------------------------------------------------
+// browclaw — MCP prompt picker (chat input)
+// ---------------------------------------------------------------------------
+
+import { useEffect, useState } from 'react';
+import { ScrollText } from 'lucide-react';
+import type { McpPromptInfo, McpServerConfig } from '../../types.js';
+import { getOrchestrator } from '../../stores/orchestrator-store.js';
+
+interface Props {
+  groupId: string;
+  disabled: boolean;
+  /** Receives the prompt's text, to put in the input for editing */
+  onInsert: (text: string) => void;
+}
+
+interface Selected {
+  server: McpServerConfig;
+  prompt: McpPromptInfo;
+}
+
+export function McpPromptPicker({ groupId, disabled, onInsert }: Props) {
+  const orch = getOrchestrator();
+  const [, setStatusVersion] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<Selected | null>(null);
+  const [args, setArgs] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const onStatus = () => setStatusVersion((v) => v + 1);
+    orch.events.on('mcp-status', onStatus);
+    return () => orch.events.off('mcp-status', onStatus);
+  }, [orch]);
+
+  const prompts = orch.getMcpPrompts(groupId);
+  if (prompts.length === 0) return null;
+
+  function close() {
+    setOpen(false);
+    setSelected(null);
+    setArgs({});
+    setError(null);
+  }
+
+  async function insert(choice: Selected, values: Record<string, string>) {
+    setLoading(true);
+    setError(null);
+    try {
+      onInsert(await orch.getMcpPrompt(choice.server.id, choice.prompt.name, values));
+      close();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function handlePick(choice: Selected) {
+    if (choice.prompt.arguments?.length) {
+      setSelected(choice);
+      setArgs({});
+    } else {
+      insert(choice, {});
+    }
+  }
+
+  const missingRequired = selected?.prompt.arguments?.some((a) => a.required && !args[a.name]?.trim());
+
+  return (
+    <div className={`dropdown dropdown-top ${open ? 'dropdown-open' : ''}`}>
+      <button
+        className="btn btn-ghost btn-circle"
+        onClick={() => (open ? close() : setOpen(true))}
+        disabled={disabled}
+        aria-label="Insert an MCP prompt"
+        title="Insert an MCP prompt"
+      >
+        <ScrollText className="w-5 h-5" />
+      </button>
+      {open && (
+        <div className="dropdown-content z-10 mb-2 w-72 max-h-80 overflow-y-auto rounded-box bg-base-200 p-2 shadow">
+          {selected ? (
+            <div className="grid gap-2 p-1">
+              <div className="font-medium text-sm">{selected.prompt.name}</div>
+              {selected.prompt.arguments!.map((arg) => (
+                <input
+                  key={arg.name}
+                  type="text"
+                  className="input input-bordered input-sm w-full"
+                  placeholder={`${arg.name}${arg.required ? ' (required)' : ''}`}
+                  title={arg.description}
+                  value={args[arg.name] ?? ''}
+                  onChange={(e) => setArgs({ ...args, [arg.name]: e.target.value })}
+                />
+              ))}
+              <div className="flex gap-2">
+                <button
+                  className="btn btn-primary btn-sm"
+                  onClick={() => insert(selected, args)}
+                  disabled={loading || missingRequired}
+                >
+                  {loading && <span className="loading loading-spinner loading-xs" />}
+                  Insert
+                </button>
+                <button className="btn btn-ghost btn-sm" onClick={() => setSelected(null)}>
+                  Back
+                </button>
+              </div>
+            </div>
+          ) : (
+            <ul className="menu menu-sm p-0">
+              {prompts.map((choice) => (
+                <li key={`${choice.server.id}:${choice.prompt.name}`}>
+                  <button onClick={() => handlePick(choice)} disabled={loading}>
+                    <div className="text-left min-w-0">
+                      <div className="font-medium">{choice.prompt.name}</div>
+                      <div className="text-xs opacity-50 truncate">
+                        {choice.server.name}
+                        {choice.prompt.description ? ` · ${choice.prompt.description}` : ''}
+                      </div>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {error && <div className="text-error text-xs p-1">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
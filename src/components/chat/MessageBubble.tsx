@@ -2,15 +2,18 @@
 // browclaw — Message bubble
 // ---------------------------------------------------------------------------
 
+import { useEffect, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeRaw from 'rehype-raw';
 import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
-import { FileText } from 'lucide-react';
-import type { StoredMessage } from '../../types.js';
+import { FileText, Brain, History } from 'lucide-react';
+import type { StoredMessage, Attachment } from '../../types.js';
+import { readGroupFileBlob } from '../../storage.js';
 import { getOrchestrator } from '../../stores/orchestrator-store.js';
 import { useFileViewerStore } from '../../stores/file-viewer-store.js';
 import { CodeBlock } from './CodeBlock.js';
+import { ArchivedHistoryModal } from './ArchivedHistoryModal.js';
 
 // Matches strings that look like file paths (with extension)
 const FILE_PATH_RE = /^[\w./-]+\.\w{1,10}$/;
@@ -53,13 +56,15 @@ const sanitizeSchema = {
 
 interface Props {
   message: StoredMessage;
+  /** True while the message is still being streamed from the model */
+  streaming?: boolean;
 }
 
 function formatTime(ts: number): string {
   return new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 }
 
-export function MessageBubble({ message }: Props) {
+export function MessageBubble({ message, streaming = false }: Props) {
   const isAssistant = message.isFromMe;
   const senderName = isAssistant ? getSenderName(message) : 'You';
 
@@ -67,13 +72,25 @@ export function MessageBubble({ message }: Props) {
     <div className={`chat ${isAssistant ? 'chat-start' : 'chat-end'}`}>
       <div className="chat-header opacity-60 mb-0.5">
         {senderName}
-        <time className="ml-2 text-xs">{formatTime(message.timestamp)}</time>
+        {!streaming && <time className="ml-2 text-xs">{formatTime(message.timestamp)}</time>}
       </div>
       <div
         className={`chat-bubble ${
           isAssistant ? '' : 'chat-bubble-primary'
         }`}
       >
+        {message.attachments && message.attachments.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mb-1">
+            {message.attachments.map((attachment) => (
+              <AttachmentImage
+                key={attachment.path}
+                groupId={message.groupId}
+                attachment={attachment}
+              />
+            ))}
+          </div>
+        )}
+        {message.reasoning && <Reasoning text={message.reasoning} />}
         {isAssistant ? (
           <div className="chat-markdown">
             <ReactMarkdown
@@ -158,15 +175,87 @@ export function MessageBubble({ message }: Props) {
             >
               {message.content}
             </ReactMarkdown>
+            {streaming && <span className="streaming-cursor" />}
+            {message.compaction && <ArchivedLink {...message.compaction} />}
           </div>
         ) : (
-          <span className="whitespace-pre-wrap">{message.content}</span>
+          message.content && <span className="whitespace-pre-wrap">{message.content}</span>
         )}
       </div>
     </div>
   );
 }
 
+// The model's thinking behind a reply, collapsed by default
+function Reasoning({ text }: { text: string }) {
+  return (
+    <details className="mb-1.5 text-sm">
+      <summary className="cursor-pointer select-none opacity-60 hover:opacity-80 inline-flex items-center gap-1">
+        <Brain className="w-3.5 h-3.5" /> Reasoning
+      </summary>
+      <div className="mt-1 pl-3 border-l-2 border-current/20 opacity-70 whitespace-pre-wrap">
+        {text}
+      </div>
+    </details>
+  );
+}
+
+// Opens the messages a compaction summary replaced
+function ArchivedLink({ id, archivedCount }: { id: string; archivedCount: number }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <>
+      <button
+        type="button"
+        className="btn btn-ghost btn-xs mt-1 gap-1 opacity-70"
+        onClick={() => setOpen(true)}
+      >
+        <History className="w-3.5 h-3.5" />
+        View {archivedCount} archived message{archivedCount === 1 ? '' : 's'}
+      </button>
+      {open && <ArchivedHistoryModal compactionId={id} onClose={() => setOpen(false)} />}
+    </>
+  );
+}
+
+// Image attachment read from the group workspace
+function AttachmentImage({ groupId, attachment }: { groupId: string; attachment: Attachment }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    readGroupFileBlob(groupId, attachment.path)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => setUrl(null));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [groupId, attachment.path]);
+
+  if (!url) {
+    return (
+      <span className="text-xs opacity-60 italic">
+        [{attachment.name || attachment.path}]
+      </span>
+    );
+  }
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer">
+      <img
+        src={url}
+        alt={attachment.name || attachment.path}
+        className="max-h-48 max-w-full rounded"
+      />
+    </a>
+  );
+}
+
 // Clickable inline file link that opens the global file viewer
 function FileLink({ path }: { path: string }) {
   const openFile = useFileViewerStore((s) => s.openFile);
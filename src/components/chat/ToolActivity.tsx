@@ -3,16 +3,23 @@
 // ---------------------------------------------------------------------------
 
 interface Props {
-  tool: string;
-  status: string;
+  /** Tools currently running, in the order they started */
+  tools: string[];
 }
 
-export function ToolActivity({ tool }: Props) {
+export function ToolActivity({ tools }: Props) {
   return (
     <div className="chat chat-start">
       <div className="chat-bubble text-sm py-2">
         <span className="loading loading-dots loading-xs mr-2" />
-        Using <strong>{tool}</strong>...
+        Using{' '}
+        {tools.map((tool, i) => (
+          <span key={i}>
+            {i > 0 && (i === tools.length - 1 ? ' and ' : ', ')}
+            <strong>{tool}</strong>
+          </span>
+        ))}
+        ...
       </div>
     </div>
   );
@@ -0,0 +1,51 @@
+// ---------------------------------------------------------------------------
+// browclaw — Tool approval prompt
+// ---------------------------------------------------------------------------
+
+import { ShieldQuestionMark, Check, X } from 'lucide-react';
+import type { ApprovalRequest } from '../../types.js';
+import { useOrchestratorStore } from '../../stores/orchestrator-store.js';
+import { formatToolInput } from '../../tool-policies.js';
+
+interface Props {
+  request: ApprovalRequest;
+}
+
+export function ToolApproval({ request }: Props) {
+  const respondToApproval = useOrchestratorStore((s) => s.respondToApproval);
+  const alwaysAllow = useOrchestratorStore((s) => s.alwaysAllow);
+
+  return (
+    <div className="chat chat-start">
+      <div className="chat-bubble bg-base-200 text-base-content w-full max-w-xl">
+        <div className="flex items-center gap-2 text-sm font-medium mb-2">
+          <ShieldQuestionMark className="w-4 h-4 text-warning" />
+          Allow <strong>{request.tool}</strong> to run?
+        </div>
+        <pre className="bg-base-300 rounded p-2 text-xs overflow-x-auto max-h-64 whitespace-pre-wrap break-all">
+          {formatToolInput(request.tool, request.input)}
+        </pre>
+        <div className="flex flex-wrap gap-1 mt-2">
+          <button
+            className="btn btn-success btn-xs gap-1"
+            onClick={() => respondToApproval(request.id, true)}
+          >
+            <Check className="w-3.5 h-3.5" /> Approve
+          </button>
+          <button
+            className="btn btn-error btn-outline btn-xs gap-1"
+            onClick={() => respondToApproval(request.id, false)}
+          >
+            <X className="w-3.5 h-3.5" /> Deny
+          </button>
+          <button
+            className="btn btn-ghost btn-xs"
+            onClick={() => alwaysAllow(request.id)}
+          >
+            Always allow in this chat
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+// ---------------------------------------------------------------------------
+// browclaw — Binary file preview
+// ---------------------------------------------------------------------------
+
+import { useEffect, useState } from 'react';
+import { File } from 'lucide-react';
+import { formatBytes } from '../../binary.js';
+
+interface Props {
+  name: string;
+  /** Typed by its MIME type (see textOrBlob) */
+  blob: Blob;
+}
+
+export function BinaryPreview({ name, blob }: Props) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  if (!url) return null;
+  const type = blob.type;
+
+  if (type.startsWith('image/')) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <img src={url} alt={name} className="max-w-full max-h-full object-contain" />
+      </div>
+    );
+  }
+  if (type === 'application/pdf') {
+    return <iframe src={url} className="w-full h-full border-0 rounded bg-white" title={name} />;
+  }
+  if (type.startsWith('audio/')) {
+    return <audio src={url} controls className="w-full" />;
+  }
+  if (type.startsWith('video/')) {
+    return <video src={url} controls className="max-w-full max-h-full mx-auto" />;
+  }
+  return (
+    <div className="hero py-12">
+      <div className="hero-content text-center">
+        <div>
+          <File className="w-8 h-8 mx-auto mb-2 opacity-30" />
+          <p className="font-medium">Binary file</p>
+          <p className="text-sm opacity-60 mt-1">
+            {type || 'application/octet-stream'}, {formatBytes(blob.size)} — download it to open it
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
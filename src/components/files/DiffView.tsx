@@ -0,0 +1,30 @@
+// ---------------------------------------------------------------------------
+// browclaw — Unified diff view
+// ---------------------------------------------------------------------------
+
+interface Props {
+  diff: string;
+}
+
+function lineClass(line: string): string {
+  if (line.startsWith('+++ ') || line.startsWith('--- ')) return 'font-bold opacity-70';
+  if (line.startsWith('@@')) return 'text-info opacity-80';
+  if (line.startsWith('+')) return 'bg-success/15 text-success';
+  if (line.startsWith('-')) return 'bg-error/15 text-error';
+  return 'opacity-70';
+}
+
+export function DiffView({ diff }: Props) {
+  if (!diff.trim()) {
+    return <p className="text-sm opacity-50">No changes.</p>;
+  }
+  return (
+    <pre className="text-sm font-mono">
+      {diff.replace(/\n$/, '').split('\n').map((line, idx) => (
+        <div key={idx} className={`px-2 whitespace-pre-wrap break-all ${lineClass(line)}`}>
+          {line || ' '}
+        </div>
+      ))}
+    </pre>
+  );
+}
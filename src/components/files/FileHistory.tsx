@@ -0,0 +1,119 @@
+// ---------------------------------------------------------------------------
+// browclaw — File history (file viewer panel)
+// ---------------------------------------------------------------------------
+
+import { useCallback, useEffect, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { FileVersion } from '../../file-history.js';
+import { listVersions, readSnapshot } from '../../file-history.js';
+import { readGroupFileBlob, restoreGroupFileVersion } from '../../storage.js';
+import { formatBytes, textOrBlob } from '../../binary.js';
+import { createUnifiedDiff } from '../../diff.js';
+import { DiffView } from './DiffView.js';
+
+interface Props {
+  groupId: string;
+  path: string;
+  /** The file's content now, to diff versions against */
+  current: string | Blob;
+  onRestored: (content: string | Blob) => void;
+}
+
+export function FileHistory({ groupId, path, current, onRestored }: Props) {
+  const [versions, setVersions] = useState<FileVersion[] | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [diff, setDiff] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    setVersions(await listVersions(groupId, path));
+  }, [groupId, path]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  async function handleSelect(version: FileVersion) {
+    setSelected(version.savedAt);
+    setError(null);
+    const before = await textOrBlob(path, await readSnapshot(groupId, version.hash));
+    if (typeof before !== 'string' || typeof current !== 'string') {
+      setDiff(null);
+      setError('Binary file — restore the version to see it.');
+      return;
+    }
+    // From the version to what the file is now
+    setDiff(createUnifiedDiff(path, before, current));
+  }
+
+  async function handleRestore(version: FileVersion) {
+    const when = new Date(version.savedAt).toLocaleString();
+    if (!confirm(`Restore ${path} to its version from ${when}? The current content is kept in its history.`)) {
+      return;
+    }
+    try {
+      await restoreGroupFileVersion(groupId, path, version.hash);
+      onRestored(await textOrBlob(path, await readGroupFileBlob(groupId, path)));
+      setSelected(null);
+      setDiff(null);
+      await loadVersions();
+    } catch {
+      setError('Failed to restore this version');
+    }
+  }
+
+  if (!versions) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <span className="loading loading-spinner loading-md" />
+      </div>
+    );
+  }
+  if (versions.length === 0) {
+    return (
+      <p className="text-sm opacity-60">
+        No earlier versions. When this file is overwritten, the content it had is kept here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3 h-full">
+      <div className="max-h-56 overflow-y-auto shrink-0">
+        <table className="table table-sm">
+          <tbody>
+            {versions.map((version) => (
+              <tr
+                key={`${version.hash}-${version.savedAt}`}
+                className={`hover cursor-pointer ${selected === version.savedAt ? 'active' : ''}`}
+                onClick={() => handleSelect(version)}
+              >
+                <td>{new Date(version.savedAt).toLocaleString()}</td>
+                <td className="text-right text-xs opacity-50 whitespace-nowrap">{formatBytes(version.size)}</td>
+                <td className="w-24 text-right">
+                  <button
+                    className="btn btn-ghost btn-xs"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleRestore(version);
+                    }}
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" /> Restore
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {error && <div role="alert" className="alert alert-warning text-sm">{error}</div>}
+      {diff !== null && (
+        <div className="flex-1 overflow-auto border-t border-base-300 pt-2">
+          <p className="text-xs opacity-60 mb-1">Changes since this version</p>
+          <DiffView diff={diff} />
+        </div>
+      )}
+      {selected === null && <p className="text-xs opacity-50">Select a version to see what has changed since.</p>}
+    </div>
+  );
+}
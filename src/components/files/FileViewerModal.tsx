@@ -2,12 +2,19 @@
 // browclaw — File viewer modal
 // ---------------------------------------------------------------------------
 
-import { useEffect } from 'react';
-import { ExternalLink, Download, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { ExternalLink, Download, History, X } from 'lucide-react';
+import { DiffView } from './DiffView.js';
+import { BinaryPreview } from './BinaryPreview.js';
+import { FileHistory } from './FileHistory.js';
 
 interface Props {
   name: string;
-  content: string;
+  /** Text, or a Blob for binary files */
+  content: string | Blob;
+  /** The file's workspace path and group, for its history; absent for diffs */
+  path?: string;
+  groupId?: string;
   onClose: () => void;
 }
 
@@ -16,7 +23,21 @@ function isRenderable(filename: string): boolean {
   return ['html', 'htm', 'svg'].includes(ext);
 }
 
-export function FileViewerModal({ name, content, onClose }: Props) {
+function isDiff(filename: string): boolean {
+  const ext = filename.split('.').pop()?.toLowerCase() ?? '';
+  return ['diff', 'patch'].includes(ext);
+}
+
+export function FileViewerModal({ name, content: initialContent, path, groupId, onClose }: Props) {
+  // Replaced when a version is restored
+  const [content, setContent] = useState(initialContent);
+  const [showHistory, setShowHistory] = useState(false);
+
+  useEffect(() => {
+    setContent(initialContent);
+    setShowHistory(false);
+  }, [initialContent]);
+
   // Close on ESC
   useEffect(() => {
     function handleKey(e: KeyboardEvent) {
@@ -27,7 +48,7 @@ export function FileViewerModal({ name, content, onClose }: Props) {
   }, [onClose]);
 
   function handleDownload() {
-    const blob = new Blob([content], { type: 'text/plain' });
+    const blob = content instanceof Blob ? content : new Blob([content], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -37,7 +58,8 @@ export function FileViewerModal({ name, content, onClose }: Props) {
   }
 
   function handleOpenInTab() {
-    const blob = new Blob([content], {
+    // Binary files open as their own type, so the browser shows images and PDFs
+    const blob = content instanceof Blob ? content : new Blob([content], {
       type: isRenderable(name) ? 'text/html' : 'text/plain',
     });
     const url = URL.createObjectURL(blob);
@@ -51,6 +73,14 @@ export function FileViewerModal({ name, content, onClose }: Props) {
         <div className="flex items-center justify-between px-4 py-3 border-b border-base-300">
           <h3 className="font-bold truncate">{name}</h3>
           <div className="flex gap-1">
+            {path && groupId && (
+              <button
+                className={`btn btn-ghost btn-sm ${showHistory ? 'btn-active' : ''}`}
+                onClick={() => setShowHistory(!showHistory)}
+              >
+                <History className="w-4 h-4" /> History
+              </button>
+            )}
             <button className="btn btn-ghost btn-sm" onClick={handleOpenInTab}>
               <ExternalLink className="w-4 h-4" /> Open in Tab
             </button>
@@ -65,13 +95,19 @@ export function FileViewerModal({ name, content, onClose }: Props) {
 
         {/* Content */}
         <div className="flex-1 overflow-auto p-4">
-          {isRenderable(name) ? (
+          {showHistory && path && groupId ? (
+            <FileHistory groupId={groupId} path={path} current={content} onRestored={setContent} />
+          ) : content instanceof Blob ? (
+            <BinaryPreview name={name} blob={content} />
+          ) : isRenderable(name) ? (
             <iframe
               srcDoc={content}
               className="w-full h-full border-0 rounded bg-white"
               sandbox="allow-scripts"
               title={name}
             />
+          ) : isDiff(name) ? (
+            <DiffView diff={content} />
           ) : (
             <pre className="text-sm font-mono whitespace-pre-wrap break-all">
               {content}
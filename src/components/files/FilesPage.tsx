@@ -5,41 +5,51 @@
 import { useCallback, useEffect, useState } from 'react';
 import {
   Folder, Globe, Image, FileText, FileCode, FileJson, FileSpreadsheet,
-  File, Home, Search, Download, Trash2, X, FolderOpen,
+  File, FileArchive, FileAudio, FileVideo, Home, Search, Download, Trash2, X, FolderOpen,
 } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
-import { DEFAULT_GROUP_ID } from '../../config.js';
-import { listGroupFiles, readGroupFile, deleteGroupFile } from '../../storage.js';
+import { DEFAULT_GROUP_ID, FILE_HISTORY_MAX_FILE_SIZE } from '../../config.js';
+import { listGroupFileEntries, readGroupFileBlob, deleteGroupFile } from '../../storage.js';
+import type { GroupFileEntry } from '../../storage.js';
+import { formatBytes, textOrBlob } from '../../binary.js';
+import type { SearchResults } from '../../workspace-search.js';
 import { FileViewerModal } from './FileViewerModal.js';
-
-interface FileEntry {
-  name: string;
-  isDir: boolean;
-}
+import { BinaryPreview } from './BinaryPreview.js';
+import { TrashModal } from './TrashModal.js';
+import { SearchBar, SearchResultsList } from './WorkspaceSearch.js';
 
 function getFileIcon(name: string, isDir: boolean): LucideIcon {
   if (isDir) return Folder;
   const ext = name.split('.').pop()?.toLowerCase() ?? '';
   const icons: Record<string, LucideIcon> = {
     html: Globe, htm: Globe, svg: Globe,
-    png: Image, jpg: Image, jpeg: Image, gif: Image,
-    md: FileText, txt: FileText,
+    png: Image, jpg: Image, jpeg: Image, gif: Image, webp: Image,
+    md: FileText, txt: FileText, pdf: FileText,
     json: FileJson,
     js: FileCode, ts: FileCode, css: FileCode, xml: FileCode,
-    csv: FileSpreadsheet,
+    csv: FileSpreadsheet, xlsx: FileSpreadsheet,
+    zip: FileArchive, gz: FileArchive, tar: FileArchive,
+    mp3: FileAudio, wav: FileAudio, ogg: FileAudio,
+    mp4: FileVideo, webm: FileVideo,
   };
   return icons[ext] ?? File;
 }
 
 export function FilesPage() {
   const [path, setPath] = useState<string[]>([]);
-  const [entries, setEntries] = useState<FileEntry[]>([]);
+  const [entries, setEntries] = useState<GroupFileEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // A file deleted for good when it should have gone to the trash
+  const [notice, setNotice] = useState<string | null>(null);
   const [previewFile, setPreviewFile] = useState<string | null>(null);
-  const [previewContent, setPreviewContent] = useState<string | null>(null);
-  const [viewerFile, setViewerFile] = useState<{ name: string; content: string } | null>(null);
+  // Text, or a Blob for binary files
+  const [previewContent, setPreviewContent] = useState<string | Blob | null>(null);
+  const [viewerFile, setViewerFile] = useState<{ name: string; content: string | Blob; path: string } | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
+  const [searchResults, setSearchResults] = useState<SearchResults | null>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
 
   const groupId = DEFAULT_GROUP_ID;
   const currentDir = path.length > 0 ? path.join('/') : '.';
@@ -48,12 +58,7 @@ export function FilesPage() {
     setLoading(true);
     setError(null);
     try {
-      const raw = await listGroupFiles(groupId, currentDir);
-      const parsed: FileEntry[] = raw.map((name) => ({
-        name: name.replace(/\/$/, ''),
-        isDir: name.endsWith('/'),
-      }));
-      setEntries(parsed);
+      setEntries(await listGroupFileEntries(groupId, currentDir));
     } catch (err) {
       if ((err as Error)?.name === 'NotFoundError') {
         setEntries([]);
@@ -69,38 +74,65 @@ export function FilesPage() {
     loadEntries();
     setPreviewFile(null);
     setPreviewContent(null);
+    setSearchResults(null);
+    setSearchError(null);
   }, [loadEntries]);
 
   async function handlePreview(name: string) {
     setPreviewFile(name);
     try {
       const filePath = path.length > 0 ? `${path.join('/')}/${name}` : name;
-      const content = await readGroupFile(groupId, filePath);
+      const content = await textOrBlob(filePath, await readGroupFileBlob(groupId, filePath));
       setPreviewContent(content);
     } catch {
       setPreviewContent('[Unable to read file]');
     }
   }
 
+  /** Whether a file in the current directory is over the size the trash keeps */
+  function tooLargeForTrash(name: string): boolean {
+    const size = entries.find((entry) => entry.name === name)?.size ?? 0;
+    return size > FILE_HISTORY_MAX_FILE_SIZE;
+  }
+
   async function handleDelete(name: string) {
     try {
       const filePath = path.length > 0 ? `${path.join('/')}/${name}` : name;
-      await deleteGroupFile(groupId, filePath);
+      const goneForGood = await deleteGroupFile(groupId, filePath);
       setDeleteConfirm(null);
       setPreviewFile(null);
       setPreviewContent(null);
       loadEntries();
+      // Large files were warned about; this is the trash failing
+      setNotice(goneForGood && !tooLargeForTrash(name)
+        ? `${name} could not be put in the trash and was deleted permanently.`
+        : null);
     } catch {
       setError('Failed to delete file');
     }
   }
 
-  function handleOpenViewer(name: string, content: string) {
-    setViewerFile({ name, content });
+  function handleOpenViewer(name: string, content: string | Blob) {
+    const filePath = path.length > 0 ? `${path.join('/')}/${name}` : name;
+    setViewerFile({ name, content, path: filePath });
+  }
+
+  function handleSearchResults(results: SearchResults | null, error?: string) {
+    setSearchResults(results);
+    setSearchError(error ?? null);
+  }
+
+  async function handleOpenMatch(filePath: string) {
+    try {
+      const content = await textOrBlob(filePath, await readGroupFileBlob(groupId, filePath));
+      setViewerFile({ name: filePath, content, path: filePath });
+    } catch {
+      setSearchError(`Unable to read ${filePath}`);
+    }
   }
 
-  function handleDownload(name: string, content: string) {
-    const blob = new Blob([content], { type: 'text/plain' });
+  function handleDownload(name: string, content: string | Blob) {
+    const blob = content instanceof Blob ? content : new Blob([content], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -112,7 +144,7 @@ export function FilesPage() {
   return (
     <div className="flex flex-col h-full">
       {/* Breadcrumbs */}
-      <div className="px-4 py-2 bg-base-200 border-b border-base-300">
+      <div className="px-4 py-2 bg-base-200 border-b border-base-300 flex flex-wrap items-center gap-x-4 gap-y-1">
         <div className="breadcrumbs text-sm">
           <ul>
             <li>
@@ -135,13 +167,36 @@ export function FilesPage() {
             ))}
           </ul>
         </div>
+        <div className="flex-1 min-w-56">
+          <SearchBar
+            groupId={groupId}
+            dir={currentDir}
+            active={searchResults !== null || searchError !== null}
+            onResults={handleSearchResults}
+          />
+        </div>
+        <button className="btn btn-ghost btn-sm" onClick={() => setShowTrash(true)} title="Trash">
+          <Trash2 className="w-4 h-4" />
+        </button>
       </div>
 
       {/* Content area */}
       <div className="flex-1 flex overflow-hidden">
         {/* File list */}
         <div className="flex-1 overflow-y-auto p-2">
-          {loading ? (
+          {notice && (
+            <div role="alert" className="alert alert-warning m-2 text-sm">
+              <span className="flex-1">{notice}</span>
+              <button className="btn btn-ghost btn-xs btn-square" onClick={() => setNotice(null)}>
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+          {searchError ? (
+            <div role="alert" className="alert alert-error m-4">{searchError}</div>
+          ) : searchResults ? (
+            <SearchResultsList results={searchResults} onOpen={handleOpenMatch} />
+          ) : loading ? (
             <div className="flex items-center justify-center py-12">
               <span className="loading loading-spinner loading-md" />
             </div>
@@ -181,6 +236,9 @@ export function FilesPage() {
                         <span className="opacity-30 ml-1">/</span>
                       )}
                     </td>
+                    <td className="w-20 text-right text-xs opacity-50 whitespace-nowrap">
+                      {entry.size !== undefined && formatBytes(entry.size)}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -221,7 +279,9 @@ export function FilesPage() {
               </div>
             </div>
             <div className="flex-1 overflow-auto p-4">
-              {isRenderable(previewFile) ? (
+              {previewContent instanceof Blob ? (
+                <BinaryPreview name={previewFile} blob={previewContent} />
+              ) : isRenderable(previewFile) ? (
                 <iframe
                   srcDoc={previewContent}
                   className="w-full h-full border-0 rounded bg-white"
@@ -277,7 +337,9 @@ export function FilesPage() {
             </div>
           </div>
           <div className="flex-1 overflow-auto p-4">
-            {isRenderable(previewFile) ? (
+            {previewContent instanceof Blob ? (
+              <BinaryPreview name={previewFile} blob={previewContent} />
+            ) : isRenderable(previewFile) ? (
               <iframe
                 srcDoc={previewContent}
                 className="w-full h-full border-0 rounded bg-white"
@@ -297,10 +359,19 @@ export function FilesPage() {
       {deleteConfirm && (
         <dialog className="modal modal-open">
           <div className="modal-box max-w-sm">
-            <h3 className="font-bold text-lg">Delete file?</h3>
-            <p className="py-4">
-              Are you sure you want to delete <strong>{deleteConfirm}</strong>? This cannot be undone.
-            </p>
+            <h3 className="font-bold text-lg">
+              {tooLargeForTrash(deleteConfirm) ? 'Delete file permanently?' : 'Delete file?'}
+            </h3>
+            {tooLargeForTrash(deleteConfirm) ? (
+              <p className="py-4">
+                <strong>{deleteConfirm}</strong> is over {formatBytes(FILE_HISTORY_MAX_FILE_SIZE)}, too large
+                for the trash. Deleting it cannot be undone.
+              </p>
+            ) : (
+              <p className="py-4">
+                Are you sure you want to delete <strong>{deleteConfirm}</strong>? It can be restored from the trash.
+              </p>
+            )}
             <div className="modal-action">
               <button className="btn btn-ghost" onClick={() => setDeleteConfirm(null)}>
                 Cancel
@@ -324,9 +395,16 @@ export function FilesPage() {
         <FileViewerModal
           name={viewerFile.name}
           content={viewerFile.content}
+          path={viewerFile.path}
+          groupId={groupId}
           onClose={() => setViewerFile(null)}
         />
       )}
+
+      {/* Trash */}
+      {showTrash && (
+        <TrashModal groupId={groupId} onClose={() => setShowTrash(false)} onRestored={loadEntries} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,123 @@
+// ---------------------------------------------------------------------------
+// browclaw — Trash (Files page)
+// ---------------------------------------------------------------------------
+
+import { useCallback, useEffect, useState } from 'react';
+import { RotateCcw, Trash2, X } from 'lucide-react';
+import type { TrashEntry } from '../../file-history.js';
+import { emptyTrash, listTrash, removeFromTrash } from '../../file-history.js';
+import { restoreGroupFileFromTrash } from '../../storage.js';
+import { formatBytes } from '../../binary.js';
+import { FILE_HISTORY_MAX_AGE } from '../../config.js';
+
+interface Props {
+  groupId: string;
+  onClose: () => void;
+  /** Called after a file is put back, so the listing can refresh */
+  onRestored: () => void;
+}
+
+export function TrashModal({ groupId, onClose, onRestored }: Props) {
+  const [entries, setEntries] = useState<TrashEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setEntries(await listTrash(groupId));
+  }, [groupId]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  async function handleRestore(entry: TrashEntry) {
+    try {
+      await restoreGroupFileFromTrash(groupId, entry);
+      onRestored();
+      await loadEntries();
+    } catch {
+      setError(`Failed to restore ${entry.path}`);
+    }
+  }
+
+  async function handleDelete(entry: TrashEntry) {
+    if (!confirm(`Delete ${entry.path} for good?`)) return;
+    await removeFromTrash(groupId, entry.id);
+    await loadEntries();
+  }
+
+  async function handleEmpty() {
+    if (!confirm('Delete everything in the trash for good?')) return;
+    await emptyTrash(groupId);
+    await loadEntries();
+  }
+
+  return (
+    <dialog className="modal modal-open">
+      <div className="modal-box w-11/12 max-w-2xl max-h-[85vh] flex flex-col p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-base-300">
+          <h3 className="font-bold flex items-center gap-2">
+            <Trash2 className="w-4 h-4" /> Trash
+          </h3>
+          <div className="flex gap-1">
+            <button
+              className="btn btn-ghost btn-sm text-error"
+              onClick={handleEmpty}
+              disabled={!entries || entries.length === 0}
+            >
+              Empty trash
+            </button>
+            <button className="btn btn-ghost btn-sm btn-square" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2">
+          {error && <div role="alert" className="alert alert-error m-2">{error}</div>}
+          {!entries ? (
+            <div className="flex items-center justify-center py-12">
+              <span className="loading loading-spinner loading-md" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm opacity-60 text-center py-12">The trash is empty.</p>
+          ) : (
+            <table className="table table-sm">
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id}>
+                    <td className="font-mono break-all">{entry.path}</td>
+                    <td className="text-xs opacity-50 whitespace-nowrap">
+                      {new Date(entry.deletedAt).toLocaleString()}
+                    </td>
+                    <td className="text-right text-xs opacity-50 whitespace-nowrap">{formatBytes(entry.size)}</td>
+                    <td className="w-28 text-right whitespace-nowrap">
+                      <button className="btn btn-ghost btn-xs" onClick={() => handleRestore(entry)} title="Restore">
+                        <RotateCcw className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        className="btn btn-ghost btn-xs text-error"
+                        onClick={() => handleDelete(entry)}
+                        title="Delete for good"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <p className="px-4 py-2 text-xs opacity-50 border-t border-base-300">
+          Deleted files are kept for {FILE_HISTORY_MAX_AGE / 86_400_000} days, as space allows.
+          Restoring puts a file back at its old path; anything written there since is kept in
+          that file's history.
+        </p>
+      </div>
+      <form method="dialog" className="modal-backdrop">
+        <button onClick={onClose}>close</button>
+      </form>
+    </dialog>
+  );
+}
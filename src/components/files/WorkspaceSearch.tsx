@@ -0,0 +1,164 @@
+// ---------------------------------------------------------------------------
+// browclaw — Workspace search (Files page)
+// ---------------------------------------------------------------------------
+
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import { Search, X } from 'lucide-react';
+import { searchWorkspace } from '../../workspace-search.js';
+import type { SearchLine, SearchResults } from '../../workspace-search.js';
+
+interface SearchBarProps {
+  groupId: string;
+  /** Directory to search, relative to the workspace root */
+  dir: string;
+  active: boolean;
+  onResults: (results: SearchResults | null, error?: string) => void;
+}
+
+export function SearchBar({ groupId, dir, active, onResults }: SearchBarProps) {
+  const [pattern, setPattern] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [ignoreCase, setIgnoreCase] = useState(true);
+  const [include, setInclude] = useState('');
+  const [searching, setSearching] = useState(false);
+
+  async function handleSearch() {
+    if (!pattern) return;
+    setSearching(true);
+    try {
+      const results = await searchWorkspace(groupId, {
+        pattern,
+        regex,
+        ignoreCase,
+        path: dir,
+        include: include.split(',').map((glob) => glob.trim()).filter(Boolean),
+        context: 1,
+      });
+      onResults(results);
+    } catch (err) {
+      onResults(null, err instanceof Error ? err.message : String(err));
+    } finally {
+      setSearching(false);
+    }
+  }
+
+  function handleClear() {
+    setPattern('');
+    onResults(null);
+  }
+
+  return (
+    <form
+      className="flex items-center gap-1"
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSearch();
+      }}
+    >
+      <label className="input input-bordered input-sm flex items-center gap-1 flex-1 min-w-0">
+        {searching
+          ? <span className="loading loading-spinner loading-xs" />
+          : <Search className="w-3.5 h-3.5 opacity-50" />}
+        <input
+          type="text"
+          className="grow min-w-0 font-mono"
+          placeholder={dir === '.' ? 'Search the workspace' : `Search in ${dir}`}
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+        />
+        {(active || pattern) && (
+          <button type="button" className="opacity-50 hover:opacity-100" onClick={handleClear} title="Clear search">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </label>
+      <input
+        type="text"
+        className="input input-bordered input-sm w-28 font-mono hidden sm:block"
+        placeholder="*.md, src/**"
+        value={include}
+        onChange={(e) => setInclude(e.target.value)}
+        title="Only files matching these globs (comma-separated)"
+      />
+      <button
+        type="button"
+        className={`btn btn-ghost btn-sm font-mono ${regex ? 'btn-active' : ''}`}
+        onClick={() => setRegex(!regex)}
+        title="Regular expression"
+      >
+        .*
+      </button>
+      <button
+        type="button"
+        className={`btn btn-ghost btn-sm font-mono ${ignoreCase ? '' : 'btn-active'}`}
+        onClick={() => setIgnoreCase(!ignoreCase)}
+        title="Match case"
+      >
+        Aa
+      </button>
+    </form>
+  );
+}
+
+interface SearchResultsListProps {
+  results: SearchResults;
+  onOpen: (path: string) => void;
+}
+
+export function SearchResultsList({ results, onOpen }: SearchResultsListProps) {
+  const fileCount = results.files.length;
+  return (
+    <div className="space-y-3 p-2">
+      <p className="text-xs opacity-60">
+        {fileCount === 0
+          ? `No matches in ${results.filesSearched} file${results.filesSearched === 1 ? '' : 's'}`
+          : `${results.totalMatches} matching line${results.totalMatches === 1 ? '' : 's'} in ` +
+            `${fileCount} file${fileCount === 1 ? '' : 's'} (searched ${results.filesSearched})` +
+            (results.truncated ? ' — stopped at the result limit' : '')}
+      </p>
+      {results.files.map((file) => (
+        <div key={file.path} className="bg-base-200 rounded-box overflow-hidden">
+          <button
+            className="w-full flex items-center justify-between gap-2 px-3 py-1.5 text-sm font-medium hover:bg-base-300"
+            onClick={() => onOpen(file.path)}
+          >
+            <span className="font-mono truncate">{file.path}</span>
+            <span className="badge badge-sm badge-ghost">{file.matchCount}</span>
+          </button>
+          <pre className="text-xs font-mono pb-1">
+            {file.lines.map((line, i) => (
+              <div key={line.line}>
+                {i > 0 && line.line > file.lines[i - 1].line + 1 && (
+                  <div className="px-3 opacity-30">…</div>
+                )}
+                <div
+                  className={`flex gap-2 px-3 cursor-pointer hover:bg-base-300 ${line.ranges ? '' : 'opacity-50'}`}
+                  onClick={() => onOpen(file.path)}
+                >
+                  <span className="w-10 shrink-0 text-right opacity-50 select-none">{line.line}</span>
+                  <span className="whitespace-pre-wrap break-all">
+                    <Highlighted line={line} />
+                  </span>
+                </div>
+              </div>
+            ))}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Highlighted({ line }: { line: SearchLine }) {
+  if (!line.ranges) return <>{line.text || ' '}</>;
+  const parts: ReactNode[] = [];
+  let at = 0;
+  line.ranges.forEach(([start, end], i) => {
+    if (start > at) parts.push(line.text.slice(at, start));
+    parts.push(<mark key={i} className="bg-warning/40 text-inherit rounded-sm">{line.text.slice(start, end)}</mark>);
+    at = end;
+  });
+  parts.push(line.text.slice(at));
+  return <>{parts}</>;
+}
@@ -3,7 +3,7 @@
 // ---------------------------------------------------------------------------
 
 import { Outlet, NavLink } from 'react-router';
-import { MessageSquare, FolderOpen, Clock, Settings, Zap } from 'lucide-react';
+import { MessageSquare, FolderOpen, Clock, Settings, Zap, ChartColumn } from 'lucide-react';
 import { ThemeToggle } from './ThemeToggle.js';
 import { FileViewerModal } from '../files/FileViewerModal.js';
 import { useFileViewerStore } from '../../stores/file-viewer-store.js';
@@ -13,6 +13,7 @@ const navItems = [
   { to: '/files', label: 'Files', icon: FolderOpen },
   { to: '/tasks', label: 'Tasks', icon: Clock },
   { to: '/skills', label: 'Skills', icon: Zap },
+  { to: '/usage', label: 'Usage', icon: ChartColumn },
   { to: '/settings', label: 'Settings', icon: Settings },
 ] as const;
 
@@ -79,6 +80,8 @@ export function Layout() {
         <FileViewerModal
           name={viewerFile.name}
           content={viewerFile.content}
+          path={viewerFile.path}
+          groupId={viewerFile.groupId}
           onClose={closeFile}
         />
       )}
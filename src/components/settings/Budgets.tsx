@@ -0,0 +1,141 @@
+// ---------------------------------------------------------------------------
+// browclaw — Budgets (settings card)
+// ---------------------------------------------------------------------------
+
+import { useEffect, useState } from 'react';
+import { Wallet } from 'lucide-react';
+import type { BudgetPeriod, UsageRecord } from '../../types.js';
+import { getAllGroupIds, getUsageSince } from '../../db.js';
+import { DEFAULT_GROUP_ID } from '../../config.js';
+import { BUDGET_PERIODS, periodStart, spendSince } from '../../budgets.js';
+import { getOrchestrator } from '../../stores/orchestrator-store.js';
+
+/** Scope value for the budget shared by all chats */
+const ALL_CHATS = '';
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  daily: 'Today',
+  monthly: 'This month',
+};
+
+type Drafts = Record<BudgetPeriod, { tokens: string; cost: string }>;
+
+export function Budgets() {
+  const orch = getOrchestrator();
+  const [groupIds, setGroupIds] = useState<string[]>([DEFAULT_GROUP_ID]);
+  const [scope, setScope] = useState(ALL_CHATS);
+  const [drafts, setDrafts] = useState<Drafts>(() => loadDrafts(ALL_CHATS));
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+
+  useEffect(() => {
+    getAllGroupIds().then((ids) => {
+      setGroupIds([DEFAULT_GROUP_ID, ...ids.filter((id) => id !== DEFAULT_GROUP_ID)]);
+    });
+    getUsageSince(periodStart('monthly')).then(setRecords);
+  }, []);
+
+  function loadDrafts(groupId: string): Drafts {
+    const budgets = orch.getBudgets();
+    const limits = groupId ? budgets.groups[groupId] ?? {} : budgets.global;
+    const draft = (period: BudgetPeriod) => ({
+      tokens: limits[period]?.tokens ? String(limits[period]!.tokens) : '',
+      cost: limits[period]?.cost ? String(limits[period]!.cost) : '',
+    });
+    return { daily: draft('daily'), monthly: draft('monthly') };
+  }
+
+  function handleScopeChange(groupId: string) {
+    setScope(groupId);
+    setDrafts(loadDrafts(groupId));
+  }
+
+  function handleDraftChange(period: BudgetPeriod, field: 'tokens' | 'cost', value: string) {
+    setDrafts({ ...drafts, [period]: { ...drafts[period], [field]: value } });
+  }
+
+  async function handleSave(period: BudgetPeriod) {
+    const tokens = parseInt(drafts[period].tokens, 10);
+    const cost = parseFloat(drafts[period].cost);
+    await orch.setBudget(
+      period,
+      {
+        tokens: Number.isNaN(tokens) ? undefined : tokens,
+        cost: Number.isNaN(cost) ? undefined : cost,
+      },
+      scope || undefined,
+    );
+    setDrafts(loadDrafts(scope));
+  }
+
+  return (
+    <div className="card card-bordered bg-base-200">
+      <div className="card-body p-4 sm:p-6 gap-3">
+        <h3 className="card-title text-base gap-2">
+          <Wallet className="w-4 h-4" /> Budgets
+        </h3>
+
+        <fieldset className="fieldset">
+          <legend className="fieldset-legend">Applies to</legend>
+          <select
+            className="select select-bordered select-sm w-full"
+            value={scope}
+            onChange={(e) => handleScopeChange(e.target.value)}
+          >
+            <option value={ALL_CHATS}>All chats combined</option>
+            {groupIds.map((id) => (
+              <option key={id} value={id}>{id}</option>
+            ))}
+          </select>
+        </fieldset>
+
+        {BUDGET_PERIODS.map((period) => {
+          const spent = spendSince(records, periodStart(period), scope || undefined);
+          return (
+            <div key={period} className="flex flex-wrap items-end gap-4">
+              <fieldset className="fieldset">
+                <legend className="fieldset-legend">
+                  {period === 'daily' ? 'Daily' : 'Monthly'} tokens
+                </legend>
+                <input
+                  type="number"
+                  min={0}
+                  step={10_000}
+                  placeholder="No limit"
+                  className="input input-bordered input-sm w-36"
+                  value={drafts[period].tokens}
+                  onChange={(e) => handleDraftChange(period, 'tokens', e.target.value)}
+                  onBlur={() => handleSave(period)}
+                />
+              </fieldset>
+              <fieldset className="fieldset">
+                <legend className="fieldset-legend">
+                  {period === 'daily' ? 'Daily' : 'Monthly'} spending ($)
+                </legend>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  placeholder="No limit"
+                  className="input input-bordered input-sm w-36"
+                  value={drafts[period].cost}
+                  onChange={(e) => handleDraftChange(period, 'cost', e.target.value)}
+                  onBlur={() => handleSave(period)}
+                />
+              </fieldset>
+              <span className="text-xs opacity-60 pb-2">
+                {PERIOD_LABELS[period]}: {spent.tokens.toLocaleString()} tokens · ${spent.cost.toFixed(2)}
+              </span>
+            </div>
+          );
+        })}
+
+        <p className="text-xs opacity-50">
+          A run that would start over any budget is refused with a message in its chat, and a tool
+          loop stops between model calls once it reaches the budget left when it started. Tokens
+          count input, output and cache; spending uses each model's prices. Leave a field empty for
+          no limit.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+// ---------------------------------------------------------------------------
+// browclaw — Extended thinking (settings card)
+// ---------------------------------------------------------------------------
+
+import { useEffect, useState } from 'react';
+import { Brain } from 'lucide-react';
+import { getAllGroupIds } from '../../db.js';
+import { DEFAULT_GROUP_ID, MIN_THINKING_BUDGET } from '../../config.js';
+import { getOrchestrator } from '../../stores/orchestrator-store.js';
+
+export function ExtendedThinking() {
+  const orch = getOrchestrator();
+  const [groupIds, setGroupIds] = useState<string[]>([DEFAULT_GROUP_ID]);
+  const [groupId, setGroupId] = useState(DEFAULT_GROUP_ID);
+  const [settings, setSettings] = useState(orch.getThinking(DEFAULT_GROUP_ID));
+  const [budget, setBudget] = useState(String(settings.budgetTokens));
+
+  useEffect(() => {
+    getAllGroupIds().then((ids) => {
+      setGroupIds([DEFAULT_GROUP_ID, ...ids.filter((id) => id !== DEFAULT_GROUP_ID)]);
+    });
+  }, []);
+
+  function handleGroupChange(id: string) {
+    const next = orch.getThinking(id);
+    setGroupId(id);
+    setSettings(next);
+    setBudget(String(next.budgetTokens));
+  }
+
+  async function handleEnabledChange(enabled: boolean) {
+    const next = { ...settings, enabled };
+    setSettings(next);
+    await orch.setThinking(groupId, next);
+  }
+
+  async function handleBudgetSave() {
+    const parsed = parseInt(budget, 10);
+    const budgetTokens = Math.max(
+      MIN_THINKING_BUDGET,
+      Number.isNaN(parsed) ? settings.budgetTokens : parsed,
+    );
+    const next = { ...settings, budgetTokens };
+    setSettings(next);
+    setBudget(String(budgetTokens));
+    await orch.setThinking(groupId, next);
+  }
+
+  return (
+    <div className="card card-bordered bg-base-200">
+      <div className="card-body p-4 sm:p-6 gap-3">
+        <h3 className="card-title text-base gap-2">
+          <Brain className="w-4 h-4" /> Extended Thinking
+        </h3>
+
+        <fieldset className="fieldset">
+          <legend className="fieldset-legend">Chat</legend>
+          <select
+            className="select select-bordered select-sm w-full"
+            value={groupId}
+            onChange={(e) => handleGroupChange(e.target.value)}
+          >
+            {groupIds.map((id) => (
+              <option key={id} value={id}>{id}</option>
+            ))}
+          </select>
+        </fieldset>
+
+        <label className="label cursor-pointer justify-start gap-2">
+          <input
+            type="checkbox"
+            className="toggle toggle-sm"
+            checked={settings.enabled}
+            onChange={(e) => handleEnabledChange(e.target.checked)}
+          />
+          <span className="text-sm">Think before answering</span>
+        </label>
+
+        <fieldset className="fieldset">
+          <legend className="fieldset-legend">Thinking budget (tokens)</legend>
+          <input
+            type="number"
+            min={MIN_THINKING_BUDGET}
+            step={1000}
+            className="input input-bordered input-sm w-32"
+            value={budget}
+            disabled={!settings.enabled}
+            onChange={(e) => setBudget(e.target.value)}
+            onBlur={handleBudgetSave}
+          />
+        </fieldset>
+        <p className="text-xs opacity-50">
+          Anthropic models that support extended thinking reason before replying; the budget is
+          added on top of the max output tokens. The reasoning appears under each reply and in the
+          activity log. Reasoning returned by OpenAI-compatible servers is shown the same way.
+        </p>
+      </div>
+    </div>
+  );
+}
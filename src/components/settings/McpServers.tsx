@@ -0,0 +1,277 @@
+// ---------------------------------------------------------------------------
+// browclaw — MCP servers (settings card)
+// ---------------------------------------------------------------------------
+
+import { useEffect, useState } from 'react';
+import { Plug, Pencil, RotateCw, Trash2 } from 'lucide-react';
+import type { McpServerConfig, McpServerStatus } from '../../types.js';
+import { getAllGroupIds } from '../../db.js';
+import { DEFAULT_GROUP_ID } from '../../config.js';
+import { parseHeaderLines, formatHeaderLines } from '../../providers/registry.js';
+import { ulid } from '../../ulid.js';
+import { getOrchestrator } from '../../stores/orchestrator-store.js';
+
+interface Draft {
+  id: string | null;
+  name: string;
+  url: string;
+  headers: string;
+  groups: string[];
+}
+
+const EMPTY_DRAFT: Draft = { id: null, name: '', url: '', headers: '', groups: [] };
+
+export function McpServers() {
+  const orch = getOrchestrator();
+  const [servers, setServers] = useState<McpServerConfig[]>(orch.getMcpServers());
+  const [, setStatusVersion] = useState(0);
+  const [groupIds, setGroupIds] = useState<string[]>([DEFAULT_GROUP_ID]);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getAllGroupIds().then((ids) => {
+      setGroupIds([DEFAULT_GROUP_ID, ...ids.filter((id) => id !== DEFAULT_GROUP_ID)]);
+    });
+    // Statuses live in the orchestrator; re-render as connections settle
+    const onStatus = () => setStatusVersion((v) => v + 1);
+    orch.events.on('mcp-status', onStatus);
+    return () => orch.events.off('mcp-status', onStatus);
+  }, [orch]);
+
+  function handleEdit(server: McpServerConfig) {
+    setDraft({
+      id: server.id,
+      name: server.name,
+      url: server.url,
+      headers: formatHeaderLines(server.headers),
+      groups: server.groups,
+    });
+    setError(null);
+  }
+
+  function toggleDraftGroup(groupId: string) {
+    const groups = draft.groups.includes(groupId)
+      ? draft.groups.filter((id) => id !== groupId)
+      : [...draft.groups, groupId];
+    setDraft({ ...draft, groups });
+  }
+
+  async function handleSave() {
+    if (!draft.name.trim() || !draft.url.trim()) return;
+    const existing = servers.find((s) => s.id === draft.id);
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = orch.saveMcpServer({
+        id: draft.id ?? ulid(),
+        name: draft.name.trim(),
+        url: draft.url.trim(),
+        headers: parseHeaderLines(draft.headers),
+        enabled: existing?.enabled ?? true,
+        groups: draft.groups,
+      });
+      // The list updates at once; the status follows as the server answers
+      setServers(orch.getMcpServers());
+      await saved;
+      setDraft(EMPTY_DRAFT);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setServers(orch.getMcpServers());
+      setSaving(false);
+    }
+  }
+
+  async function handleToggle(server: McpServerConfig) {
+    const saved = orch.saveMcpServer({ ...server, enabled: !server.enabled });
+    setServers(orch.getMcpServers());
+    await saved;
+    setServers(orch.getMcpServers());
+  }
+
+  async function handleRemove(server: McpServerConfig) {
+    if (!confirm(`Remove the MCP server "${server.name}"?`)) return;
+    await orch.removeMcpServer(server.id);
+    setServers(orch.getMcpServers());
+    if (draft.id === server.id) setDraft(EMPTY_DRAFT);
+  }
+
+  return (
+    <div className="card card-bordered bg-base-200">
+      <div className="card-body p-4 sm:p-6 gap-3">
+        <h3 className="card-title text-base gap-2">
+          <Plug className="w-4 h-4" /> MCP Servers
+        </h3>
+
+        {servers.length > 0 && (
+          <div className="space-y-2">
+            {servers.map((server) => {
+              const status = orch.getMcpStatus(server.id);
+              return (
+                <div key={server.id} className="bg-base-100 rounded-box p-3">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      className="toggle toggle-sm toggle-primary"
+                      checked={server.enabled}
+                      onChange={() => handleToggle(server)}
+                      aria-label={`Enable ${server.name}`}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-sm">{server.name}</div>
+                      <div className="text-xs opacity-50 truncate">{server.url}</div>
+                    </div>
+                    <button
+                      className="btn btn-ghost btn-xs"
+                      onClick={() => orch.refreshMcpServer(server.id)}
+                      disabled={!server.enabled}
+                      title="Reconnect"
+                    >
+                      <RotateCw className="w-3.5 h-3.5" />
+                    </button>
+                    <button className="btn btn-ghost btn-xs" onClick={() => handleEdit(server)} title="Edit">
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button className="btn btn-ghost btn-xs" onClick={() => handleRemove(server)} title="Remove">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                  <div className="mt-1 text-xs">
+                    <StatusLine
+                      server={server}
+                      status={status}
+                      onToggle={() => setExpanded(expanded === server.id ? null : server.id)}
+                    />
+                  </div>
+                  {expanded === server.id && status?.state === 'connected' && (
+                    <ServerCatalog status={status} />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="grid gap-2">
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              className="input input-bordered input-sm w-40"
+              placeholder="Name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+            <input
+              type="url"
+              className="input input-bordered input-sm flex-1 min-w-48"
+              placeholder="http://localhost:8808/mcp"
+              value={draft.url}
+              onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+            />
+          </div>
+          <textarea
+            className="textarea textarea-bordered textarea-sm font-mono w-full"
+            rows={2}
+            placeholder={'Extra headers, one per line\nAuthorization: Bearer …'}
+            value={draft.headers}
+            onChange={(e) => setDraft({ ...draft, headers: e.target.value })}
+          />
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+            <span className="opacity-60">Chats:</span>
+            {groupIds.map((id) => (
+              <label key={id} className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-xs"
+                  checked={draft.groups.includes(id)}
+                  onChange={() => toggleDraftGroup(id)}
+                />
+                {id}
+              </label>
+            ))}
+            {draft.groups.length === 0 && <span className="opacity-50">(none picked: all chats)</span>}
+          </div>
+          {error && <div className="text-error text-xs">{error}</div>}
+          <div className="flex gap-2">
+            <button
+              className="btn btn-primary btn-sm"
+              onClick={handleSave}
+              disabled={saving || !draft.name.trim() || !draft.url.trim()}
+            >
+              {saving && <span className="loading loading-spinner loading-xs" />}
+              {draft.id ? 'Save server' : 'Add server'}
+            </button>
+            {draft.id && (
+              <button className="btn btn-ghost btn-sm" onClick={() => setDraft(EMPTY_DRAFT)}>
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+
+        <p className="text-xs opacity-50">
+          Tools from Model Context Protocol servers (streamable HTTP transport) are offered to the
+          agent next to the built-in ones, named after the server, e.g. <code>github__create_issue</code>;
+          their permissions are set under Tool Permissions. A server's resources can be read by the
+          agent and its prompts are available from the chat input. Servers must allow CORS from this
+          page, including the <code>Mcp-Session-Id</code> header.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function StatusLine({
+  server,
+  status,
+  onToggle,
+}: {
+  server: McpServerConfig;
+  status: McpServerStatus | undefined;
+  onToggle: () => void;
+}) {
+  if (!server.enabled) return <span className="opacity-50">Disabled</span>;
+  if (!status || status.state === 'connecting') {
+    return (
+      <span className="opacity-60 flex items-center gap-1">
+        <span className="loading loading-spinner loading-xs" /> Connecting…
+      </span>
+    );
+  }
+  if (status.state === 'error') return <span className="text-error break-all">{status.error}</span>;
+  return (
+    <button className="link link-hover text-success" onClick={onToggle}>
+      {status.tools.length} tool{status.tools.length === 1 ? '' : 's'} · {status.resources.length}{' '}
+      resource{status.resources.length === 1 ? '' : 's'} · {status.prompts.length} prompt
+      {status.prompts.length === 1 ? '' : 's'}
+    </button>
+  );
+}
+
+function ServerCatalog({ status }: { status: McpServerStatus }) {
+  const sections = [
+    { title: 'Tools', items: status.tools.map((t) => ({ key: t.name, description: t.description })) },
+    { title: 'Resources', items: status.resources.map((r) => ({ key: r.uri, description: r.name })) },
+    { title: 'Prompts', items: status.prompts.map((p) => ({ key: p.name, description: p.description })) },
+  ];
+  return (
+    <div className="mt-2 space-y-2 text-xs">
+      {sections
+        .filter((section) => section.items.length > 0)
+        .map((section) => (
+          <div key={section.title}>
+            <div className="font-medium opacity-70">{section.title}</div>
+            {section.items.map((item) => (
+              <div key={item.key} className="flex gap-2">
+                <span className="font-mono shrink-0">{item.key}</span>
+                {item.description && <span className="opacity-50 truncate">{item.description}</span>}
+              </div>
+            ))}
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+// ---------------------------------------------------------------------------
+// browclaw — Model details (limits, capabilities and prices)
+// ---------------------------------------------------------------------------
+
+import { useEffect, useState } from 'react';
+import { Check, RotateCcw } from 'lucide-react';
+import type { ModelInfo, ProviderId } from '../../types.js';
+import { getOrchestrator } from '../../stores/orchestrator-store.js';
+
+interface Props {
+  provider: ProviderId;
+  model: string;
+}
+
+const NUMBER_FIELDS = [
+  { key: 'contextLimit', label: 'Context window (tokens)', step: 1024 },
+  { key: 'maxOutputTokens', label: 'Max output (tokens)', step: 1024 },
+  { key: 'inputPrice', label: 'Input ($ / M tokens)', step: 0.01 },
+  { key: 'outputPrice', label: 'Output ($ / M tokens)', step: 0.01 },
+  { key: 'cacheReadPrice', label: 'Cache read ($ / M tokens)', step: 0.01 },
+  { key: 'cacheWritePrice', label: 'Cache write ($ / M tokens)', step: 0.01 },
+] as const;
+
+const CAPABILITIES = [
+  { key: 'vision', label: 'Images' },
+  { key: 'thinking', label: 'Extended thinking' },
+  { key: 'tools', label: 'Tool calls' },
+] as const;
+
+type NumberKey = (typeof NUMBER_FIELDS)[number]['key'];
+
+export function ModelDetails({ provider, model }: Props) {
+  const orch = getOrchestrator();
+  const [info, setInfo] = useState<ModelInfo>(orch.getModelInfo());
+  const [draft, setDraft] = useState<ModelInfo>(info);
+  const [overridden, setOverridden] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setOverridden(model in orch.getModelOverrides());
+    orch.refreshModelInfo().then((next) => {
+      if (cancelled) return;
+      setInfo(next);
+      setDraft(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [orch, provider, model]);
+
+  function setNumber(key: NumberKey, value: string) {
+    const parsed = parseFloat(value);
+    setDraft({ ...draft, [key]: Number.isNaN(parsed) ? 0 : Math.max(0, parsed) });
+  }
+
+  async function handleSave() {
+    // Keep earlier overrides and add only the fields changed now
+    const override: Partial<ModelInfo> = { ...orch.getModelOverrides()[model] };
+    for (const key of Object.keys(draft) as (keyof ModelInfo)[]) {
+      if (draft[key] !== info[key]) Object.assign(override, { [key]: draft[key] });
+    }
+    await orch.setModelOverride(model, override);
+    const next = orch.getModelInfo();
+    setInfo(next);
+    setDraft(next);
+    setOverridden(Object.keys(override).length > 0);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  }
+
+  async function handleReset() {
+    await orch.setModelOverride(model, null);
+    const next = await orch.refreshModelInfo();
+    setInfo(next);
+    setDraft(next);
+    setOverridden(false);
+  }
+
+  if (!model) return null;
+
+  const dirty = (Object.keys(draft) as (keyof ModelInfo)[]).some((key) => draft[key] !== info[key]);
+
+  return (
+    <details className="collapse collapse-arrow bg-base-100 border border-base-300">
+      <summary className="collapse-title text-sm font-medium min-h-0 py-2">
+        Model details
+        <span className="ml-2 text-xs font-normal opacity-60">
+          {info.contextLimit.toLocaleString()} tokens context
+          {overridden && ' · edited'}
+        </span>
+      </summary>
+      <div className="collapse-content flex flex-col gap-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+          {NUMBER_FIELDS.map(({ key, label, step }) => (
+            <fieldset key={key} className="fieldset">
+              <legend className="fieldset-legend">{label}</legend>
+              <input
+                type="number"
+                min={0}
+                step={step}
+                className="input input-bordered input-sm w-full"
+                value={draft[key]}
+                onChange={(e) => setNumber(key, e.target.value)}
+              />
+            </fieldset>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {CAPABILITIES.map(({ key, label }) => (
+            <label key={key} className="label cursor-pointer justify-start gap-2">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-sm"
+                checked={draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.checked })}
+              />
+              <span className="text-sm">{label}</span>
+            </label>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={!dirty}>
+            Save
+          </button>
+          {overridden && (
+            <button className="btn btn-ghost btn-sm" onClick={handleReset}>
+              <RotateCcw className="w-4 h-4" /> Reset to defaults
+            </button>
+          )}
+          {saved && (
+            <span className="text-success text-sm flex items-center gap-1"><Check className="w-4 h-4" /> Saved</span>
+          )}
+        </div>
+        <p className="text-xs opacity-50">
+          Known models come with their limits and prices; others start from the provider's defaults.
+          For Ollama the context window is read from the server (the model's num_ctx). Images are not
+          sent to models without image support, and prices of 0 mean unknown or free.
+        </p>
+      </div>
+    </details>
+  );
+}
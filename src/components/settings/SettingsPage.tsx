@@ -5,28 +5,27 @@
 import { useEffect, useState } from 'react';
 import {
   Palette, KeyRound, Eye, EyeOff, Bot, MessageSquare,
-  Smartphone, HardDrive, Lock, Check,
+  Smartphone, HardDrive, Lock, Check, Layers, Server, FlaskConical,
 } from 'lucide-react';
+import type { ProviderId } from '../../types.js';
 import { getConfig, setConfig } from '../../db.js';
 import { CONFIG_KEYS } from '../../config.js';
 import { getStorageEstimate, requestPersistentStorage } from '../../storage.js';
+import { formatBytes } from '../../binary.js';
 import { decryptValue } from '../../crypto.js';
+import {
+  PROVIDERS, PROVIDER_IDS, parseHeaderLines, formatHeaderLines,
+} from '../../providers/registry.js';
+import { getBuiltinModels } from '../../providers/models.js';
 import { getOrchestrator } from '../../stores/orchestrator-store.js';
 import { useThemeStore, type ThemeChoice } from '../../stores/theme-store.js';
-
-const MODELS = [
-  { value: 'claude-opus-4-6', label: 'Claude Opus 4.6' },
-  { value: 'claude-sonnet-4-6', label: 'Claude Sonnet 4.6' },
-  { value: 'claude-haiku-4-5-20251001', label: 'Claude Haiku 4.5' },
-];
-
-function formatBytes(bytes: number): string {
-  if (bytes === 0) return '0 B';
-  const k = 1024;
-  const units = ['B', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return `${(bytes / Math.pow(k, i)).toFixed(1)} ${units[i]}`;
-}
+import { ToolPermissions } from './ToolPermissions.js';
+import { ExtendedThinking } from './ExtendedThinking.js';
+import { ModelDetails } from './ModelDetails.js';
+import { Budgets } from './Budgets.js';
+import { ToolLoop } from './ToolLoop.js';
+import { McpServers } from './McpServers.js';
+import { ToolPlugins } from './ToolPlugins.js';
 
 export function SettingsPage() {
   const orch = getOrchestrator();
@@ -37,14 +36,32 @@ export function SettingsPage() {
   const [apiKeySaved, setApiKeySaved] = useState(false);
 
   // Provider
-  const [provider, setProvider] = useState<'anthropic' | 'ollama'>(orch.getProvider());
+  const [provider, setProvider] = useState<ProviderId>(orch.getProvider());
 
   // Ollama
   const [ollamaUrl, setOllamaUrl] = useState(orch.getOllamaUrl());
 
+  // Mock provider
+  const [mockFixtureUrl, setMockFixtureUrl] = useState(orch.getMockFixtureUrl());
+
+  // OpenAI-compatible
+  const initialOpenAI = orch.getOpenAIConfig();
+  const [openaiBaseUrl, setOpenaiBaseUrl] = useState(initialOpenAI.baseUrl);
+  const [openaiApiKey, setOpenaiApiKey] = useState(initialOpenAI.apiKey);
+  const [openaiApiKeyMasked, setOpenaiApiKeyMasked] = useState(true);
+  const [openaiHeaders, setOpenaiHeaders] = useState(formatHeaderLines(initialOpenAI.headers));
+  const [openaiSaved, setOpenaiSaved] = useState(false);
+
   // Model
   const [model, setModel] = useState(orch.getModel());
+  const [contextFill, setContextFill] = useState(Math.round(orch.getContextFill() * 100));
+  const [autoCompact, setAutoCompact] = useState(orch.getAutoCompactThreshold());
+  const [keepRecent, setKeepRecent] = useState(orch.getCompactKeepRecent());
+
 
+  // Concurrency
+  const [maxConcurrency, setMaxConcurrency] = useState(orch.getMaxConcurrency());
+  const [maxRetries, setMaxRetries] = useState(orch.getMaxRetries());
 
   // Assistant name
   const [assistantName, setAssistantName] = useState(orch.getAssistantName());
@@ -105,11 +122,64 @@ export function SettingsPage() {
     setTimeout(() => setApiKeySaved(false), 2000);
   }
 
+  async function handleProviderChange(val: ProviderId) {
+    setProvider(val);
+    await orch.setProvider(val);
+
+    // Claude model ids only make sense for Anthropic and vice versa
+    const { defaultModel } = PROVIDERS[val];
+    const isClaudeModel = model.startsWith('claude-');
+    if ((val === 'anthropic') !== isClaudeModel) {
+      setModel(defaultModel);
+      await orch.setModel(defaultModel);
+    }
+  }
+
+  async function handleOpenAISave() {
+    await orch.setOpenAIConfig({
+      baseUrl: openaiBaseUrl.trim(),
+      apiKey: openaiApiKey.trim(),
+      headers: parseHeaderLines(openaiHeaders),
+    });
+    setOpenaiSaved(true);
+    setTimeout(() => setOpenaiSaved(false), 2000);
+  }
+
   async function handleModelChange(value: string) {
     setModel(value);
     await orch.setModel(value);
   }
 
+  async function handleConcurrencySave() {
+    const value = Math.max(1, maxConcurrency || 1);
+    setMaxConcurrency(value);
+    await orch.setMaxConcurrency(value);
+  }
+
+  async function handleContextFillSave() {
+    const value = Math.min(100, Math.max(10, contextFill || 10));
+    setContextFill(value);
+    await orch.setContextFill(value / 100);
+  }
+
+  async function handleAutoCompactSave() {
+    const value = Math.min(100, Math.max(0, autoCompact || 0));
+    setAutoCompact(value);
+    await orch.setAutoCompactThreshold(value);
+  }
+
+  async function handleKeepRecentSave() {
+    const value = Math.max(0, keepRecent || 0);
+    setKeepRecent(value);
+    await orch.setCompactKeepRecent(value);
+  }
+
+  async function handleRetriesSave() {
+    const value = Math.max(0, maxRetries || 0);
+    setMaxRetries(value);
+    await orch.setMaxRetries(value);
+  }
+
   async function handleNameSave() {
     await orch.setAssistantName(assistantName.trim());
   }
@@ -164,22 +234,13 @@ export function SettingsPage() {
           <select
             className="select select-bordered select-sm w-full"
             value={provider}
-            onChange={async (e) => {
-              const val = e.target.value as 'anthropic' | 'ollama';
-              setProvider(val);
-              await orch.setProvider(val);
-
-              if (val === 'ollama' && model.startsWith('claude-')) {
-                setModel('');
-                await orch.setModel('');
-              } else if (val === 'anthropic' && !model.startsWith('claude-')) {
-                setModel('claude-sonnet-4-6');
-                await orch.setModel('claude-sonnet-4-6');
-              }
-            }}
+            onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
           >
-            <option value="anthropic">Anthropic (Claude)</option>
-            <option value="ollama">Ollama (Local)</option>
+            {PROVIDER_IDS.map((id) => (
+              <option key={id} value={id}>
+                {PROVIDERS[id].label}
+              </option>
+            ))}
           </select>
         </div>
       </div>
@@ -245,6 +306,96 @@ export function SettingsPage() {
         </div>
       )}
 
+      {/* ---- Mock provider fixture ---- */}
+      {provider === 'mock' && (
+        <div className="card card-bordered bg-base-200">
+          <div className="card-body p-4 sm:p-6 gap-3">
+            <h3 className="card-title text-base gap-2">
+              <FlaskConical className="w-4 h-4" /> Mock Fixture
+            </h3>
+            <fieldset className="fieldset">
+              <legend className="fieldset-legend">Fixture URL</legend>
+              <input
+                type="text"
+                className="input input-bordered input-sm w-full font-mono"
+                placeholder={PROVIDERS.mock.defaultBaseUrl}
+                value={mockFixtureUrl}
+                onChange={(e) => setMockFixtureUrl(e.target.value)}
+                onBlur={() => orch.setMockFixtureUrl(mockFixtureUrl.trim())}
+              />
+            </fieldset>
+            <p className="text-xs opacity-60">
+              Replays scripted responses and tool calls from a JSON fixture. No network requests are made to a model.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* ---- OpenAI-compatible endpoint ---- */}
+      {provider === 'openai' && (
+        <div className="card card-bordered bg-base-200">
+          <div className="card-body p-4 sm:p-6 gap-3">
+            <h3 className="card-title text-base gap-2">
+              <Server className="w-4 h-4" /> OpenAI-compatible Endpoint
+            </h3>
+            <fieldset className="fieldset">
+              <legend className="fieldset-legend">Base URL</legend>
+              <input
+                type="text"
+                className="input input-bordered input-sm w-full font-mono"
+                placeholder={PROVIDERS.openai.defaultBaseUrl}
+                value={openaiBaseUrl}
+                onChange={(e) => setOpenaiBaseUrl(e.target.value)}
+              />
+              <p className="fieldset-label opacity-60">
+                Requests go to <code>{'{base URL}'}/chat/completions</code> — LM Studio, llama.cpp server, vLLM, etc.
+              </p>
+            </fieldset>
+            <fieldset className="fieldset">
+              <legend className="fieldset-legend">API Key (optional)</legend>
+              <div className="flex gap-2">
+                <input
+                  type={openaiApiKeyMasked ? 'password' : 'text'}
+                  className="input input-bordered input-sm w-full flex-1 font-mono"
+                  placeholder="sk-..."
+                  value={openaiApiKey}
+                  onChange={(e) => setOpenaiApiKey(e.target.value)}
+                />
+                <button
+                  className="btn btn-ghost btn-sm"
+                  onClick={() => setOpenaiApiKeyMasked(!openaiApiKeyMasked)}
+                >
+                  {openaiApiKeyMasked ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                </button>
+              </div>
+            </fieldset>
+            <fieldset className="fieldset">
+              <legend className="fieldset-legend">Custom Headers</legend>
+              <textarea
+                className="textarea textarea-bordered textarea-sm w-full font-mono"
+                placeholder={'X-Api-Version: 2\nX-Team: research'}
+                rows={3}
+                value={openaiHeaders}
+                onChange={(e) => setOpenaiHeaders(e.target.value)}
+              />
+              <p className="fieldset-label opacity-60">One <code>Name: value</code> per line</p>
+            </fieldset>
+            <div className="flex items-center gap-2">
+              <button
+                className="btn btn-primary btn-sm"
+                onClick={handleOpenAISave}
+                disabled={!openaiBaseUrl.trim()}
+              >
+                Save
+              </button>
+              {openaiSaved && (
+                <span className="text-success text-sm flex items-center gap-1"><Check className="w-4 h-4" /> Saved</span>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* ---- Model ---- */}
       <div className="card card-bordered bg-base-200">
         <div className="card-body p-4 sm:p-6 gap-3">
@@ -255,8 +406,8 @@ export function SettingsPage() {
               value={model}
               onChange={(e) => handleModelChange(e.target.value)}
             >
-              {MODELS.map((m) => (
-                <option key={m.value} value={m.value}>
+              {getBuiltinModels('anthropic').map((m) => (
+                <option key={m.id} value={m.id}>
                   {m.label}
                 </option>
               ))}
@@ -265,7 +416,7 @@ export function SettingsPage() {
             <input
               type="text"
               className="input input-bordered input-sm w-full font-mono"
-              placeholder="Enter your ollama model name"
+              placeholder={provider === 'ollama' ? 'Enter your ollama model name' : 'Enter the model name'}
               value={model}
               onChange={(e) => setModel(e.target.value)}
               onBlur={() => handleModelChange(model.trim())}
@@ -274,9 +425,113 @@ export function SettingsPage() {
               }}
             />
           )}
+          <ModelDetails provider={provider} model={orch.getModel()} />
+          <fieldset className="fieldset">
+            <legend className="fieldset-legend">Context budget (% of the model's context window)</legend>
+            <input
+              type="number"
+              min={10}
+              max={100}
+              className="input input-bordered input-sm w-24"
+              value={contextFill}
+              onChange={(e) => setContextFill(parseInt(e.target.value, 10))}
+              onBlur={handleContextFillSave}
+            />
+          </fieldset>
+          <p className="text-xs opacity-50">
+            History is sent newest first until this share of the context window is used, after the
+            system prompt, memory and room for the reply. Older messages are left out.
+          </p>
+          <div className="flex flex-wrap gap-4">
+            <fieldset className="fieldset">
+              <legend className="fieldset-legend">Auto-compact at (% used, 0 = off)</legend>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                className="input input-bordered input-sm w-24"
+                value={autoCompact}
+                onChange={(e) => setAutoCompact(parseInt(e.target.value, 10))}
+                onBlur={handleAutoCompactSave}
+              />
+            </fieldset>
+            <fieldset className="fieldset">
+              <legend className="fieldset-legend">Messages kept verbatim</legend>
+              <input
+                type="number"
+                min={0}
+                className="input input-bordered input-sm w-24"
+                value={keepRecent}
+                onChange={(e) => setKeepRecent(parseInt(e.target.value, 10))}
+                onBlur={handleKeepRecentSave}
+              />
+            </fieldset>
+          </div>
+          <p className="text-xs opacity-50">
+            When a reply leaves the context window fuller than this, older messages are summarized
+            and archived; the most recent ones stay as they are. Archived messages can be viewed
+            from the summary.
+          </p>
+        </div>
+      </div>
+
+      {/* ---- Extended Thinking ---- */}
+      <ExtendedThinking />
+
+      {/* ---- Budgets ---- */}
+      <Budgets />
+
+      {/* ---- Tool Loop ---- */}
+      <ToolLoop />
+
+      {/* ---- Concurrency ---- */}
+      <div className="card card-bordered bg-base-200">
+        <div className="card-body p-4 sm:p-6 gap-3">
+          <h3 className="card-title text-base gap-2"><Layers className="w-4 h-4" /> Concurrency &amp; Retries</h3>
+          <fieldset className="fieldset">
+            <legend className="fieldset-legend">Max concurrent groups</legend>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              className="input input-bordered input-sm w-24"
+              value={maxConcurrency}
+              onChange={(e) => setMaxConcurrency(parseInt(e.target.value, 10))}
+              onBlur={handleConcurrencySave}
+            />
+          </fieldset>
+          <p className="text-xs opacity-50">
+            Each group (browser chat, Telegram chats) gets its own agent worker and queue.
+            Messages in the same group are always handled in order.
+          </p>
+          <fieldset className="fieldset">
+            <legend className="fieldset-legend">Retries per model call</legend>
+            <input
+              type="number"
+              min={0}
+              max={10}
+              className="input input-bordered input-sm w-24"
+              value={maxRetries}
+              onChange={(e) => setMaxRetries(parseInt(e.target.value, 10))}
+              onBlur={handleRetriesSave}
+            />
+          </fieldset>
+          <p className="text-xs opacity-50">
+            Rate limits (429) and server errors (5xx, overloaded) are retried with exponential
+            backoff, waiting as long as the server's <code>retry-after</code> asks. Set to 0 to disable.
+          </p>
         </div>
       </div>
 
+      {/* ---- Tool Permissions ---- */}
+      <ToolPermissions />
+
+      {/* ---- MCP Servers ---- */}
+      <McpServers />
+
+      {/* ---- Tool Plugins ---- */}
+      <ToolPlugins />
+
       {/* ---- Assistant Name ---- */}
       <div className="card card-bordered bg-base-200">
         <div className="card-body p-4 sm:p-6 gap-3">
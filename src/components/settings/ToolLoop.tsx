@@ -0,0 +1,77 @@
+// ---------------------------------------------------------------------------
+// browclaw — Tool loop limits (settings card)
+// ---------------------------------------------------------------------------
+
+import { useEffect, useState } from 'react';
+import { Repeat } from 'lucide-react';
+import { getAllGroupIds } from '../../db.js';
+import {
+  DEFAULT_GROUP_ID, LOOP_NUDGE_REPEATS, LOOP_STOP_REPEATS, MAX_ITERATIONS_CEILING,
+} from '../../config.js';
+import { getOrchestrator } from '../../stores/orchestrator-store.js';
+
+export function ToolLoop() {
+  const orch = getOrchestrator();
+  const [groupIds, setGroupIds] = useState<string[]>([DEFAULT_GROUP_ID]);
+  const [groupId, setGroupId] = useState(DEFAULT_GROUP_ID);
+  const [maxIterations, setMaxIterations] = useState(String(orch.getMaxIterations(DEFAULT_GROUP_ID)));
+
+  useEffect(() => {
+    getAllGroupIds().then((ids) => {
+      setGroupIds([DEFAULT_GROUP_ID, ...ids.filter((id) => id !== DEFAULT_GROUP_ID)]);
+    });
+  }, []);
+
+  function handleGroupChange(id: string) {
+    setGroupId(id);
+    setMaxIterations(String(orch.getMaxIterations(id)));
+  }
+
+  async function handleSave() {
+    const parsed = parseInt(maxIterations, 10);
+    if (!Number.isNaN(parsed)) await orch.setMaxIterations(groupId, parsed);
+    setMaxIterations(String(orch.getMaxIterations(groupId)));
+  }
+
+  return (
+    <div className="card card-bordered bg-base-200">
+      <div className="card-body p-4 sm:p-6 gap-3">
+        <h3 className="card-title text-base gap-2">
+          <Repeat className="w-4 h-4" /> Tool Loop
+        </h3>
+
+        <fieldset className="fieldset">
+          <legend className="fieldset-legend">Chat</legend>
+          <select
+            className="select select-bordered select-sm w-full"
+            value={groupId}
+            onChange={(e) => handleGroupChange(e.target.value)}
+          >
+            {groupIds.map((id) => (
+              <option key={id} value={id}>{id}</option>
+            ))}
+          </select>
+        </fieldset>
+
+        <fieldset className="fieldset">
+          <legend className="fieldset-legend">Max model calls per run</legend>
+          <input
+            type="number"
+            min={1}
+            max={MAX_ITERATIONS_CEILING}
+            className="input input-bordered input-sm w-24"
+            value={maxIterations}
+            onChange={(e) => setMaxIterations(e.target.value)}
+            onBlur={handleSave}
+          />
+        </fieldset>
+        <p className="text-xs opacity-50">
+          A run stops once it has made this many model calls. Independently, a tool call that keeps
+          returning the same result (or the same error) gets a note asking the model to change
+          approach after {LOOP_NUDGE_REPEATS} times and stops the run after {LOOP_STOP_REPEATS}. A
+          stopped run ends with a summary of the tool calls it attempted.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+// ---------------------------------------------------------------------------
+// browclaw — Tool permissions (settings card)
+// ---------------------------------------------------------------------------
+
+import { useEffect, useState } from 'react';
+import { ShieldCheck, Trash2 } from 'lucide-react';
+import type { ApprovalLogEntry, ToolPolicy } from '../../types.js';
+import { getAllGroupIds, getRecentApprovals, clearApprovals } from '../../db.js';
+import { toolRegistry } from '../../tools.js';
+import { TOOL_POLICY_LABELS, formatToolInput } from '../../tool-policies.js';
+import { getOrchestrator } from '../../stores/orchestrator-store.js';
+
+const POLICIES = Object.keys(TOOL_POLICY_LABELS) as ToolPolicy[];
+
+/** Select value for "no group override" */
+const INHERIT = '';
+
+const DECIDED_BY_LABELS: Record<ApprovalLogEntry['decidedBy'], string> = {
+  policy: 'policy',
+  browser: 'browser',
+  telegram: 'Telegram',
+  cancelled: 'cancelled',
+};
+
+export function ToolPermissions() {
+  const orch = getOrchestrator();
+  const [policies, setPolicies] = useState(orch.getToolPolicies());
+  const [groupIds, setGroupIds] = useState<string[]>([]);
+  const [scope, setScope] = useState('');
+  const [log, setLog] = useState<ApprovalLogEntry[]>([]);
+  const [javascriptNetwork, setJavascriptNetwork] = useState(orch.getJavascriptNetwork());
+
+  const [, setToolsVersion] = useState(0);
+
+  useEffect(() => {
+    getAllGroupIds().then(setGroupIds);
+    getRecentApprovals(50).then(setLog);
+    // MCP servers and plugins add tools as they connect and load
+    const onTools = () => setToolsVersion((v) => v + 1);
+    orch.events.on('mcp-status', onTools);
+    orch.events.on('tool-plugin-status', onTools);
+    return () => {
+      orch.events.off('mcp-status', onTools);
+      orch.events.off('tool-plugin-status', onTools);
+    };
+  }, [orch]);
+
+  async function handleChange(tool: string, value: string) {
+    const policy = value === INHERIT ? null : (value as ToolPolicy);
+    await orch.setToolPolicy(tool, policy, scope || undefined);
+    setPolicies(orch.getToolPolicies());
+  }
+
+  async function handleJavascriptNetworkChange(allowed: boolean) {
+    setJavascriptNetwork(allowed);
+    await orch.setJavascriptNetwork(allowed);
+  }
+
+  async function handleClearLog() {
+    await clearApprovals();
+    setLog([]);
+  }
+
+  const overrides = scope ? policies.groups[scope] ?? {} : null;
+  const toolDefaults = toolRegistry.defaultPolicies();
+  const toolNames = [
+    ...toolRegistry.list().map(({ name }) => name),
+    ...orch.getMcpToolRoutes().map(({ definition }) => definition.name),
+  ];
+
+  return (
+    <div className="card card-bordered bg-base-200">
+      <div className="card-body p-4 sm:p-6 gap-3">
+        <h3 className="card-title text-base gap-2">
+          <ShieldCheck className="w-4 h-4" /> Tool Permissions
+        </h3>
+
+        <fieldset className="fieldset">
+          <legend className="fieldset-legend">Applies to</legend>
+          <select
+            className="select select-bordered select-sm w-full"
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+          >
+            <option value="">All chats (defaults)</option>
+            {groupIds.map((id) => (
+              <option key={id} value={id}>{id}</option>
+            ))}
+          </select>
+        </fieldset>
+
+        <div className="space-y-1">
+          {toolNames.map((name) => {
+            const fallback = policies.defaults[name] ?? toolDefaults[name] ?? 'allow';
+            const value = overrides ? overrides[name] ?? INHERIT : fallback;
+            return (
+              <div key={name} className="flex items-center justify-between gap-2">
+                <span className="font-mono text-sm">{name}</span>
+                <select
+                  className="select select-bordered select-xs w-40"
+                  value={value}
+                  onChange={(e) => handleChange(name, e.target.value)}
+                >
+                  {overrides && (
+                    <option value={INHERIT}>Default ({TOOL_POLICY_LABELS[fallback]})</option>
+                  )}
+                  {POLICIES.map((p) => (
+                    <option key={p} value={p}>{TOOL_POLICY_LABELS[p]}</option>
+                  ))}
+                </select>
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-xs opacity-50">
+          "Ask first" pauses the agent until you approve the exact input — in the chat, or with
+          buttons in Telegram for Telegram chats.
+        </p>
+
+        <label className="label cursor-pointer justify-start gap-2">
+          <input
+            type="checkbox"
+            className="toggle toggle-sm"
+            checked={javascriptNetwork}
+            onChange={(e) => handleJavascriptNetworkChange(e.target.checked)}
+          />
+          <span className="text-sm">Allow network access from the javascript tool</span>
+        </label>
+
+        <div className="flex items-center justify-between mt-2">
+          <span className="text-sm font-medium">Approval log</span>
+          {log.length > 0 && (
+            <button className="btn btn-ghost btn-xs gap-1" onClick={handleClearLog}>
+              <Trash2 className="w-3.5 h-3.5" /> Clear
+            </button>
+          )}
+        </div>
+        {log.length === 0 ? (
+          <p className="text-xs opacity-50">No approvals or denials yet.</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto space-y-1 text-xs">
+            {log.map((entry) => (
+              <div key={entry.id} className="flex items-start gap-2">
+                <span className={`badge badge-xs shrink-0 mt-0.5 ${entry.approved ? 'badge-success' : 'badge-error'}`}>
+                  {entry.approved ? 'approved' : 'denied'}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <div>
+                    <span className="font-mono font-medium">{entry.tool}</span>
+                    <span className="opacity-50">
+                      {' '}· {entry.groupId} · {DECIDED_BY_LABELS[entry.decidedBy]} ·{' '}
+                      {new Date(entry.timestamp).toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="opacity-50 font-mono truncate">
+                    {formatToolInput(entry.tool, entry.input, 200)}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
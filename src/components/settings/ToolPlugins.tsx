@@ -0,0 +1,175 @@
+// ---------------------------------------------------------------------------
+// browclaw — Tool plugins (settings card)
+// ---------------------------------------------------------------------------
+
+import { useEffect, useState } from 'react';
+import { Puzzle, RotateCw, ShieldAlert, Trash2 } from 'lucide-react';
+import type { ToolPluginConfig, ToolPluginStatus } from '../../types.js';
+import { getAllGroupIds } from '../../db.js';
+import { DEFAULT_GROUP_ID } from '../../config.js';
+import { describeToolPlugin } from '../../tool-plugins.js';
+import { ulid } from '../../ulid.js';
+import { getOrchestrator } from '../../stores/orchestrator-store.js';
+
+export function ToolPlugins() {
+  const orch = getOrchestrator();
+  const [plugins, setPlugins] = useState<ToolPluginConfig[]>(orch.getToolPlugins());
+  const [, setStatusVersion] = useState(0);
+  const [groupIds, setGroupIds] = useState<string[]>([DEFAULT_GROUP_ID]);
+  const [source, setSource] = useState<ToolPluginConfig['source']>('url');
+  const [location, setLocation] = useState('');
+  const [groupId, setGroupId] = useState(DEFAULT_GROUP_ID);
+
+  useEffect(() => {
+    getAllGroupIds().then((ids) => {
+      setGroupIds([DEFAULT_GROUP_ID, ...ids.filter((id) => id !== DEFAULT_GROUP_ID)]);
+    });
+    const onStatus = () => setStatusVersion((v) => v + 1);
+    orch.events.on('tool-plugin-status', onStatus);
+    return () => orch.events.off('tool-plugin-status', onStatus);
+  }, [orch]);
+
+  async function handleAdd() {
+    if (!location.trim()) return;
+    const saved = orch.saveToolPlugin({
+      id: ulid(),
+      source,
+      location: location.trim(),
+      groupId: source === 'workspace' ? groupId : undefined,
+      enabled: true,
+    });
+    // The list updates at once; the status follows once the module loads
+    setPlugins(orch.getToolPlugins());
+    setLocation('');
+    await saved;
+  }
+
+  async function handleToggle(plugin: ToolPluginConfig) {
+    const saved = orch.saveToolPlugin({ ...plugin, enabled: !plugin.enabled });
+    setPlugins(orch.getToolPlugins());
+    await saved;
+  }
+
+  async function handleRemove(plugin: ToolPluginConfig) {
+    if (!confirm(`Remove the tool plugin ${describeToolPlugin(plugin)}?`)) return;
+    await orch.removeToolPlugin(plugin.id);
+    setPlugins(orch.getToolPlugins());
+  }
+
+  return (
+    <div className="card card-bordered bg-base-200">
+      <div className="card-body p-4 sm:p-6 gap-3">
+        <h3 className="card-title text-base gap-2">
+          <Puzzle className="w-4 h-4" /> Tool Plugins
+        </h3>
+
+        {plugins.length > 0 && (
+          <div className="space-y-2">
+            {plugins.map((plugin) => (
+              <div key={plugin.id} className="bg-base-100 rounded-box p-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    className="toggle toggle-sm toggle-primary"
+                    checked={plugin.enabled}
+                    onChange={() => handleToggle(plugin)}
+                    aria-label={`Enable ${plugin.location}`}
+                  />
+                  <div className="flex-1 min-w-0 text-sm font-mono truncate">
+                    {describeToolPlugin(plugin)}
+                  </div>
+                  <button
+                    className="btn btn-ghost btn-xs"
+                    onClick={() => orch.reloadToolPlugin(plugin.id)}
+                    disabled={!plugin.enabled}
+                    title="Reload"
+                  >
+                    <RotateCw className="w-3.5 h-3.5" />
+                  </button>
+                  <button className="btn btn-ghost btn-xs" onClick={() => handleRemove(plugin)} title="Remove">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                <div className="mt-1 text-xs">
+                  <StatusLine plugin={plugin} status={orch.getToolPluginStatus(plugin.id)} />
+                </div>
+                {plugin.source === 'workspace' && <WorkspaceWarning />}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <select
+            className="select select-bordered select-sm w-36"
+            value={source}
+            onChange={(e) => setSource(e.target.value as ToolPluginConfig['source'])}
+          >
+            <option value="url">From a URL</option>
+            <option value="workspace">From a workspace</option>
+          </select>
+          {source === 'workspace' && (
+            <select
+              className="select select-bordered select-sm w-36"
+              value={groupId}
+              onChange={(e) => setGroupId(e.target.value)}
+            >
+              {groupIds.map((id) => (
+                <option key={id} value={id}>{id}</option>
+              ))}
+            </select>
+          )}
+          <input
+            type="text"
+            className="input input-bordered input-sm flex-1 min-w-48 font-mono"
+            placeholder={source === 'url' ? 'https://example.com/tools.js' : 'tools/weather.js'}
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+          />
+          <button className="btn btn-primary btn-sm" onClick={handleAdd} disabled={!location.trim()}>
+            Add plugin
+          </button>
+        </div>
+        {source === 'workspace' && <WorkspaceWarning />}
+
+        <p className="text-xs opacity-50">
+          A plugin is a single-file ES module whose default export is a tool spec or an array of
+          them: <code>{'{ name, description, schema, handler(input, ctx), permissions }'}</code>.
+          Its tools are offered to the agent in every chat. Plugins run in workers, not on this
+          page, but with the app's network and storage access — only add modules you trust.
+          Reload after editing one.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+/** The agent can rewrite workspace files, and so what such a plugin runs */
+function WorkspaceWarning() {
+  return (
+    <div className="mt-1 text-xs text-warning flex items-start gap-1">
+      <ShieldAlert className="w-3.5 h-3.5 shrink-0 mt-px" />
+      <span>
+        The agent can edit files in its workspace, so anything it is talked into writing to this
+        file runs as a plugin after the next reload.
+      </span>
+    </div>
+  );
+}
+
+function StatusLine({ plugin, status }: { plugin: ToolPluginConfig; status: ToolPluginStatus | undefined }) {
+  if (!plugin.enabled) return <span className="opacity-50">Disabled</span>;
+  if (!status || status.state === 'loading') {
+    return (
+      <span className="opacity-60 flex items-center gap-1">
+        <span className="loading loading-spinner loading-xs" /> Loading…
+      </span>
+    );
+  }
+  if (status.state === 'error') return <span className="text-error break-all">{status.error}</span>;
+  return (
+    <span className="text-success">
+      {status.tools.length === 0 ? 'No tools' : status.tools.join(', ')}
+    </span>
+  );
+}
@@ -0,0 +1,228 @@
+// ---------------------------------------------------------------------------
+// browclaw — Usage page
+// ---------------------------------------------------------------------------
+
+import { useEffect, useState } from 'react';
+import { Download, Trash2 } from 'lucide-react';
+import type { UsageRecord } from '../../types.js';
+import { getUsageSince, clearUsage } from '../../db.js';
+import { getOrchestrator } from '../../stores/orchestrator-store.js';
+import {
+  groupUsage, totalUsage, usageDay, usageToCsv, type UsageTotals,
+} from '../../usage.js';
+
+const RANGES = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 0, label: 'All time' },
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Start of the range: midnight `days - 1` days ago, so today counts as one */
+function rangeStart(days: number): number {
+  if (days === 0) return 0;
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  return start.getTime() - (days - 1) * DAY_MS;
+}
+
+function formatTokens(n: number): string {
+  return n.toLocaleString();
+}
+
+function formatCost(cost: number): string {
+  if (cost === 0) return '$0';
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+export function UsagePage() {
+  const [days, setDays] = useState<number>(30);
+  const [records, setRecords] = useState<UsageRecord[] | null>(null);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const since = rangeStart(days);
+    setRecords(null);
+    getUsageSince(since).then((loaded) => {
+      if (!cancelled) setRecords(loaded);
+    });
+
+    // Keep the totals live while agents run
+    const orch = getOrchestrator();
+    const onRecorded = (record: UsageRecord) => {
+      if (record.timestamp >= since) {
+        setRecords((current) => (current ? [...current, record] : current));
+      }
+    };
+    orch.events.on('usage-recorded', onRecorded);
+    return () => {
+      cancelled = true;
+      orch.events.off('usage-recorded', onRecorded);
+    };
+  }, [days]);
+
+  function handleExport() {
+    if (!records) return;
+    const blob = new Blob([usageToCsv(records)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `browclaw-usage-${new Date().toISOString().slice(0, 10)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async function handleClear() {
+    await clearUsage();
+    setRecords([]);
+    setConfirmClear(false);
+  }
+
+  const totals = records ? totalUsage(records) : null;
+
+  return (
+    <div className="h-full overflow-y-auto p-4 sm:p-6 max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-bold">Usage</h2>
+        <div className="flex items-center gap-2">
+          <select
+            className="select select-bordered select-sm"
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value, 10))}
+          >
+            {RANGES.map((r) => (
+              <option key={r.days} value={r.days}>{r.label}</option>
+            ))}
+          </select>
+          <button
+            className="btn btn-sm gap-1.5"
+            onClick={handleExport}
+            disabled={!records || records.length === 0}
+          >
+            <Download className="w-4 h-4" /> Export CSV
+          </button>
+          <button
+            className="btn btn-ghost btn-sm btn-square"
+            onClick={() => setConfirmClear(true)}
+            disabled={!records || records.length === 0}
+            title="Clear usage history"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {!records || !totals ? (
+        <div className="flex justify-center py-12">
+          <span className="loading loading-spinner loading-md" />
+        </div>
+      ) : records.length === 0 ? (
+        <p className="text-center opacity-60 py-12">No model calls in this period.</p>
+      ) : (
+        <div className="flex flex-col gap-6">
+          {/* Totals */}
+          <div className="stats stats-vertical sm:stats-horizontal bg-base-200 w-full">
+            <div className="stat">
+              <div className="stat-title">Estimated cost</div>
+              <div className="stat-value text-2xl">{formatCost(totals.cost)}</div>
+              <div className="stat-desc">{totals.calls.toLocaleString()} model calls</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Input tokens</div>
+              <div className="stat-value text-2xl">{formatTokens(totals.inputTokens)}</div>
+              <div className="stat-desc">
+                + {formatTokens(totals.cacheReadTokens)} cache read, {formatTokens(totals.cacheCreationTokens)} cache write
+              </div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Output tokens</div>
+              <div className="stat-value text-2xl">{formatTokens(totals.outputTokens)}</div>
+            </div>
+          </div>
+
+          <UsageTable title="By day" keyLabel="Day" rows={groupUsage(records, usageDay).reverse()} />
+          <UsageTable title="By chat" keyLabel="Chat" rows={groupUsage(records, (r) => r.groupId)} />
+          <UsageTable
+            title="By model"
+            keyLabel="Model"
+            rows={groupUsage(records, (r) => `${r.provider} · ${r.model}`)}
+          />
+
+          <p className="text-xs opacity-50">
+            Costs are estimated from each model's prices (Settings → Model → Model details) at the
+            time of the call. Local models and models without prices count as free.
+          </p>
+        </div>
+      )}
+
+      {/* Clear confirmation */}
+      {confirmClear && (
+        <dialog className="modal modal-open">
+          <div className="modal-box max-w-sm">
+            <h3 className="font-bold text-lg">Clear usage history?</h3>
+            <p className="py-4">All recorded usage is deleted. Export it first if you need it.</p>
+            <div className="modal-action">
+              <button className="btn btn-ghost" onClick={() => setConfirmClear(false)}>
+                Cancel
+              </button>
+              <button className="btn btn-error" onClick={handleClear}>
+                Clear
+              </button>
+            </div>
+          </div>
+          <form method="dialog" className="modal-backdrop">
+            <button onClick={() => setConfirmClear(false)}>close</button>
+          </form>
+        </dialog>
+      )}
+    </div>
+  );
+}
+
+function UsageTable({
+  title,
+  keyLabel,
+  rows,
+}: {
+  title: string;
+  keyLabel: string;
+  rows: { key: string; totals: UsageTotals }[];
+}) {
+  return (
+    <div>
+      <h3 className="font-semibold mb-2">{title}</h3>
+      <div className="overflow-x-auto">
+        <table className="table table-sm table-zebra">
+          <thead>
+            <tr>
+              <th>{keyLabel}</th>
+              <th className="text-right">Calls</th>
+              <th className="text-right">Input</th>
+              <th className="text-right">Output</th>
+              <th className="text-right">Cache read / write</th>
+              <th className="text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ key, totals }) => (
+              <tr key={key}>
+                <td className="font-mono text-xs">{key}</td>
+                <td className="text-right">{totals.calls.toLocaleString()}</td>
+                <td className="text-right">{formatTokens(totals.inputTokens)}</td>
+                <td className="text-right">{formatTokens(totals.outputTokens)}</td>
+                <td className="text-right">
+                  {formatTokens(totals.cacheReadTokens)} / {formatTokens(totals.cacheCreationTokens)}
+                </td>
+                <td className="text-right">{formatCost(totals.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -13,12 +13,46 @@ export function buildTriggerPattern(name: string): RegExp {
 
 export const TRIGGER_PATTERN = buildTriggerPattern(ASSISTANT_NAME);
 
-/** How many recent messages to include in agent context */
-export const CONTEXT_WINDOW_SIZE = 50;
+/**
+ * Most stored messages read when building agent context. The token budget
+ * (see context-window.ts) decides how many of them are actually sent.
+ */
+export const CONTEXT_MAX_MESSAGES = 500;
+
+/** Longest summary a compaction may produce (tokens) */
+export const COMPACTION_MAX_TOKENS = 4096;
+
+/** Default share of the model's context limit that a request may fill */
+export const DEFAULT_CONTEXT_FILL = 0.75;
+
+/**
+ * Compact automatically once a request uses this percentage of the context
+ * window (0 disables). Below the default context fill, so history is
+ * summarized before the token budget starts dropping it.
+ */
+export const DEFAULT_AUTO_COMPACT_THRESHOLD = 70;
+
+/** Most recent messages compaction keeps verbatim */
+export const DEFAULT_COMPACT_KEEP_RECENT = 10;
+
+/** Estimated tokens per image (a ~1.15 megapixel image on Anthropic) */
+export const IMAGE_TOKEN_ESTIMATE = 1_600;
+
+/** Session transcripts: longest kept, in messages (tool turns included) */
+export const TRANSCRIPT_MAX_MESSAGES = 200;
+
+/** Characters of the newest tool output kept verbatim in a transcript */
+export const TRANSCRIPT_TOOL_OUTPUT_BUDGET = 40_000;
+
+/** Older tool results are cut to this many characters */
+export const TRIMMED_TOOL_RESULT_LENGTH = 1_000;
 
 /** Max tokens for Claude API response */
 export const DEFAULT_MAX_TOKENS = 8096;
 
+/** Default number of groups the orchestrator processes concurrently */
+export const DEFAULT_MAX_CONCURRENCY = 3;
+
 /** Default provider */
 export const DEFAULT_PROVIDER = 'anthropic';
 
@@ -31,12 +65,24 @@ export const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
 /** Anthropic API version header */
 export const ANTHROPIC_API_VERSION = '2023-06-01';
 
+/** Retries per model call for rate limits and transient server errors */
+export const DEFAULT_MAX_RETRIES = 4;
+
+/** First retry delay (ms); doubles on each further attempt */
+export const RETRY_BASE_DELAY = 1_000;
+
+/** Longest single wait between retries (ms) */
+export const RETRY_MAX_DELAY = 60_000;
+
 /** Default Ollama URL */
 export const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
 
 /** Telegram Bot API base URL */
 export const TELEGRAM_API_BASE = 'https://api.telegram.org/bot';
 
+/** Telegram file download base URL (followed by the token and file path) */
+export const TELEGRAM_FILE_BASE = 'https://api.telegram.org/file/bot';
+
 /** Telegram message length limit */
 export const TELEGRAM_MAX_LENGTH = 4096;
 
@@ -52,15 +98,90 @@ export const PROCESS_LOOP_INTERVAL = 100;
 /** Fetch tool response truncation limit */
 export const FETCH_MAX_RESPONSE = 20_000;
 
+/** Largest response body fetch_url reads, to save or to return (bytes) */
+export const FETCH_MAX_DOWNLOAD = 50 * 1024 * 1024;
+
+/** Largest file read_file returns as base64 (bytes) */
+export const BASE64_MAX_BYTES = 100 * 1024;
+
+/**
+ * Largest changed region (lines before × lines after) that diffs align line
+ * by line; bigger changes are shown as one block removed and one added
+ */
+export const DIFF_MAX_CELLS = 4_000_000;
+
+/** Workspace search: matching lines returned by default and at most */
+export const SEARCH_DEFAULT_MAX_RESULTS = 100;
+export const SEARCH_MAX_RESULTS = 1000;
+
+/** Workspace search skips files larger than this (bytes) */
+export const SEARCH_MAX_FILE_SIZE = 2_000_000;
+
+/** Matching lines longer than this are cut down around the first match */
+export const SEARCH_MAX_LINE_LENGTH = 300;
+
+/** Read-only tool calls from one model turn that may run at the same time */
+export const TOOL_CONCURRENCY = 4;
+
+/** Model calls one agent run may make before it is stopped: default and ceiling */
+export const DEFAULT_MAX_ITERATIONS = 25;
+export const MAX_ITERATIONS_CEILING = 200;
+
+/**
+ * The same tool call returning the same result (or the same tool error)
+ * this many times gets a nudge to change approach, then stops the run.
+ */
+export const LOOP_NUDGE_REPEATS = 3;
+export const LOOP_STOP_REPEATS = 5;
+
+/** MCP protocol revision requested when connecting to a server */
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+/** Resources listed in the description of a server's read_resource tool */
+export const MCP_MAX_LISTED_RESOURCES = 50;
+
+/** Default model calls and tokens for a delegated sub-agent run */
+export const DELEGATE_MAX_ITERATIONS = 10;
+export const DELEGATE_TOKEN_BUDGET = 150_000;
+
+/** Extended thinking budget (tokens): default and the API's minimum */
+export const DEFAULT_THINKING_BUDGET = 8_000;
+export const MIN_THINKING_BUDGET = 1_024;
+
+/** Images are downscaled so their longest edge is at most this many pixels */
+export const IMAGE_MAX_DIMENSION = 1568;
+
+/** How many of the most recent images are sent to the model as pixels */
+export const MAX_CONTEXT_IMAGES = 8;
+
+/** javascript tool timeout (seconds): default and upper bound */
+export const JS_DEFAULT_TIMEOUT = 10;
+export const JS_MAX_TIMEOUT = 60;
+
+/** How long a tool plugin's module may take to load before it fails (ms) */
+export const TOOL_PLUGIN_LOAD_TIMEOUT = 15_000;
+
 /** IndexedDB database name */
 export const DB_NAME = 'browclaw';
 
 /** IndexedDB version */
-export const DB_VERSION = 2;
+export const DB_VERSION = 5;
 
 /** OPFS root directory name */
 export const OPFS_ROOT = 'browclaw';
 
+/** Earlier versions kept of each workspace file */
+export const FILE_HISTORY_MAX_VERSIONS = 20;
+
+/** Versions and trashed files older than this are dropped (ms) */
+export const FILE_HISTORY_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+/** Size of a group's file history and trash together; the oldest go first past it (bytes) */
+export const FILE_HISTORY_MAX_BYTES = 100 * 1024 * 1024;
+
+/** Files larger than this are neither versioned nor kept in the trash (bytes) */
+export const FILE_HISTORY_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
 /** Default group for browser chat */
 export const DEFAULT_GROUP_ID = 'br:main';
 
@@ -69,11 +190,28 @@ export const CONFIG_KEYS = {
   ANTHROPIC_API_KEY: 'anthropic_api_key',
   PROVIDER: 'provider',
   OLLAMA_URL: 'ollama_url',
+  OPENAI_BASE_URL: 'openai_base_url',
+  OPENAI_API_KEY: 'openai_api_key',
+  OPENAI_HEADERS: 'openai_headers',
+  MOCK_FIXTURE_URL: 'mock_fixture_url',
   TELEGRAM_BOT_TOKEN: 'telegram_bot_token',
   TELEGRAM_CHAT_IDS: 'telegram_chat_ids',
   TRIGGER_PATTERN: 'trigger_pattern',
   MODEL: 'model',
   MAX_TOKENS: 'max_tokens',
+  MAX_CONCURRENCY: 'max_concurrency',
+  MAX_RETRIES: 'max_retries',
+  TOOL_POLICIES: 'tool_policies',
+  JAVASCRIPT_NETWORK: 'javascript_network',
+  THINKING: 'thinking',
+  CONTEXT_FILL: 'context_fill',
+  AUTO_COMPACT_THRESHOLD: 'auto_compact_threshold',
+  COMPACT_KEEP_RECENT: 'compact_keep_recent',
+  MODEL_OVERRIDES: 'model_overrides',
+  BUDGETS: 'budgets',
+  MAX_ITERATIONS: 'max_iterations',
+  MCP_SERVERS: 'mcp_servers',
+  TOOL_PLUGINS: 'tool_plugins',
   PASSPHRASE_SALT: 'passphrase_salt',
   PASSPHRASE_VERIFY: 'passphrase_verify',
   ASSISTANT_NAME: 'assistant_name',
@@ -0,0 +1,121 @@
+// ---------------------------------------------------------------------------
+// browclaw — Token-aware context window
+// ---------------------------------------------------------------------------
+//
+// History is included newest first until a token budget is spent: a share
+// of the model's context limit, less room for the reply. The system prompt
+// (with memory and skills) and the tool definitions are always sent and
+// count against the budget first. Tokens are estimated from length, which
+// is close enough to decide what to drop without shipping a tokenizer.
+
+import type {
+  ContentBlock,
+  ContextWindowReport,
+  ConversationMessage,
+  ModelUsage,
+  ToolDefinition,
+} from './types.js';
+import { IMAGE_TOKEN_ESTIMATE } from './config.js';
+import { startsTurn } from './transcript.js';
+
+/** Rough characters per token for English text and code */
+const CHARS_PER_TOKEN = 4;
+
+/** Per-message framing: role markers and block separators */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export interface ContextBudget {
+  contextLimit: number;
+  /** Share of the context limit the request may fill, 0–1 */
+  fill: number;
+  /** Tokens kept free for the reply: max output plus any thinking budget */
+  reserve: number;
+  systemPrompt: string;
+  tools: ToolDefinition[];
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: ConversationMessage): number {
+  if (typeof message.content === 'string') {
+    return MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content);
+  }
+  return message.content.reduce(
+    (sum, block) => sum + estimateBlockTokens(block),
+    MESSAGE_OVERHEAD_TOKENS,
+  );
+}
+
+function estimateBlockTokens(block: ContentBlock): number {
+  switch (block.type) {
+    case 'text':
+      return estimateTokens(block.text);
+    case 'tool_use':
+      return estimateTokens(block.name + JSON.stringify(block.input));
+    case 'tool_result':
+      return estimateTokens(block.content);
+    case 'image':
+      return IMAGE_TOKEN_ESTIMATE;
+    case 'thinking':
+      return estimateTokens(block.thinking);
+    case 'redacted_thinking':
+      return estimateTokens(block.data);
+  }
+}
+
+/**
+ * Context window taken by one model call as the provider reported it.
+ * Cached prompt tokens are reported separately but still occupy the window.
+ */
+export function usedContextTokens(usage: ModelUsage): number {
+  return (
+    usage.inputTokens + usage.cacheReadTokens + usage.cacheCreationTokens + usage.outputTokens
+  );
+}
+
+/**
+ * Keep the newest messages that fit the budget. History always starts at
+ * a user turn, so tool results keep their tool calls; the latest turn is
+ * kept even when it alone is over budget.
+ */
+export function fitContext(
+  messages: ConversationMessage[],
+  budget: ContextBudget,
+): { messages: ConversationMessage[]; report: Omit<ContextWindowReport, 'groupId'> } {
+  const budgetTokens = Math.max(
+    0,
+    Math.min(
+      Math.floor(budget.contextLimit * budget.fill),
+      budget.contextLimit - budget.reserve,
+    ),
+  );
+  const fixedTokens =
+    estimateTokens(budget.systemPrompt) +
+    (budget.tools.length > 0 ? estimateTokens(JSON.stringify(budget.tools)) : 0);
+  const sizes = messages.map(estimateMessageTokens);
+
+  // Walk newest first, remembering the earliest turn start that still fits
+  let total = fixedTokens;
+  let start = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    total += sizes[i];
+    if (total > budgetTokens && start !== -1) break;
+    if (startsTurn(messages[i])) start = i;
+  }
+  // No user turn at all — nothing can be cut cleanly
+  if (start === -1) start = 0;
+
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  return {
+    messages: messages.slice(start),
+    report: {
+      budgetTokens,
+      estimatedTokens: fixedTokens + sum(sizes.slice(start)),
+      includedMessages: messages.length - start,
+      droppedMessages: start,
+      droppedTokens: sum(sizes.slice(0, start)),
+    },
+  };
+}
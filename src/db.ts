@@ -2,8 +2,9 @@
 // browclaw — IndexedDB database layer
 // ---------------------------------------------------------------------------
 
-import { DB_NAME, DB_VERSION } from './config.js';
-import type { StoredMessage, Task, ConfigEntry, Session, ConversationMessage, Skill } from './types.js';
+import { DB_NAME, DB_VERSION, MAX_CONTEXT_IMAGES } from './config.js';
+import type { StoredMessage, ArchivedMessage, Task, ConfigEntry, Session, ConversationMessage, ContentBlock, Skill, ApprovalLogEntry, UsageRecord } from './types.js';
+import { loadImageBlock } from './attachments.js';
 
 let db: IDBDatabase | null = null;
 
@@ -46,6 +47,24 @@ export function openDatabase(): Promise<IDBDatabase> {
         const skillStore = database.createObjectStore('skills', { keyPath: 'id' });
         skillStore.createIndex('by-enabled', 'enabled');
       }
+
+      // Tool approval log (ids are ULIDs, so key order is time order)
+      if (!database.objectStoreNames.contains('approvals')) {
+        database.createObjectStore('approvals', { keyPath: 'id' });
+      }
+
+      // Messages replaced by a compaction summary
+      if (!database.objectStoreNames.contains('archive')) {
+        const archiveStore = database.createObjectStore('archive', { keyPath: 'id' });
+        archiveStore.createIndex('by-compaction', 'compactionId');
+        archiveStore.createIndex('by-group', 'groupId');
+      }
+
+      // Token usage, one record per model call
+      if (!database.objectStoreNames.contains('usage')) {
+        const usageStore = database.createObjectStore('usage', { keyPath: 'id' });
+        usageStore.createIndex('by-time', 'timestamp');
+      }
     };
 
     request.onsuccess = () => {
@@ -140,6 +159,36 @@ export function getRecentMessages(
   });
 }
 
+/**
+ * Up to `limit` of the newest messages with a timestamp at or after
+ * `since`, oldest first.
+ */
+export function getMessagesSince(
+  groupId: string,
+  since: number,
+  limit: number,
+): Promise<StoredMessage[]> {
+  return new Promise((resolve, reject) => {
+    const tx = getDb().transaction('messages', 'readonly');
+    const store = tx.objectStore('messages');
+    const index = store.index('by-group-time');
+    const range = IDBKeyRange.bound([groupId, since], [groupId, Infinity]);
+    const request = index.openCursor(range, 'prev');
+    const results: StoredMessage[] = [];
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && results.length < limit) {
+        results.push(cursor.value);
+        cursor.continue();
+      } else {
+        resolve(results.reverse());
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
 export function getMessageCount(groupId: string): Promise<number> {
   return new Promise((resolve, reject) => {
     const tx = getDb().transaction('messages', 'readonly');
@@ -188,6 +237,12 @@ export function saveSession(session: Session): Promise<void> {
   ).then(() => undefined);
 }
 
+export function deleteSession(groupId: string): Promise<void> {
+  return txPromise('sessions', 'readwrite', (store) =>
+    store.delete(groupId),
+  ).then(() => undefined);
+}
+
 // ---------------------------------------------------------------------------
 // Tasks
 // ---------------------------------------------------------------------------
@@ -275,6 +330,56 @@ export function getAllConfig(): Promise<ConfigEntry[]> {
   );
 }
 
+/**
+ * Move messages into the archive under one compaction, in a single
+ * transaction so none are lost or duplicated.
+ */
+export function archiveMessages(compactionId: string, messages: StoredMessage[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = getDb().transaction(['messages', 'archive'], 'readwrite');
+    const messageStore = tx.objectStore('messages');
+    const archiveStore = tx.objectStore('archive');
+    const archivedAt = Date.now();
+    for (const message of messages) {
+      const archived: ArchivedMessage = { ...message, compactionId, archivedAt };
+      archiveStore.put(archived);
+      messageStore.delete(message.id);
+    }
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/**
+ * Messages archived by one compaction, oldest first.
+ */
+export async function getArchivedMessages(compactionId: string): Promise<ArchivedMessage[]> {
+  const messages = await txPromise<ArchivedMessage[]>('archive', 'readonly', (store) =>
+    store.index('by-compaction').getAll(compactionId),
+  );
+  return messages.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Delete a group's archived messages.
+ */
+export function clearGroupArchive(groupId: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = getDb().transaction('archive', 'readwrite');
+    const request = tx.objectStore('archive').index('by-group').openCursor(groupId);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      } else {
+        resolve();
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
 /**
  * Delete all messages for a given group.
  */
@@ -336,17 +441,110 @@ export function getEnabledSkills(): Promise<Skill[]> {
   });
 }
 
+// ---------------------------------------------------------------------------
+// Tool approvals
+// ---------------------------------------------------------------------------
+
+export function saveApproval(entry: ApprovalLogEntry): Promise<void> {
+  return txPromise('approvals', 'readwrite', (store) =>
+    store.put(entry),
+  ).then(() => undefined);
+}
+
+/**
+ * Most recent approval decisions, newest first.
+ */
+export function getRecentApprovals(limit: number): Promise<ApprovalLogEntry[]> {
+  return new Promise((resolve, reject) => {
+    const tx = getDb().transaction('approvals', 'readonly');
+    const request = tx.objectStore('approvals').openCursor(null, 'prev');
+    const results: ApprovalLogEntry[] = [];
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && results.length < limit) {
+        results.push(cursor.value);
+        cursor.continue();
+      } else {
+        resolve(results);
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function clearApprovals(): Promise<void> {
+  return txPromise('approvals', 'readwrite', (store) =>
+    store.clear(),
+  ).then(() => undefined);
+}
+
+// ---------------------------------------------------------------------------
+// Usage
+// ---------------------------------------------------------------------------
+
+export function saveUsage(record: UsageRecord): Promise<void> {
+  return txPromise('usage', 'readwrite', (store) =>
+    store.put(record),
+  ).then(() => undefined);
+}
+
+/**
+ * Usage records made at or after `since`, oldest first.
+ */
+export function getUsageSince(since: number): Promise<UsageRecord[]> {
+  return txPromise('usage', 'readonly', (store) =>
+    store.index('by-time').getAll(IDBKeyRange.lowerBound(since)),
+  );
+}
+
+export function clearUsage(): Promise<void> {
+  return txPromise('usage', 'readwrite', (store) =>
+    store.clear(),
+  ).then(() => undefined);
+}
+
 // ---------------------------------------------------------------------------
 // Build conversation messages for Claude API from stored messages
 // ---------------------------------------------------------------------------
 
+/**
+ * Only the newest `maxImages` attachments are sent as images; older ones
+ * are referenced by path so the model knows they exist.
+ */
 export async function buildConversationMessages(
   groupId: string,
-  limit: number,
+  messages: StoredMessage[],
+  maxImages: number = MAX_CONTEXT_IMAGES,
 ): Promise<ConversationMessage[]> {
-  const messages = await getRecentMessages(groupId, limit);
-  return messages.map((m) => ({
-    role: m.isFromMe ? ('assistant' as const) : ('user' as const),
-    content: m.isFromMe ? m.content : `${m.sender}: ${m.content}`,
-  }));
+  let imageBudget = maxImages;
+  const result: ConversationMessage[] = [];
+
+  // Walk newest first so the image budget goes to the latest attachments
+  for (const m of [...messages].reverse()) {
+    if (m.isFromMe) {
+      result.push({ role: 'assistant', content: m.content });
+      continue;
+    }
+
+    let text = `${m.sender}: ${m.content}`;
+    const images: ContentBlock[] = [];
+    for (const attachment of m.attachments ?? []) {
+      text += `\n[Image attached: ${attachment.path}]`;
+      if (imageBudget === 0) continue;
+      try {
+        images.push(await loadImageBlock(groupId, attachment));
+        imageBudget--;
+      } catch {
+        text += ' (file no longer available)';
+      }
+    }
+
+    result.push({
+      role: 'user',
+      content: images.length > 0 ? [...images, { type: 'text', text }] : text,
+    });
+  }
+
+  return result.reverse();
 }
@@ -0,0 +1,141 @@
+// ---------------------------------------------------------------------------
+// browclaw — Sub-agent delegation
+// ---------------------------------------------------------------------------
+//
+// The delegate tool hands a focused task to a child agent run in a worker of
+// its own. The child starts from the task alone, with a subset of the tools
+// and its own iteration and token budget (never more than the parent has
+// left), and its final reply becomes the parent's tool result. Everything
+// else it posts — activity, usage, approval requests — is relayed through
+// the parent worker, which marks it as nested; see delegateTask there.
+
+import type { InvokePayload, WorkerInbound, WorkerOutbound } from './types.js';
+import type { Spend } from './budgets.js';
+import { toolRegistry } from './tools.js';
+import { DELEGATE_MAX_ITERATIONS, DELEGATE_TOKEN_BUDGET } from './config.js';
+
+/** Registered tools a sub-agent can be given: all but delegate, so runs nest one level */
+export function delegateToolNames(): string[] {
+  return toolRegistry
+    .list()
+    .map((tool) => tool.name)
+    .filter((name) => name !== 'delegate');
+}
+
+function positiveInt(value: unknown): number | undefined {
+  return typeof value === 'number' && value >= 1 ? Math.floor(value) : undefined;
+}
+
+/**
+ * Invoke payload for a sub-agent run of a delegate call's input, on behalf
+ * of a parent run that has spent `spent` so far.
+ */
+export function buildDelegatePayload(
+  parent: InvokePayload,
+  input: Record<string, unknown>,
+  spent: Spend,
+): InvokePayload & { toolNames: string[] } {
+  const task = typeof input.task === 'string' ? input.task.trim() : '';
+  if (!task) throw new Error('task is required');
+
+  const available = [...delegateToolNames(), ...parent.mcpTools.map((route) => route.definition.name)];
+  const requested = Array.isArray(input.tools) ? input.tools : [];
+  const toolNames = requested.length > 0
+    ? available.filter((name) => requested.includes(name))
+    : available;
+
+  const tokens = positiveInt(input.token_budget) ?? DELEGATE_TOKEN_BUDGET;
+  const { budget } = parent;
+
+  return {
+    ...parent,
+    messages: [{ role: 'user', content: task }],
+    systemPrompt: buildDelegatePrompt(toolNames),
+    toolNames,
+    maxIterations: Math.min(positiveInt(input.max_iterations) ?? DELEGATE_MAX_ITERATIONS, parent.maxIterations),
+    budget: {
+      prices: budget.prices,
+      tokens: budget.tokens === null ? tokens : Math.min(tokens, budget.tokens - spent.tokens),
+      cost: budget.cost === null ? null : budget.cost - spent.cost,
+    },
+  };
+}
+
+function buildDelegatePrompt(toolNames: string[]): string {
+  return [
+    "You are a sub-agent running in the user's browser, working on a single task handed to you by another agent.",
+    '',
+    toolNames.length > 0
+      ? `Tools available to you: ${toolNames.join(', ')}. Files are in the same workspace the other agent uses.`
+      : 'You have no tools for this task.',
+    '',
+    'Guidelines:',
+    '- Work on the task until it is done, then reply with the result it asks for.',
+    '- Your final reply goes back to the other agent as-is; the user does not see it.',
+    '- You cannot ask questions. If something blocks you, say what it is and stop.',
+  ].join('\n');
+}
+
+/** Sub-agent workers still running, to relay approval responses to */
+const children = new Set<Worker>();
+
+/**
+ * Run a sub-agent in a new agent worker and resolve with its final reply.
+ * Other messages it posts go to `relay`. Rejects with the sub-agent's
+ * error, or with the abort reason once `signal` fires; the worker is
+ * terminated either way.
+ */
+export function runDelegate(
+  payload: InvokePayload,
+  relay: (msg: WorkerOutbound) => void,
+  signal: AbortSignal,
+): Promise<string> {
+  signal.throwIfAborted();
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(
+      new URL('./agent-worker.ts', import.meta.url),
+      { type: 'module' },
+    );
+    children.add(worker);
+
+    const finish = () => {
+      signal.removeEventListener('abort', onAbort);
+      children.delete(worker);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      finish();
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<WorkerOutbound>) => {
+      const msg = event.data;
+      if (msg.type === 'response') {
+        finish();
+        resolve(msg.payload.text);
+      } else if (msg.type === 'error') {
+        finish();
+        reject(new Error(msg.payload.error));
+      } else {
+        relay(msg);
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish();
+      reject(new Error(event.message || 'Sub-agent worker failed'));
+    };
+
+    const invoke: WorkerInbound = { type: 'invoke', payload };
+    worker.postMessage(invoke);
+  });
+}
+
+/**
+ * Pass a message from the main thread on to running sub-agents. Used for
+ * approval responses, which only the sub-agent that asked will match.
+ */
+export function relayToDelegates(msg: WorkerInbound): void {
+  for (const worker of children) worker.postMessage(msg);
+}
@@ -0,0 +1,325 @@
+// ---------------------------------------------------------------------------
+// browclaw — Line diffs and file edits
+// ---------------------------------------------------------------------------
+//
+// Backs the edit_file tool: exact search/replace edits, unified diffs the
+// model writes, and the unified diff of each change that goes back to the
+// model and to the file viewer. Works on "\n"-separated lines; a file's
+// final newline (or its absence) is kept as it was.
+
+import { DIFF_MAX_CELLS } from './config.js';
+
+/** One search/replace edit, as the edit_file tool takes it */
+export interface SearchReplaceEdit {
+  old_text: string;
+  new_text: string;
+  /** Replace every occurrence instead of requiring exactly one */
+  replace_all?: boolean;
+}
+
+/** A failed edit, with a message meant for the model */
+export class EditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EditError';
+  }
+}
+
+type DiffOp = { type: 'equal' | 'delete' | 'insert'; line: string };
+
+interface Hunk {
+  oldStart: number;
+  newStart: number;
+  lines: string[];
+}
+
+function splitLines(text: string): { lines: string[]; trailingNewline: boolean } {
+  if (text === '') return { lines: [], trailingNewline: false };
+  const lines = text.split('\n');
+  const trailingNewline = lines[lines.length - 1] === '';
+  if (trailingNewline) lines.pop();
+  return { lines, trailingNewline };
+}
+
+function joinLines(lines: string[], trailingNewline: boolean): string {
+  return lines.length === 0 ? '' : lines.join('\n') + (trailingNewline ? '\n' : '');
+}
+
+/**
+ * Line-by-line differences between two texts. The common start and end
+ * are matched directly; the changed middle is aligned by longest common
+ * subsequence, or replaced as one block when it is too large to align.
+ */
+function diffLines(before: string[], after: string[]): DiffOp[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const ops: DiffOp[] = before.slice(0, start).map((line) => ({ type: 'equal', line }));
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+
+  if (a.length * b.length > DIFF_MAX_CELLS) {
+    ops.push(...a.map((line): DiffOp => ({ type: 'delete', line })));
+    ops.push(...b.map((line): DiffOp => ({ type: 'insert', line })));
+  } else {
+    // lcs[i][j]: length of the longest common subsequence of a[i..] and b[j..]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        ops.push({ type: 'equal', line: a[i] });
+        i++;
+        j++;
+      } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        // Removals before additions, as diffs are usually read
+        ops.push({ type: 'delete', line: a[i++] });
+      } else {
+        ops.push({ type: 'insert', line: b[j++] });
+      }
+    }
+  }
+
+  ops.push(...before.slice(endBefore).map((line): DiffOp => ({ type: 'equal', line })));
+  return ops;
+}
+
+/**
+ * Unified diff from `before` to `after`, with `context` unchanged lines
+ * around each change. Empty when the lines are the same.
+ */
+export function createUnifiedDiff(path: string, before: string, after: string, context = 3): string {
+  const ops = diffLines(splitLines(before).lines, splitLines(after).lines);
+  const hunks: string[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  let hunk: (Hunk & { oldCount: number; newCount: number; trailing: number }) | null = null;
+
+  const flush = () => {
+    if (!hunk) return;
+    // Drop context past what the last change needs
+    const keep = hunk.lines.length - Math.max(0, hunk.trailing - context);
+    const dropped = hunk.lines.length - keep;
+    const oldCount = hunk.oldCount - dropped;
+    const newCount = hunk.newCount - dropped;
+    // An empty range is numbered by the line before it
+    const oldStart = oldCount === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+    const newStart = newCount === 0 ? hunk.newStart - 1 : hunk.newStart;
+    hunks.push(
+      `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n` +
+        hunk.lines.slice(0, keep).join('\n'),
+    );
+    hunk = null;
+  };
+
+  ops.forEach((op, index) => {
+    if (op.type === 'equal') {
+      if (hunk) {
+        if (hunk.trailing >= context * 2) flush();
+        else {
+          hunk.lines.push(` ${op.line}`);
+          hunk.oldCount++;
+          hunk.newCount++;
+          hunk.trailing++;
+        }
+      }
+    } else {
+      if (!hunk) {
+        const lead = ops.slice(Math.max(0, index - context), index);
+        hunk = {
+          oldStart: oldLine - lead.length,
+          newStart: newLine - lead.length,
+          lines: lead.map((o) => ` ${o.line}`),
+          oldCount: lead.length,
+          newCount: lead.length,
+          trailing: 0,
+        };
+      }
+      hunk.lines.push(`${op.type === 'delete' ? '-' : '+'}${op.line}`);
+      if (op.type === 'delete') hunk.oldCount++;
+      else hunk.newCount++;
+      hunk.trailing = 0;
+    }
+    if (op.type !== 'insert') oldLine++;
+    if (op.type !== 'delete') newLine++;
+  });
+  flush();
+
+  if (hunks.length === 0) return '';
+  return `--- a/${path}\n+++ b/${path}\n${hunks.join('\n')}\n`;
+}
+
+/** Lines added and removed by a unified diff */
+export function diffStats(diff: string): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+') && !line.startsWith('+++ ')) added++;
+    else if (line.startsWith('-') && !line.startsWith('--- ')) removed++;
+  }
+  return { added, removed };
+}
+
+/**
+ * Apply search/replace edits in order. Each `old_text` must occur exactly
+ * once in the text as edited so far, unless `replace_all` is set. Throws
+ * an EditError naming the edit that failed; nothing is applied then.
+ */
+export function applySearchReplace(content: string, edits: SearchReplaceEdit[]): string {
+  let text = content;
+  edits.forEach((edit, index) => {
+    const label = edits.length > 1 ? `Edit ${index + 1}` : 'The edit';
+    if (!edit.old_text) {
+      throw new EditError(`${label} has an empty old_text; use write_file to create or overwrite a file.`);
+    }
+    const positions = findAll(text, edit.old_text);
+    if (positions.length === 0) {
+      throw new EditError(
+        `${label}: old_text was not found. It must match the file exactly, including ` +
+          'whitespace and indentation; read the file again if it may have changed.',
+      );
+    }
+    if (positions.length > 1 && !edit.replace_all) {
+      const lines = positions.map((at) => lineNumberAt(text, at));
+      throw new EditError(
+        `${label}: old_text occurs ${positions.length} times (lines ${lines.join(', ')}). ` +
+          'Include more surrounding lines so it matches once, or set replace_all.',
+      );
+    }
+    text = edit.replace_all
+      ? text.split(edit.old_text).join(edit.new_text)
+      : text.slice(0, positions[0]) + edit.new_text + text.slice(positions[0] + edit.old_text.length);
+  });
+  return text;
+}
+
+function findAll(text: string, search: string): number[] {
+  const positions: number[] = [];
+  for (let at = text.indexOf(search); at !== -1; at = text.indexOf(search, at + search.length)) {
+    positions.push(at);
+  }
+  return positions;
+}
+
+function lineNumberAt(text: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i++) if (text.charCodeAt(i) === 10) line++;
+  return line;
+}
+
+/**
+ * Hunks of a unified diff. A hunk's body is read by the line counts in its
+ * "@@ -a,b +c,d @@" header, so removed and added lines that look like file
+ * headers ("-- note" removed is "--- note") stay in the hunk. Models often
+ * miscount, so past its counts a hunk goes on through lines starting with
+ * " ", "+" or "-" until a "--- "/"+++ " header pair or the next "@@".
+ */
+function parseUnifiedDiff(diff: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  // Without the diff's own final newline, which would read as an empty line
+  const lines = diff.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+  let current: Hunk | null = null;
+  // Lines of the old and new file the current hunk's header says are left
+  let oldLeft = 0;
+  let newLeft = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (header) {
+      current = { oldStart: Number(header[1]), newStart: Number(header[3]), lines: [] };
+      oldLeft = header[2] === undefined ? 1 : Number(header[2]);
+      newLeft = header[4] === undefined ? 1 : Number(header[4]);
+      hunks.push(current);
+    } else if (!current || line.startsWith('\\')) {
+      // Before the first hunk, or "\ No newline at end of file"
+      continue;
+    } else if (oldLeft > 0 || newLeft > 0) {
+      // Editors and models often strip the space from empty context lines
+      const body = line === '' ? ' ' : line;
+      current.lines.push(body);
+      if (body[0] !== '+') oldLeft--;
+      if (body[0] !== '-') newLeft--;
+    } else if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      current = null;
+      i++;
+    } else if (/^[ +-]/.test(line)) {
+      current.lines.push(line);
+    } else if (line !== '') {
+      current = null;
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Apply a unified diff. Each hunk's removed and context lines must match
+ * the file; a hunk whose line numbers are off is applied where it matches,
+ * as long as that is only one place. Throws an EditError naming the hunk that does not
+ * apply; nothing is applied then.
+ */
+export function applyUnifiedDiff(content: string, diff: string): string {
+  const hunks = parseUnifiedDiff(diff);
+  if (hunks.length === 0) throw new EditError('The diff has no hunks (lines starting with "@@ -a,b +c,d @@").');
+
+  const { lines, trailingNewline } = splitLines(content);
+  let result = lines;
+  // Lines added minus lines removed by the hunks applied so far
+  let shift = 0;
+
+  hunks.forEach((hunk, index) => {
+    const label = hunks.length > 1 ? `Hunk ${index + 1}` : 'The hunk';
+    const invalid = hunk.lines.find((line) => !/^[ +-]/.test(line));
+    if (invalid !== undefined) {
+      throw new EditError(`${label} has a line not starting with " ", "+" or "-": ${JSON.stringify(invalid)}`);
+    }
+    const oldLines = hunk.lines.filter((line) => line[0] !== '+').map((line) => line.slice(1));
+    const newLines = hunk.lines.filter((line) => line[0] !== '-').map((line) => line.slice(1));
+
+    // "-5,0" inserts after line 5; "-5,3" starts at line 5
+    const expected = Math.max(0, (oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + shift);
+    const at = oldLines.length === 0 ? Math.min(expected, result.length) : findMatch(result, oldLines, expected, label);
+    if (at === -1) {
+      throw new EditError(
+        `${label} (@@ -${hunk.oldStart}) does not apply: its context and removed lines were not found in the file. ` +
+          'Read the file again and make the diff against its current content.',
+      );
+    }
+    result = [...result.slice(0, at), ...newLines, ...result.slice(at + oldLines.length)];
+    shift += newLines.length - oldLines.length;
+  });
+
+  return joinLines(result, trailingNewline || (lines.length === 0 && result.length > 0));
+}
+
+/**
+ * Start of the occurrence of `block` in `lines`: the one at `expected` if
+ * there is one there, else the only one. -1 when there is none; throws
+ * when there are several and none is at `expected`.
+ */
+function findMatch(lines: string[], block: string[], expected: number, label: string): number {
+  const matchesAt = (at: number) => block.every((line, i) => lines[at + i] === line);
+  if (expected + block.length <= lines.length && matchesAt(expected)) return expected;
+  const found: number[] = [];
+  for (let at = 0; at + block.length <= lines.length; at++) {
+    if (matchesAt(at)) found.push(at);
+  }
+  if (found.length > 1) {
+    throw new EditError(
+      `${label} matches the file in ${found.length} places (lines ${found.map((at) => at + 1).join(', ')}) ` +
+        'and not at the line its header gives. Include more context lines, or fix its line numbers.',
+    );
+  }
+  return found.length === 1 ? found[0] : -1;
+}
@@ -0,0 +1,233 @@
+// ---------------------------------------------------------------------------
+// browclaw — Workspace file history and trash
+// ---------------------------------------------------------------------------
+//
+// Before storage.ts overwrites or deletes a workspace file, the content it
+// had is kept here as a snapshot named by its SHA-256, so identical
+// contents are stored once. Snapshots live under history/<group>/ in OPFS,
+// beside the group's workspace rather than inside it, where the agent's
+// file tools and search would see them. Each group has one index: the
+// earlier versions of each path and a trash of deleted files. Old entries
+// are pruned by count, age and total size (FILE_HISTORY_* in config.ts).
+//
+// The agent worker and the page both write files, so the index is only
+// read and written under a Web Lock.
+
+import {
+  FILE_HISTORY_MAX_AGE,
+  FILE_HISTORY_MAX_BYTES,
+  FILE_HISTORY_MAX_FILE_SIZE,
+  FILE_HISTORY_MAX_VERSIONS,
+  OPFS_ROOT,
+} from './config.js';
+import { ulid } from './ulid.js';
+
+/** Content a file had before it was overwritten */
+export interface FileVersion {
+  /** SHA-256 of the content, in hex */
+  hash: string;
+  size: number;
+  /** When the file was overwritten (ms) */
+  savedAt: number;
+}
+
+/** A deleted file */
+export interface TrashEntry {
+  id: string;
+  path: string;
+  hash: string;
+  size: number;
+  deletedAt: number;
+}
+
+interface HistoryIndex {
+  /** Earlier versions of each file by path, oldest first */
+  versions: Record<string, FileVersion[]>;
+  trash: TrashEntry[];
+}
+
+const INDEX_FILE = 'index.json';
+
+async function getHistoryDir(groupId: string): Promise<FileSystemDirectoryHandle> {
+  const root = await navigator.storage.getDirectory();
+  const safeId = groupId.replace(/:/g, '-');
+  let dir = root;
+  for (const seg of [OPFS_ROOT, 'history', safeId]) {
+    dir = await dir.getDirectoryHandle(seg, { create: true });
+  }
+  return dir;
+}
+
+async function getObjectsDir(groupId: string): Promise<FileSystemDirectoryHandle> {
+  const dir = await getHistoryDir(groupId);
+  return dir.getDirectoryHandle('objects', { create: true });
+}
+
+async function readIndex(groupId: string): Promise<HistoryIndex> {
+  const dir = await getHistoryDir(groupId);
+  try {
+    const file = await (await dir.getFileHandle(INDEX_FILE)).getFile();
+    const parsed = JSON.parse(await file.text()) as Partial<HistoryIndex>;
+    return { versions: parsed.versions ?? {}, trash: parsed.trash ?? [] };
+  } catch {
+    return { versions: {}, trash: [] };
+  }
+}
+
+async function writeIndex(groupId: string, index: HistoryIndex): Promise<void> {
+  const dir = await getHistoryDir(groupId);
+  const writable = await (await dir.getFileHandle(INDEX_FILE, { create: true })).createWritable();
+  await writable.write(JSON.stringify(index));
+  await writable.close();
+}
+
+/**
+ * Read, change and write back a group's index under its lock, then delete
+ * snapshots nothing refers to any more. Snapshots are only stored under
+ * the lock too, so one can't be deleted between being stored and indexed.
+ */
+async function updateIndex(groupId: string, change: (index: HistoryIndex) => Promise<void> | void): Promise<void> {
+  await navigator.locks.request(`${OPFS_ROOT}-history:${groupId}`, async () => {
+    const index = await readIndex(groupId);
+    await change(index);
+    prune(index, Date.now());
+    await writeIndex(groupId, index);
+
+    const referenced = referencedHashes(index);
+    const objects = await getObjectsDir(groupId);
+    const unreferenced: string[] = [];
+    for await (const [name] of objects.entries()) {
+      if (!referenced.has(name)) unreferenced.push(name);
+    }
+    for (const name of unreferenced) await objects.removeEntry(name);
+  });
+}
+
+function referencedHashes(index: HistoryIndex): Set<string> {
+  const hashes = new Set(index.trash.map((entry) => entry.hash));
+  for (const versions of Object.values(index.versions)) {
+    for (const version of versions) hashes.add(version.hash);
+  }
+  return hashes;
+}
+
+/** Drop versions past the count and age limits, then the oldest entries until under the size limit */
+function prune(index: HistoryIndex, now: number): void {
+  const fresh = (time: number) => now - time <= FILE_HISTORY_MAX_AGE;
+  for (const [path, versions] of Object.entries(index.versions)) {
+    const kept = versions.filter((v) => fresh(v.savedAt)).slice(-FILE_HISTORY_MAX_VERSIONS);
+    if (kept.length > 0) index.versions[path] = kept;
+    else delete index.versions[path];
+  }
+  index.trash = index.trash.filter((entry) => fresh(entry.deletedAt));
+
+  const sizes = new Map<string, number>();
+  const entries: { time: number; drop: () => void }[] = [];
+  for (const [path, versions] of Object.entries(index.versions)) {
+    for (const version of versions) {
+      sizes.set(version.hash, version.size);
+      entries.push({
+        time: version.savedAt,
+        drop: () => {
+          const left = index.versions[path].filter((v) => v !== version);
+          if (left.length > 0) index.versions[path] = left;
+          else delete index.versions[path];
+        },
+      });
+    }
+  }
+  for (const entry of index.trash) {
+    sizes.set(entry.hash, entry.size);
+    entries.push({ time: entry.deletedAt, drop: () => (index.trash = index.trash.filter((e) => e !== entry)) });
+  }
+
+  // Snapshots are shared, so the total only drops once nothing refers to one
+  let total = [...sizes.values()].reduce((sum, size) => sum + size, 0);
+  entries.sort((a, b) => a.time - b.time);
+  for (const entry of entries) {
+    if (total <= FILE_HISTORY_MAX_BYTES) break;
+    const before = referencedHashes(index);
+    entry.drop();
+    const after = referencedHashes(index);
+    for (const hash of before) if (!after.has(hash)) total -= sizes.get(hash) ?? 0;
+  }
+}
+
+/** Store content as a snapshot, unless one with the same hash exists */
+async function storeObject(groupId: string, content: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await content.arrayBuffer());
+  const hash = [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+  const objects = await getObjectsDir(groupId);
+  try {
+    await objects.getFileHandle(hash);
+  } catch {
+    const writable = await (await objects.getFileHandle(hash, { create: true })).createWritable();
+    await writable.write(content);
+    await writable.close();
+  }
+  return hash;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Keep the content a file has before it is overwritten. Empty files and
+ * files over FILE_HISTORY_MAX_FILE_SIZE are not kept, nor content that is
+ * already the file's latest version.
+ */
+export async function saveVersion(groupId: string, path: string, content: Blob): Promise<void> {
+  if (content.size === 0 || content.size > FILE_HISTORY_MAX_FILE_SIZE) return;
+  await updateIndex(groupId, async (index) => {
+    const hash = await storeObject(groupId, content);
+    const versions = index.versions[path] ?? [];
+    if (versions[versions.length - 1]?.hash === hash) return;
+    index.versions[path] = [...versions, { hash, size: content.size, savedAt: Date.now() }];
+  });
+}
+
+/**
+ * Put a file that is being deleted in the trash. Returns false when it is
+ * too large to keep, and so is gone for good.
+ */
+export async function moveToTrash(groupId: string, path: string, content: Blob): Promise<boolean> {
+  if (content.size > FILE_HISTORY_MAX_FILE_SIZE) return false;
+  await updateIndex(groupId, async (index) => {
+    const hash = await storeObject(groupId, content);
+    index.trash.push({ id: ulid(), path, hash, size: content.size, deletedAt: Date.now() });
+  });
+  return true;
+}
+
+/** Earlier versions of a file, newest first */
+export async function listVersions(groupId: string, path: string): Promise<FileVersion[]> {
+  const index = await readIndex(groupId);
+  return [...(index.versions[path] ?? [])].reverse();
+}
+
+/** Deleted files, most recently deleted first */
+export async function listTrash(groupId: string): Promise<TrashEntry[]> {
+  const index = await readIndex(groupId);
+  return [...index.trash].reverse();
+}
+
+/** The content of a version or trashed file */
+export async function readSnapshot(groupId: string, hash: string): Promise<Blob> {
+  const objects = await getObjectsDir(groupId);
+  return (await objects.getFileHandle(hash)).getFile();
+}
+
+/** Take an entry out of the trash (after restoring it, or to delete it for good) */
+export async function removeFromTrash(groupId: string, id: string): Promise<void> {
+  await updateIndex(groupId, (index) => {
+    index.trash = index.trash.filter((entry) => entry.id !== id);
+  });
+}
+
+/** Delete everything in the trash for good */
+export async function emptyTrash(groupId: string): Promise<void> {
+  await updateIndex(groupId, (index) => {
+    index.trash = [];
+  });
+}
@@ -0,0 +1,138 @@
+// ---------------------------------------------------------------------------
+// browclaw — JavaScript sandbox worker
+// ---------------------------------------------------------------------------
+//
+// Disposable worker that runs exactly one snippet for the `javascript` tool
+// and is then terminated by the agent worker (see js-sandbox.ts). Running
+// in its own realm means model code cannot touch the agent worker's
+// globals, and an infinite loop only blocks this worker.
+//
+// Network and storage globals are removed before the code runs unless the
+// user allowed network access. This is best-effort: a dynamic `import()`
+// of a remote module is not blocked.
+
+import type { SandboxRequest, SandboxResult } from './js-sandbox.js';
+
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor as new (
+  body: string,
+) => () => Promise<unknown>;
+
+/** Globals that reach the network or the origin's storage */
+const BLOCKED_GLOBALS = [
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'WebTransport',
+  'EventSource',
+  'importScripts',
+  'indexedDB',
+  'caches',
+  'BroadcastChannel',
+  'Worker',
+  'SharedWorker',
+];
+
+self.onmessage = async (event: MessageEvent<SandboxRequest>) => {
+  const { code, allowNetwork } = event.data;
+  const logs: string[] = [];
+  captureConsole(logs);
+  if (!allowNetwork) lockDown();
+
+  let result: SandboxResult;
+  try {
+    const value = await run(code);
+    result = { ok: true, value: value === undefined ? null : formatValue(value), logs };
+  } catch (err: unknown) {
+    result = {
+      ok: false,
+      value: err instanceof Error ? `${err.name}: ${err.message}` : String(err),
+      logs,
+    };
+  }
+  (self as unknown as Worker).postMessage(result);
+};
+
+/**
+ * Evaluate `code` and return its result. Code that parses as a script goes
+ * through indirect eval, so the value of the last expression is returned
+ * without an explicit `return`. Anything else (top-level `await` or
+ * `return`) is compiled as an async function body instead, with `return`
+ * added before its last statement when that is an expression. Which one is
+ * decided by parsing alone, before anything runs, so a SyntaxError the code
+ * throws while running (from JSON.parse, say) never makes it run twice.
+ * Promises are awaited either way.
+ */
+async function run(code: string): Promise<unknown> {
+  if (!parsesAsScript(code)) return compileAsync(code)();
+  return await (0, eval)(`"use strict";\n${code}`);
+}
+
+/** Whether code parses as a script. It is evaluated inside a block that never runs */
+function parsesAsScript(code: string): boolean {
+  try {
+    (0, eval)(`"use strict";\nif (false) {\n${code}\n}`);
+    return true;
+  } catch (err) {
+    if (err instanceof SyntaxError) return false;
+    throw err;
+  }
+}
+
+/** Candidate statement starts checked for a final expression, counted from the end */
+const MAX_RETURN_SPLITS = 50;
+
+function compileAsync(code: string): () => Promise<unknown> {
+  const body = code.replace(/[\s;]+$/, '');
+  // Where the last statement may start: the start of a line or after a `;`.
+  // The earliest that compiles as `return (...)` takes in the whole of an
+  // expression spanning several lines; `return` can't appear inside one,
+  // so a split in the middle of a statement doesn't compile.
+  const splits = [0];
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '\n' || body[i] === ';') splits.push(i + 1);
+  }
+  for (const split of splits.slice(-MAX_RETURN_SPLITS)) {
+    const last = body.slice(split);
+    if (!last.trim() || /^\s*(async\s+)?(function|class)\b/.test(last)) continue;
+    try {
+      return new AsyncFunction(`"use strict";\n${body.slice(0, split)}\nreturn (${last}\n);`);
+    } catch {
+      // Not an expression from here
+    }
+  }
+  return new AsyncFunction(`"use strict";\n${code}`);
+}
+
+function captureConsole(logs: string[]): void {
+  const methods = ['log', 'info', 'warn', 'error', 'debug'] as const;
+  for (const method of methods) {
+    console[method] = (...args: unknown[]) => {
+      const line = args.map((a) => (typeof a === 'string' ? a : formatValue(a))).join(' ');
+      logs.push(method === 'log' || method === 'info' ? line : `[${method}] ${line}`);
+    };
+  }
+}
+
+function lockDown(): void {
+  const blocked = () => {
+    throw new Error('Network and storage access are disabled in the javascript sandbox');
+  };
+  for (const name of BLOCKED_GLOBALS) {
+    Object.defineProperty(self, name, { value: blocked, configurable: false, writable: false });
+  }
+  // OPFS and other storage APIs hang off navigator.storage
+  Object.defineProperty(navigator, 'storage', { value: undefined, configurable: false });
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (value === null) return 'null';
+  if (typeof value === 'object') {
+    try {
+      return JSON.stringify(value, null, 2);
+    } catch {
+      // Circular or otherwise unserializable — fall through
+    }
+  }
+  return String(value);
+}
@@ -0,0 +1,64 @@
+// ---------------------------------------------------------------------------
+// browclaw — JavaScript sandbox
+// ---------------------------------------------------------------------------
+//
+// Runs code for the `javascript` tool in a fresh worker per call (see
+// js-sandbox-worker.ts). The worker is terminated afterwards, on timeout,
+// or when the run is cancelled, so nothing the code does outlives the call.
+
+/** Message sent to the sandbox worker */
+export interface SandboxRequest {
+  code: string;
+  allowNetwork: boolean;
+}
+
+/** Reply from the sandbox worker */
+export interface SandboxResult {
+  ok: boolean;
+  /** Formatted return value (or error message); null when undefined */
+  value: string | null;
+  /** Captured console output, one entry per call */
+  logs: string[];
+}
+
+export interface SandboxOptions {
+  timeoutSec: number;
+  allowNetwork: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Execute `code` in a disposable worker and return its result and console
+ * output. Never rejects: timeouts and crashes are reported as failures.
+ */
+export function runInSandbox(code: string, opts: SandboxOptions): Promise<SandboxResult> {
+  return new Promise((resolve) => {
+    const worker = new Worker(
+      new URL('./js-sandbox-worker.ts', import.meta.url),
+      { type: 'module' },
+    );
+
+    const finish = (result: SandboxResult) => {
+      clearTimeout(timer);
+      opts.signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      resolve(result);
+    };
+    const onAbort = () => finish({ ok: false, value: 'Execution cancelled', logs: [] });
+
+    const timer = setTimeout(
+      () => finish({ ok: false, value: `Execution timed out after ${opts.timeoutSec}s`, logs: [] }),
+      opts.timeoutSec * 1000,
+    );
+    opts.signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<SandboxResult>) => finish(event.data);
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish({ ok: false, value: event.message || 'Sandbox worker failed', logs: [] });
+    };
+
+    const request: SandboxRequest = { code, allowNetwork: opts.allowNetwork };
+    worker.postMessage(request);
+  });
+}
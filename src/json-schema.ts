@@ -0,0 +1,173 @@
+// ---------------------------------------------------------------------------
+// browclaw — JSON Schema checks for tool inputs
+// ---------------------------------------------------------------------------
+//
+// Models sometimes send tool inputs that don't match the schema: a missing
+// field, a number as a string. Checking before a handler runs turns that
+// into a clear tool error the model can correct, instead of a handler
+// failing halfway. Covers the keywords tool schemas use in practice; any
+// other keyword is ignored.
+
+export type JsonSchema = Record<string, unknown>;
+
+/** Compiled `pattern` keywords by source; null for those that don't compile */
+const patterns = new Map<string, RegExp | null>();
+
+/**
+ * Compile a `pattern` keyword, once per source. Schemas from MCP servers
+ * and plugins are written for many regex dialects, so a pattern invalid
+ * with the u flag (such as `[\w-.]`) is tried without it. One that
+ * compiles neither way is skipped, with a warning the first time.
+ */
+function compilePattern(source: string): RegExp | null {
+  const cached = patterns.get(source);
+  if (cached !== undefined) return cached;
+  let regex: RegExp | null = null;
+  for (const flags of ['u', '']) {
+    try {
+      regex = new RegExp(source, flags);
+      break;
+    } catch {
+      // Try the next flags
+    }
+  }
+  if (!regex) console.warn(`Ignoring invalid schema pattern /${source}/`);
+  patterns.set(source, regex);
+  return regex;
+}
+
+/**
+ * Compile every `pattern` keyword in a schema, so that it happens once
+ * when a tool is registered rather than on each call.
+ */
+export function compileSchemaPatterns(schema: unknown): void {
+  if (Array.isArray(schema)) {
+    for (const item of schema) compileSchemaPatterns(item);
+  } else if (isPlainObject(schema)) {
+    for (const [key, item] of Object.entries(schema)) {
+      if (key === 'pattern' && typeof item === 'string') compilePattern(item);
+      else compileSchemaPatterns(item);
+    }
+  }
+}
+
+/**
+ * Check `value` against `schema`. Returns the problems found, each naming
+ * the offending path (e.g. "input.items[2]: expected number"), or an empty
+ * array when it matches.
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path = 'input'): string[] {
+  const problems: string[] = [];
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(option, value))) {
+    problems.push(`${path}: must be one of ${schema.enum.map((o) => JSON.stringify(o)).join(', ')}`);
+    return problems;
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    problems.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+    return problems;
+  }
+
+  const types = typeof schema.type === 'string' ? [schema.type] : (schema.type as string[] | undefined);
+  if (types && !types.some((type) => hasType(value, type))) {
+    problems.push(`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`);
+    return problems;
+  }
+
+  if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) {
+    const options = (schema.anyOf ?? schema.oneOf) as JsonSchema[];
+    if (!options.some((option) => validateSchema(option, value, path).length === 0)) {
+      problems.push(`${path}: does not match any of the allowed forms`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      problems.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      problems.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    const pattern = typeof schema.pattern === 'string' ? compilePattern(schema.pattern) : null;
+    if (pattern && !pattern.test(value)) {
+      problems.push(`${path}: must match /${schema.pattern}/`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      problems.push(`${path}: must be at least ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      problems.push(`${path}: must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      problems.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      problems.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === 'object') {
+      value.forEach((item, i) => {
+        problems.push(...validateSchema(schema.items as JsonSchema, item, `${path}[${i}]`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    for (const key of (schema.required as string[] | undefined) ?? []) {
+      if (value[key] === undefined) problems.push(`${path}.${key}: required`);
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined) continue;
+      if (key in properties) {
+        problems.push(...validateSchema(properties[key], item, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        problems.push(`${path}.${key}: unknown property`);
+      } else if (isPlainObject(schema.additionalProperties)) {
+        problems.push(...validateSchema(schema.additionalProperties, item, `${path}.${key}`));
+      }
+    }
+  }
+
+  return problems;
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,428 @@
+// ---------------------------------------------------------------------------
+// browclaw — MCP client
+// ---------------------------------------------------------------------------
+//
+// Talks to Model Context Protocol servers over the streamable HTTP
+// transport: every JSON-RPC request is a POST, answered either with a JSON
+// body or with a `text/event-stream` carrying the response. The orchestrator
+// connects to the configured servers to list their tools, resources and
+// prompts; the agent worker calls tools through its own clients, using the
+// routes the orchestrator sent with the run. Servers must allow CORS from
+// browclaw's origin, including the Mcp-Session-Id header.
+
+import type {
+  McpPromptInfo,
+  McpResourceInfo,
+  McpServerConfig,
+  McpServerStatus,
+  McpToolInfo,
+  McpToolRoute,
+} from './types.js';
+import { MCP_MAX_LISTED_RESOURCES, MCP_PROTOCOL_VERSION } from './config.js';
+import { readSSE } from './sse.js';
+
+/** A JSON-RPC error from the server, or a transport failure */
+export class McpError extends Error {
+  constructor(
+    message: string,
+    /** JSON-RPC error code, or the HTTP status for transport failures */
+    readonly code?: number,
+  ) {
+    super(message);
+    this.name = 'McpError';
+  }
+}
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/** One piece of a tool result or prompt message */
+interface McpContent {
+  type: string;
+  text?: string;
+  mimeType?: string;
+  data?: string;
+  uri?: string;
+  name?: string;
+  resource?: { uri: string; mimeType?: string; text?: string; blob?: string };
+}
+
+export interface McpCallResult {
+  content?: McpContent[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+interface McpPromptResult {
+  description?: string;
+  messages: { role: 'user' | 'assistant'; content: McpContent }[];
+}
+
+interface InitializeResult {
+  protocolVersion: string;
+  capabilities: { tools?: object; resources?: object; prompts?: object };
+  serverInfo?: { name: string; version?: string };
+}
+
+export class McpClient {
+  private sessionId: string | null = null;
+  private nextId = 1;
+  private initializing: Promise<InitializeResult> | null = null;
+
+  constructor(
+    private readonly url: string,
+    private readonly headers: Record<string, string> = {},
+  ) {}
+
+  /**
+   * Run the initialize handshake once; later calls wait for the same one.
+   * A failed handshake is retried on the next call.
+   */
+  connect(signal?: AbortSignal): Promise<InitializeResult> {
+    if (!this.initializing) {
+      this.initializing = this.initialize(signal).catch((err) => {
+        this.initializing = null;
+        throw err;
+      });
+    }
+    return this.initializing;
+  }
+
+  async listTools(signal?: AbortSignal): Promise<McpToolInfo[]> {
+    const { capabilities } = await this.connect(signal);
+    if (!capabilities.tools) return [];
+    return this.paginate<McpToolInfo>('tools/list', 'tools', signal);
+  }
+
+  async listResources(signal?: AbortSignal): Promise<McpResourceInfo[]> {
+    const { capabilities } = await this.connect(signal);
+    if (!capabilities.resources) return [];
+    return this.paginate<McpResourceInfo>('resources/list', 'resources', signal);
+  }
+
+  async listPrompts(signal?: AbortSignal): Promise<McpPromptInfo[]> {
+    const { capabilities } = await this.connect(signal);
+    if (!capabilities.prompts) return [];
+    return this.paginate<McpPromptInfo>('prompts/list', 'prompts', signal);
+  }
+
+  callTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<McpCallResult> {
+    return this.request<McpCallResult>('tools/call', { name, arguments: args }, signal);
+  }
+
+  async readResource(uri: string, signal?: AbortSignal): Promise<McpResourceContents[]> {
+    const result = await this.request<{ contents: McpResourceContents[] }>('resources/read', { uri }, signal);
+    return result.contents ?? [];
+  }
+
+  getPrompt(name: string, args: Record<string, string>, signal?: AbortSignal): Promise<McpPromptResult> {
+    return this.request<McpPromptResult>('prompts/get', { name, arguments: args }, signal);
+  }
+
+  /**
+   * End the session on the server, if it keeps one. Best effort.
+   */
+  async close(): Promise<void> {
+    const sessionId = this.sessionId;
+    this.sessionId = null;
+    this.initializing = null;
+    if (!sessionId) return;
+    try {
+      await fetch(this.url, {
+        method: 'DELETE',
+        headers: { ...this.headers, 'Mcp-Session-Id': sessionId },
+      });
+    } catch {
+      // The server may not support it, or may be gone already
+    }
+  }
+
+  private async initialize(signal?: AbortSignal): Promise<InitializeResult> {
+    this.sessionId = null;
+    const result = await this.send<InitializeResult>(
+      'initialize',
+      {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: 'browclaw', version: '0.1.0' },
+      },
+      signal,
+    );
+    await this.post({ jsonrpc: '2.0', method: 'notifications/initialized' }, signal);
+    return result;
+  }
+
+  /**
+   * Send a request over the initialized session. A session the server has
+   * forgotten (404) is re-established once.
+   */
+  private async request<T>(method: string, params: object, signal?: AbortSignal): Promise<T> {
+    await this.connect(signal);
+    try {
+      return await this.send<T>(method, params, signal);
+    } catch (err) {
+      if (!(err instanceof McpError && err.code === 404 && this.sessionId)) throw err;
+      this.initializing = null;
+      await this.connect(signal);
+      return this.send<T>(method, params, signal);
+    }
+  }
+
+  private async paginate<T>(method: string, key: string, signal?: AbortSignal): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.request<Record<string, unknown>>(method, cursor ? { cursor } : {}, signal);
+      items.push(...((page[key] as T[] | undefined) ?? []));
+      cursor = page.nextCursor as string | undefined;
+    } while (cursor);
+    return items;
+  }
+
+  private async send<T>(method: string, params: object, signal?: AbortSignal): Promise<T> {
+    const id = this.nextId++;
+    const res = await this.post({ jsonrpc: '2.0', id, method, params }, signal);
+
+    let message: JsonRpcResponse | undefined;
+    if ((res.headers.get('content-type') ?? '').includes('text/event-stream')) {
+      // The stream may carry notifications and server requests first
+      for await (const event of readSSE(res)) {
+        if (!event.data) continue;
+        const parsed = JSON.parse(event.data) as JsonRpcResponse;
+        if (parsed.id === id && ('result' in parsed || 'error' in parsed)) {
+          message = parsed;
+          break;
+        }
+      }
+    } else {
+      message = (await res.json()) as JsonRpcResponse;
+    }
+
+    if (!message) throw new McpError(`No response to ${method}`);
+    if (message.error) throw new McpError(message.error.message, message.error.code);
+    return message.result as T;
+  }
+
+  private async post(body: object, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = {
+      ...this.headers,
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+    };
+    if (this.sessionId) headers['Mcp-Session-Id'] = this.sessionId;
+
+    const res = await fetch(this.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw new McpError(`HTTP ${res.status}${text ? `: ${text.slice(0, 200)}` : ''}`, res.status);
+    }
+    const sessionId = res.headers.get('Mcp-Session-Id');
+    if (sessionId) this.sessionId = sessionId;
+    return res;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Shared clients — one per server and context (main thread or worker)
+// ---------------------------------------------------------------------------
+
+const clients = new Map<string, McpClient>();
+
+function clientKey(server: Pick<McpServerConfig, 'url' | 'headers'>): string {
+  return `${server.url}\0${JSON.stringify(server.headers)}`;
+}
+
+export function getMcpClient(server: Pick<McpServerConfig, 'url' | 'headers'>): McpClient {
+  const key = clientKey(server);
+  let client = clients.get(key);
+  if (!client) {
+    client = new McpClient(server.url, server.headers);
+    clients.set(key, client);
+  }
+  return client;
+}
+
+/**
+ * Drop a server's client, ending its session, so the next use reconnects.
+ */
+export async function closeMcpClient(server: Pick<McpServerConfig, 'url' | 'headers'>): Promise<void> {
+  const key = clientKey(server);
+  const client = clients.get(key);
+  clients.delete(key);
+  await client?.close();
+}
+
+/**
+ * Connect to a server and list what it offers.
+ */
+export async function describeMcpServer(server: McpServerConfig): Promise<McpServerStatus> {
+  const client = getMcpClient(server);
+  try {
+    const [tools, resources, prompts] = await Promise.all([
+      client.listTools(),
+      client.listResources(),
+      client.listPrompts(),
+    ]);
+    return { serverId: server.id, state: 'connected', tools, resources, prompts };
+  } catch (err) {
+    return {
+      serverId: server.id,
+      state: 'error',
+      error: err instanceof Error ? err.message : String(err),
+      tools: [],
+      resources: [],
+      prompts: [],
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tools offered to the model
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse servers stored in config, tolerating missing or malformed JSON.
+ */
+export function parseMcpServers(raw: string | undefined): McpServerConfig[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Whether a server's tools are offered in a group */
+export function mcpServerApplies(server: McpServerConfig, groupId: string): boolean {
+  return server.enabled && (server.groups.length === 0 || server.groups.includes(groupId));
+}
+
+/** Prefix of a server's tool names; two servers must not share one */
+export function mcpToolPrefix(serverName: string): string {
+  return serverName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'mcp';
+}
+
+/**
+ * Name the model sees for a server's tool, e.g. "github__create_issue".
+ * Tool names are limited to 64 letters, digits, '_' and '-'.
+ */
+export function mcpToolName(serverName: string, tool: string): string {
+  return `${mcpToolPrefix(serverName)}__${tool.replace(/[^a-zA-Z0-9_-]/g, '_')}`.slice(0, 64);
+}
+
+/**
+ * The tools a connected server contributes: each of its own tools, plus a
+ * read_resource tool listing its resources when it has any.
+ */
+export function mcpToolRoutes(server: McpServerConfig, status: McpServerStatus): McpToolRoute[] {
+  const target = { url: server.url, headers: server.headers };
+  const routes: McpToolRoute[] = status.tools.map((tool) => {
+    const schema = tool.inputSchema ?? {};
+    return {
+      definition: {
+        name: mcpToolName(server.name, tool.name),
+        description: `${tool.description ?? tool.name} (from the ${server.name} MCP server)`,
+        input_schema: {
+          ...schema,
+          type: 'object',
+          properties: (schema.properties as Record<string, unknown>) ?? {},
+        },
+      },
+      server: target,
+      tool: tool.name,
+    };
+  });
+
+  if (status.resources.length > 0) {
+    const listed = status.resources.slice(0, MCP_MAX_LISTED_RESOURCES).map((r) =>
+      `- ${r.uri}${r.name && r.name !== r.uri ? ` (${r.name})` : ''}${r.description ? `: ${r.description}` : ''}`,
+    );
+    const more = status.resources.length - listed.length;
+    routes.push({
+      definition: {
+        name: mcpToolName(server.name, 'read_resource'),
+        description:
+          `Read a resource from the ${server.name} MCP server by URI. Available resources:\n` +
+          listed.join('\n') +
+          (more > 0 ? `\n…and ${more} more.` : ''),
+        input_schema: {
+          type: 'object',
+          properties: { uri: { type: 'string', description: 'URI of the resource to read' } },
+          required: ['uri'],
+        },
+      },
+      server: target,
+      tool: null,
+    });
+  }
+  return routes;
+}
+
+/**
+ * Carry out a call to an MCP tool and render its result as text.
+ */
+export async function callMcpRoute(
+  route: McpToolRoute,
+  input: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<string> {
+  const client = getMcpClient(route.server);
+  if (route.tool === null) {
+    const contents = await client.readResource(String(input.uri ?? ''), signal);
+    return contents.map(formatResource).join('\n\n') || '(empty resource)';
+  }
+
+  const result = await client.callTool(route.tool, input, signal);
+  let text = (result.content ?? []).map(formatContent).join('\n');
+  if (!text && result.structuredContent !== undefined) text = JSON.stringify(result.structuredContent);
+  // The "Tool error (" prefix lets the tool-loop guard count it as a failure
+  return result.isError ? `Tool error (${route.definition.name}): ${text}` : text || '(no output)';
+}
+
+/**
+ * A prompt's messages as one block of text for the chat input.
+ */
+export function formatPrompt(result: McpPromptResult): string {
+  const multiRole = result.messages.some((m) => m.role === 'assistant');
+  return result.messages
+    .map((m) => (multiRole ? `${m.role}: ` : '') + formatContent(m.content))
+    .join('\n\n');
+}
+
+function formatContent(content: McpContent): string {
+  switch (content.type) {
+    case 'text':
+      return content.text ?? '';
+    case 'resource':
+      return content.resource ? formatResource(content.resource) : '';
+    case 'resource_link':
+      return `[resource: ${content.uri}${content.name ? ` (${content.name})` : ''}]`;
+    default:
+      // Images and audio can't go into a text tool result; say what was left out
+      return `[${content.type}${content.mimeType ? `: ${content.mimeType}` : ''}${
+        content.data ? `, ${Math.floor((content.data.length * 3) / 4)} bytes` : ''
+      }]`;
+  }
+}
+
+function formatResource(resource: McpResourceContents): string {
+  if (resource.text !== undefined) return resource.text;
+  return `[binary resource: ${resource.uri}${resource.mimeType ? `, ${resource.mimeType}` : ''}]`;
+}
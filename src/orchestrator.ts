@@ -3,9 +3,9 @@
 // ---------------------------------------------------------------------------
 //
 // The orchestrator is the main thread coordinator. It manages:
-// - State machine (idle → thinking → responding)
-// - Message queue and routing
-// - Agent worker lifecycle
+// - Per-group state machine (idle → thinking → responding)
+// - Per-group FIFO queues and routing
+// - Agent worker pool (one worker per group, bounded concurrency)
 // - Channel coordination
 // - Task scheduling
 //
@@ -13,59 +13,143 @@
 
 import type {
   InboundMessage,
+  Attachment,
   StoredMessage,
+  WorkerInbound,
   WorkerOutbound,
   OrchestratorState,
+  ProviderId,
+  ProviderSettings,
   Task,
   ConversationMessage,
   ThinkingLogEntry,
+  StreamDelta,
+  ToolActivity,
   Skill,
+  ToolPolicies,
+  ToolPolicy,
+  ApprovalRequest,
+  ApprovalLogEntry,
+  ThinkingSettings,
+  ContextWindowReport,
+  TokenUsage,
+  UsageRecord,
+  ModelInfo,
+  ModelOverrides,
+  ModelPrices,
+  Budgets,
+  BudgetLimits,
+  BudgetPeriod,
+  McpServerConfig,
+  McpServerStatus,
+  McpToolRoute,
+  McpPromptInfo,
+  ToolPluginCode,
+  ToolPluginConfig,
+  ToolPluginStatus,
 } from './types.js';
 import {
   ASSISTANT_NAME,
   CONFIG_KEYS,
-  CONTEXT_WINDOW_SIZE,
+  COMPACTION_MAX_TOKENS,
+  CONTEXT_MAX_MESSAGES,
+  MAX_CONTEXT_IMAGES,
+  DEFAULT_CONTEXT_FILL,
+  DEFAULT_AUTO_COMPACT_THRESHOLD,
+  DEFAULT_MAX_ITERATIONS,
+  MAX_ITERATIONS_CEILING,
+  DEFAULT_COMPACT_KEEP_RECENT,
 DEFAULT_GROUP_ID,
+  DEFAULT_MAX_CONCURRENCY,
+  DEFAULT_MAX_RETRIES,
   DEFAULT_MAX_TOKENS,
   DEFAULT_MODEL,
   DEFAULT_PROVIDER,
   DEFAULT_OLLAMA_URL,
+  DEFAULT_THINKING_BUDGET,
   buildTriggerPattern,
 } from './config.js';
 import {
   openDatabase,
   saveMessage,
   getRecentMessages,
+  getMessagesSince,
   buildConversationMessages,
+  getSession,
+  saveSession,
+  deleteSession,
+  archiveMessages,
+  clearGroupArchive,
+  saveUsage,
+  getUsageSince,
   getConfig,
   setConfig,
   saveTask,
   clearGroupMessages,
   getEnabledSkills,
+  saveApproval,
 } from './db.js';
 import { readGroupFile } from './storage.js';
+import { saveImageAttachment } from './attachments.js';
+import { PROVIDERS, getProviderInfo } from './providers/registry.js';
+import {
+  discoverOllamaModel,
+  parseModelOverrides,
+  resolveModelInfo,
+  withModelOverride,
+} from './providers/models.js';
 import { encryptValue, decryptValue } from './crypto.js';
 import { BrowserChatChannel } from './channels/browser-chat.js';
 import { TelegramChannel } from './channels/telegram.js';
 import { Router } from './router.js';
 import { TaskScheduler } from './task-scheduler.js';
 import { ulid } from './ulid.js';
+import { parseToolPolicies, resolveToolPolicies, withToolPolicy } from './tool-policies.js';
+import { trimTranscript } from './transcript.js';
+import { fitContext, usedContextTokens } from './context-window.js';
+import { toolRegistry } from './tools.js';
+import {
+  loadToolPlugin,
+  parseToolPlugins,
+  readToolPluginCode,
+  registerToolPlugin,
+  toToolPluginSpec,
+} from './tool-plugins.js';
+import { estimateCost, usageTokens } from './usage.js';
+import { checkBudgets, emptyBudgets, parseBudgets, periodStart, withBudget, type Spend } from './budgets.js';
+import {
+  closeMcpClient,
+  describeMcpServer,
+  formatPrompt,
+  getMcpClient,
+  mcpServerApplies,
+  mcpToolPrefix,
+  mcpToolRoutes,
+  parseMcpServers,
+} from './mcp.js';
 
 // ---------------------------------------------------------------------------
 // Event emitter for UI updates
 // ---------------------------------------------------------------------------
 
 type EventMap = {
-  'state-change': OrchestratorState;
+  'state-change': { groupId: string; state: OrchestratorState };
   'message': StoredMessage;
+  'stream-delta': StreamDelta;
   'typing': { groupId: string; typing: boolean };
-  'tool-activity': { groupId: string; tool: string; status: string };
+  'tool-activity': ToolActivity;
   'thinking-log': ThinkingLogEntry;
   'error': { groupId: string; error: string };
   'ready': void;
   'session-reset': { groupId: string };
   'context-compacted': { groupId: string; summary: string };
-  'token-usage': import('./types.js').TokenUsage;
+  'token-usage': TokenUsage;
+  'usage-recorded': UsageRecord;
+  'context-window': ContextWindowReport;
+  'approval-request': ApprovalRequest;
+  'approval-resolved': ApprovalLogEntry;
+  'mcp-status': McpServerStatus;
+  'tool-plugin-status': ToolPluginStatus;
 };
 
 type EventCallback<T> = (data: T) => void;
@@ -93,6 +177,29 @@ class EventBus {
 // Orchestrator
 // ---------------------------------------------------------------------------
 
+/** Settings for the generic OpenAI-compatible provider */
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey: string;
+  headers: Record<string, string>;
+}
+
+/** A queued agent run — a triggering message or a scheduled task prompt */
+interface PendingRun {
+  groupId: string;
+  content: string;
+  /** The scheduled task this run is for */
+  taskId?: string;
+  /** The task's prompt is already in the chat: the run was put back to wait for budget */
+  promptSaved?: boolean;
+}
+
+/** The newest stored messages a context includes: their timestamp and ids */
+interface ContextMark {
+  timestamp: number;
+  ids: string[];
+}
+
 export class Orchestrator {
   readonly events = new EventBus();
   readonly browserChat = new BrowserChatChannel();
@@ -100,18 +207,65 @@ export class Orchestrator {
 
   private router!: Router;
   private scheduler!: TaskScheduler;
-  private agentWorker!: Worker;
-  private state: OrchestratorState = 'idle';
+  private workers = new Map<string, Worker>();
+  private states = new Map<string, OrchestratorState>();
   private triggerPattern!: RegExp;
   private assistantName: string = ASSISTANT_NAME;
-  private provider: 'anthropic' | 'ollama' = DEFAULT_PROVIDER;
+  private provider: ProviderId = DEFAULT_PROVIDER;
   private ollamaUrl: string = DEFAULT_OLLAMA_URL;
   private apiKey: string = '';
+  private openai: OpenAICompatibleConfig = {
+    baseUrl: PROVIDERS.openai.defaultBaseUrl,
+    apiKey: '',
+    headers: {},
+  };
+  private mockFixtureUrl: string = PROVIDERS.mock.defaultBaseUrl;
   private model: string = DEFAULT_MODEL;
   private maxTokens: number = DEFAULT_MAX_TOKENS;
-  private messageQueue: InboundMessage[] = [];
-  private processing = false;
-  private pendingScheduledTasks = new Set<string>();
+  private maxConcurrency: number = DEFAULT_MAX_CONCURRENCY;
+  private maxRetries: number = DEFAULT_MAX_RETRIES;
+  private contextFill: number = DEFAULT_CONTEXT_FILL;
+  private autoCompactThreshold: number = DEFAULT_AUTO_COMPACT_THRESHOLD;
+  private compactKeepRecent: number = DEFAULT_COMPACT_KEEP_RECENT;
+  /** Groups whose last request crossed the auto-compaction threshold */
+  private compactionDue = new Set<string>();
+  /** Messages each in-flight compaction will archive, under its id */
+  private pendingCompactions = new Map<string, { id: string; messages: StoredMessage[] }>();
+  /**
+   * Runs and compactions still being prepared here, not yet posted to the
+   * worker. The worker has nothing to cancel then, so Stop marks the start
+   * instead and it is dropped just before it would be posted.
+   */
+  private starting = new Map<string, { cancelled: boolean }>();
+  private queues = new Map<string, PendingRun[]>();
+  private toolPolicies: ToolPolicies = parseToolPolicies(undefined);
+  private pendingApprovals = new Map<string, ApprovalRequest>();
+  private javascriptNetwork = false;
+  private thinking: Record<string, ThinkingSettings> = {};
+  private maxIterations: Record<string, number> = {};
+  private modelOverrides: ModelOverrides = {};
+  private budgets: Budgets = emptyBudgets();
+  /**
+   * What the next model call of each group's run or compaction in progress
+   * may cost, held against the budgets of runs starting elsewhere until the
+   * group goes idle.
+   */
+  private heldSpend = new Map<string, Spend & { maxOutput: number }>();
+  /** Groups whose next run waits for spend held by other groups to be released */
+  private budgetWaits = new Set<string>();
+  private mcpServers: McpServerConfig[] = [];
+  /** What each enabled MCP server offered when last contacted */
+  private mcpStatus = new Map<string, McpServerStatus>();
+  private toolPlugins: ToolPluginConfig[] = [];
+  private toolPluginStatus = new Map<string, ToolPluginStatus>();
+  /** Source and tool specs of each loaded plugin, sent with every run */
+  private toolPluginCode = new Map<string, ToolPluginCode>();
+  /** Ollama models' metadata as reported by the server, by model name */
+  private discoveredModels = new Map<string, Partial<ModelInfo>>();
+  /** Groups running a scheduled task, with the task's id */
+  private pendingScheduledTasks = new Map<string, string>();
+  /** Newest stored message in each running group's context; see buildContext */
+  private contextMarks = new Map<string, ContextMark>();
 
   /**
    * Initialize the orchestrator. Must be called before anything else.
@@ -124,9 +278,30 @@ export class Orchestrator {
        // Load config
     this.assistantName = (await getConfig(CONFIG_KEYS.ASSISTANT_NAME)) || ASSISTANT_NAME;
     this.triggerPattern = buildTriggerPattern(this.assistantName);
-    this.provider =
-      ((await getConfig(CONFIG_KEYS.PROVIDER)) as 'anthropic' | 'ollama') || DEFAULT_PROVIDER;
+    this.provider = getProviderInfo(
+      (await getConfig(CONFIG_KEYS.PROVIDER)) || DEFAULT_PROVIDER,
+    ).id;
     this.ollamaUrl = (await getConfig(CONFIG_KEYS.OLLAMA_URL)) || DEFAULT_OLLAMA_URL;
+    this.mockFixtureUrl =
+      (await getConfig(CONFIG_KEYS.MOCK_FIXTURE_URL)) || PROVIDERS.mock.defaultBaseUrl;
+    this.openai.baseUrl =
+      (await getConfig(CONFIG_KEYS.OPENAI_BASE_URL)) || PROVIDERS.openai.defaultBaseUrl;
+    const openaiHeaders = await getConfig(CONFIG_KEYS.OPENAI_HEADERS);
+    if (openaiHeaders) {
+      try {
+        this.openai.headers = JSON.parse(openaiHeaders);
+      } catch {
+        this.openai.headers = {};
+      }
+    }
+    const storedOpenAIKey = await getConfig(CONFIG_KEYS.OPENAI_API_KEY);
+    if (storedOpenAIKey) {
+      try {
+        this.openai.apiKey = await decryptValue(storedOpenAIKey);
+      } catch {
+        this.openai.apiKey = '';
+      }
+    }
 
     const storedKey = await getConfig(CONFIG_KEYS.ANTHROPIC_API_KEY);
 
@@ -144,6 +319,61 @@ export class Orchestrator {
       (await getConfig(CONFIG_KEYS.MAX_TOKENS)) || String(DEFAULT_MAX_TOKENS),
       10,
     );
+    this.maxConcurrency = parseInt(
+      (await getConfig(CONFIG_KEYS.MAX_CONCURRENCY)) || String(DEFAULT_MAX_CONCURRENCY),
+      10,
+    );
+    this.maxRetries = parseInt(
+      (await getConfig(CONFIG_KEYS.MAX_RETRIES)) ?? String(DEFAULT_MAX_RETRIES),
+      10,
+    );
+
+    this.contextFill = parseFloat(
+      (await getConfig(CONFIG_KEYS.CONTEXT_FILL)) || String(DEFAULT_CONTEXT_FILL),
+    );
+    this.autoCompactThreshold = parseInt(
+      (await getConfig(CONFIG_KEYS.AUTO_COMPACT_THRESHOLD)) ?? String(DEFAULT_AUTO_COMPACT_THRESHOLD),
+      10,
+    );
+    this.compactKeepRecent = parseInt(
+      (await getConfig(CONFIG_KEYS.COMPACT_KEEP_RECENT)) ?? String(DEFAULT_COMPACT_KEEP_RECENT),
+      10,
+    );
+
+    this.modelOverrides = parseModelOverrides(await getConfig(CONFIG_KEYS.MODEL_OVERRIDES));
+    this.toolPolicies = parseToolPolicies(await getConfig(CONFIG_KEYS.TOOL_POLICIES));
+    this.budgets = parseBudgets(await getConfig(CONFIG_KEYS.BUDGETS));
+    this.javascriptNetwork = (await getConfig(CONFIG_KEYS.JAVASCRIPT_NETWORK)) === 'true';
+
+    const thinking = await getConfig(CONFIG_KEYS.THINKING);
+    if (thinking) {
+      try {
+        this.thinking = JSON.parse(thinking);
+      } catch {
+        this.thinking = {};
+      }
+    }
+    const maxIterations = await getConfig(CONFIG_KEYS.MAX_ITERATIONS);
+    if (maxIterations) {
+      try {
+        this.maxIterations = JSON.parse(maxIterations);
+      } catch {
+        this.maxIterations = {};
+      }
+    }
+
+    // Learn the local model's real context size in the background
+    this.refreshModelInfo().catch(() => {});
+
+    this.mcpServers = parseMcpServers(await getConfig(CONFIG_KEYS.MCP_SERVERS));
+    for (const server of this.mcpServers) {
+      if (server.enabled) this.refreshMcpServer(server.id).catch(() => {});
+    }
+
+    this.toolPlugins = parseToolPlugins(await getConfig(CONFIG_KEYS.TOOL_PLUGINS));
+    for (const plugin of this.toolPlugins) {
+      if (plugin.enabled) this.reloadToolPlugin(plugin.id).catch(() => {});
+    }
 
     // Set up router
     this.router = new Router(this.browserChat, this.telegram);
@@ -158,24 +388,14 @@ export class Orchestrator {
       const chatIds: string[] = chatIdsRaw ? JSON.parse(chatIdsRaw) : [];
       this.telegram.configure(telegramToken, chatIds);
       this.telegram.onMessage((msg) => this.enqueue(msg));
+      this.telegram.onApproval((id, approved) => this.respondToApproval(id, approved, 'telegram'));
       this.telegram.start();
     }
 
-    // Set up agent worker
-    this.agentWorker = new Worker(
-      new URL('./agent-worker.ts', import.meta.url),
-      { type: 'module' },
-    );
-    this.agentWorker.onmessage = (event: MessageEvent<WorkerOutbound>) => {
-      this.handleWorkerMessage(event.data);
-    };
-    this.agentWorker.onerror = (err) => {
-      console.error('Agent worker error:', err);
-    };
-
-    // Set up task scheduler
-    this.scheduler = new TaskScheduler((groupId, prompt) =>
-      this.invokeAgent(groupId, prompt),
+    // Set up task scheduler — scheduled runs share the per-group queue so
+    // they never collide with an interactive run in the same group
+    this.scheduler = new TaskScheduler(async (groupId, prompt, taskId) =>
+      this.enqueueRun({ groupId, content: prompt, taskId }),
     );
     this.scheduler.start();
 
@@ -188,19 +408,355 @@ export class Orchestrator {
   }
 
   /**
-   * Get the current state.
+   * Get the current state of a group.
+   */
+  getState(groupId: string = DEFAULT_GROUP_ID): OrchestratorState {
+    return this.states.get(groupId) ?? 'idle';
+  }
+
+  /**
+   * Get the maximum number of groups processed at the same time.
+   */
+  getMaxConcurrency(): number {
+    return this.maxConcurrency;
+  }
+
+  /**
+   * Update the concurrency limit. Queued runs start immediately if the new
+   * limit leaves room for them.
+   */
+  async setMaxConcurrency(value: number): Promise<void> {
+    this.maxConcurrency = Math.max(1, Math.floor(value));
+    await setConfig(CONFIG_KEYS.MAX_CONCURRENCY, String(this.maxConcurrency));
+    this.processQueue();
+  }
+
+  /**
+   * Get how many times a failed model call (429 / 5xx / overloaded) is
+   * retried before the error is shown.
+   */
+  getMaxRetries(): number {
+    return this.maxRetries;
+  }
+
+  async setMaxRetries(value: number): Promise<void> {
+    this.maxRetries = Math.max(0, Math.floor(value));
+    await setConfig(CONFIG_KEYS.MAX_RETRIES, String(this.maxRetries));
+  }
+
+  /**
+   * Get the share (0–1) of the model's context limit that a request may
+   * fill with history; older messages beyond it are left out.
+   */
+  getContextFill(): number {
+    return this.contextFill;
+  }
+
+  async setContextFill(value: number): Promise<void> {
+    this.contextFill = Math.min(1, Math.max(0.1, value));
+    await setConfig(CONFIG_KEYS.CONTEXT_FILL, String(this.contextFill));
+  }
+
+  /**
+   * Get the context usage (percent of the context window) at which a group
+   * is compacted automatically after its reply; 0 means never.
+   */
+  getAutoCompactThreshold(): number {
+    return this.autoCompactThreshold;
+  }
+
+  async setAutoCompactThreshold(value: number): Promise<void> {
+    this.autoCompactThreshold = Math.min(100, Math.max(0, Math.floor(value)));
+    await setConfig(CONFIG_KEYS.AUTO_COMPACT_THRESHOLD, String(this.autoCompactThreshold));
+  }
+
+  /**
+   * Get how many of the most recent messages compaction keeps verbatim.
+   */
+  getCompactKeepRecent(): number {
+    return this.compactKeepRecent;
+  }
+
+  async setCompactKeepRecent(value: number): Promise<void> {
+    this.compactKeepRecent = Math.max(0, Math.floor(value));
+    await setConfig(CONFIG_KEYS.COMPACT_KEEP_RECENT, String(this.compactKeepRecent));
+  }
+
+  /**
+   * Get the configured budgets (across all groups and per group).
+   */
+  getBudgets(): Budgets {
+    return this.budgets;
+  }
+
+  /**
+   * Set one period's caps, for a group or across all groups. Caps of 0
+   * remove the limit.
+   */
+  async setBudget(period: BudgetPeriod, limits: BudgetLimits, groupId?: string): Promise<void> {
+    this.budgets = withBudget(this.budgets, period, limits, groupId);
+    await setConfig(CONFIG_KEYS.BUDGETS, JSON.stringify(this.budgets));
+  }
+
+  /**
+   * Get the configured tool policies (defaults and per-group overrides).
+   */
+  getToolPolicies(): ToolPolicies {
+    return this.toolPolicies;
+  }
+
+  /**
+   * Set the policy for a tool, globally or for one group. `null` removes
+   * the entry, so the tool falls back to the default (or to "allow").
    */
-  getState(): OrchestratorState {
-    return this.state;
+  async setToolPolicy(tool: string, policy: ToolPolicy | null, groupId?: string): Promise<void> {
+    this.toolPolicies = withToolPolicy(this.toolPolicies, tool, policy, groupId);
+    await setConfig(CONFIG_KEYS.TOOL_POLICIES, JSON.stringify(this.toolPolicies));
   }
 
-  getProvider(): 'anthropic' | 'ollama' {
+  /**
+   * Whether code run by the javascript tool may use the network.
+   */
+  getJavascriptNetwork(): boolean {
+    return this.javascriptNetwork;
+  }
+
+  async setJavascriptNetwork(allowed: boolean): Promise<void> {
+    this.javascriptNetwork = allowed;
+    await setConfig(CONFIG_KEYS.JAVASCRIPT_NETWORK, String(allowed));
+  }
+
+  /**
+   * Extended thinking settings for a group (off unless enabled for it).
+   */
+  getThinking(groupId: string): ThinkingSettings {
+    return this.thinking[groupId] ?? { enabled: false, budgetTokens: DEFAULT_THINKING_BUDGET };
+  }
+
+  async setThinking(groupId: string, settings: ThinkingSettings): Promise<void> {
+    this.thinking = { ...this.thinking, [groupId]: settings };
+    await setConfig(CONFIG_KEYS.THINKING, JSON.stringify(this.thinking));
+  }
+
+  /**
+   * Model calls one run in a group may make before it is stopped.
+   */
+  getMaxIterations(groupId: string): number {
+    return this.maxIterations[groupId] ?? DEFAULT_MAX_ITERATIONS;
+  }
+
+  async setMaxIterations(groupId: string, value: number): Promise<void> {
+    const clamped = Math.min(MAX_ITERATIONS_CEILING, Math.max(1, Math.floor(value)));
+    this.maxIterations = { ...this.maxIterations, [groupId]: clamped };
+    await setConfig(CONFIG_KEYS.MAX_ITERATIONS, JSON.stringify(this.maxIterations));
+  }
+
+  getMcpServers(): McpServerConfig[] {
+    return this.mcpServers;
+  }
+
+  getMcpStatus(serverId: string): McpServerStatus | undefined {
+    return this.mcpStatus.get(serverId);
+  }
+
+  /**
+   * Add an MCP server or update the one with the same id, then connect to
+   * it. Throws if another server's tools would get the same name prefix.
+   */
+  async saveMcpServer(server: McpServerConfig): Promise<void> {
+    const prefix = mcpToolPrefix(server.name);
+    const clash = this.mcpServers.find((s) => s.id !== server.id && mcpToolPrefix(s.name) === prefix);
+    if (clash) throw new Error(`"${server.name}" is too close to the name of the "${clash.name}" server`);
+
+    const previous = this.mcpServers.find((s) => s.id === server.id);
+    this.mcpServers = previous
+      ? this.mcpServers.map((s) => (s.id === server.id ? server : s))
+      : [...this.mcpServers, server];
+    await setConfig(CONFIG_KEYS.MCP_SERVERS, JSON.stringify(this.mcpServers));
+    if (previous) await closeMcpClient(previous);
+    await this.refreshMcpServer(server.id);
+  }
+
+  async removeMcpServer(serverId: string): Promise<void> {
+    const server = this.mcpServers.find((s) => s.id === serverId);
+    if (!server) return;
+    this.mcpServers = this.mcpServers.filter((s) => s.id !== serverId);
+    this.mcpStatus.delete(serverId);
+    await setConfig(CONFIG_KEYS.MCP_SERVERS, JSON.stringify(this.mcpServers));
+    await closeMcpClient(server);
+  }
+
+  /**
+   * Reconnect to a server and list its tools, resources and prompts.
+   * Disabled servers are left alone and offer nothing.
+   */
+  async refreshMcpServer(serverId: string): Promise<void> {
+    const server = this.mcpServers.find((s) => s.id === serverId);
+    if (!server) return;
+    if (!server.enabled) {
+      this.mcpStatus.delete(serverId);
+      return;
+    }
+
+    const connecting: McpServerStatus = {
+      serverId,
+      state: 'connecting',
+      tools: [],
+      resources: [],
+      prompts: [],
+    };
+    this.mcpStatus.set(serverId, connecting);
+    this.events.emit('mcp-status', connecting);
+
+    await closeMcpClient(server);
+    const status = await describeMcpServer(server);
+    // Edited or removed while connecting: that change started its own refresh
+    if (!this.mcpServers.includes(server)) return;
+    this.mcpStatus.set(serverId, status);
+    this.events.emit('mcp-status', status);
+  }
+
+  /**
+   * Tools the connected MCP servers offer in a group, or in any group when
+   * `groupId` is omitted.
+   */
+  getMcpToolRoutes(groupId?: string): McpToolRoute[] {
+    return this.mcpServers
+      .filter((server) => (groupId ? mcpServerApplies(server, groupId) : server.enabled))
+      .flatMap((server) => {
+        const status = this.mcpStatus.get(server.id);
+        return status?.state === 'connected' ? mcpToolRoutes(server, status) : [];
+      });
+  }
+
+  /**
+   * Prompts the group's connected MCP servers offer, for the chat input.
+   */
+  getMcpPrompts(groupId: string): { server: McpServerConfig; prompt: McpPromptInfo }[] {
+    return this.mcpServers
+      .filter((server) => mcpServerApplies(server, groupId))
+      .flatMap((server) => {
+        const status = this.mcpStatus.get(server.id);
+        return status?.state === 'connected'
+          ? status.prompts.map((prompt) => ({ server, prompt }))
+          : [];
+      });
+  }
+
+  /**
+   * Fetch a prompt from its server, filled in with `args`, as text.
+   */
+  async getMcpPrompt(serverId: string, name: string, args: Record<string, string>): Promise<string> {
+    const server = this.mcpServers.find((s) => s.id === serverId);
+    if (!server) throw new Error('MCP server not found');
+    return formatPrompt(await getMcpClient(server).getPrompt(name, args));
+  }
+
+  getToolPlugins(): ToolPluginConfig[] {
+    return this.toolPlugins;
+  }
+
+  getToolPluginStatus(pluginId: string): ToolPluginStatus | undefined {
+    return this.toolPluginStatus.get(pluginId);
+  }
+
+  /**
+   * Add a tool plugin or update the one with the same id, then load it.
+   */
+  async saveToolPlugin(plugin: ToolPluginConfig): Promise<void> {
+    const previous = this.toolPlugins.find((p) => p.id === plugin.id);
+    this.toolPlugins = previous
+      ? this.toolPlugins.map((p) => (p.id === plugin.id ? plugin : p))
+      : [...this.toolPlugins, plugin];
+    await setConfig(CONFIG_KEYS.TOOL_PLUGINS, JSON.stringify(this.toolPlugins));
+    await this.reloadToolPlugin(plugin.id);
+  }
+
+  async removeToolPlugin(pluginId: string): Promise<void> {
+    this.toolPlugins = this.toolPlugins.filter((p) => p.id !== pluginId);
+    this.unloadToolPlugin(pluginId);
+    await setConfig(CONFIG_KEYS.TOOL_PLUGINS, JSON.stringify(this.toolPlugins));
+  }
+
+  /**
+   * Read a plugin's module again and register its tools in place of the
+   * ones it had; the module runs in a loader worker, never on the page
+   * (see loadToolPlugin). Disabled plugins are unloaded. Runs already
+   * started keep the tools they were given.
+   */
+  async reloadToolPlugin(pluginId: string): Promise<void> {
+    const plugin = this.toolPlugins.find((p) => p.id === pluginId);
+    if (!plugin) return;
+    this.unloadToolPlugin(pluginId);
+    if (!plugin.enabled) return;
+
+    const loading: ToolPluginStatus = { pluginId, state: 'loading', tools: [] };
+    this.toolPluginStatus.set(pluginId, loading);
+    this.events.emit('tool-plugin-status', loading);
+
+    let status: ToolPluginStatus;
+    try {
+      const code = await readToolPluginCode(plugin);
+      const tools = await loadToolPlugin({ id: pluginId, code });
+      // Edited or removed while loading: that change started its own load
+      if (!this.toolPlugins.includes(plugin)) return;
+      registerToolPlugin(toolRegistry, pluginId, tools);
+      this.toolPluginCode.set(pluginId, { id: pluginId, code, tools: tools.map(toToolPluginSpec) });
+      status = { pluginId, state: 'loaded', tools: tools.map((tool) => tool.name) };
+    } catch (err) {
+      if (!this.toolPlugins.includes(plugin)) return;
+      status = {
+        pluginId,
+        state: 'error',
+        error: err instanceof Error ? err.message : String(err),
+        tools: [],
+      };
+    }
+    this.toolPluginStatus.set(pluginId, status);
+    this.events.emit('tool-plugin-status', status);
+  }
+
+  private unloadToolPlugin(pluginId: string): void {
+    toolRegistry.unregisterSource(pluginId);
+    this.toolPluginCode.delete(pluginId);
+    this.toolPluginStatus.delete(pluginId);
+  }
+
+  /** Loaded plugins' sources and specs, for agent workers to register */
+  private getToolPluginCode(): ToolPluginCode[] {
+    return [...this.toolPluginCode.values()];
+  }
+
+  /**
+   * Tool calls currently waiting for the user, oldest first.
+   */
+  getPendingApprovals(groupId?: string): ApprovalRequest[] {
+    const pending = [...this.pendingApprovals.values()];
+    return groupId ? pending.filter((r) => r.groupId === groupId) : pending;
+  }
+
+  /**
+   * Approve or deny a pending tool call. Whichever channel answers first
+   * wins; later answers for the same request are ignored.
+   */
+  async respondToApproval(
+    id: string,
+    approved: boolean,
+    decidedBy: ApprovalLogEntry['decidedBy'],
+  ): Promise<void> {
+    const request = this.pendingApprovals.get(id);
+    if (!request) return;
+    await this.settleApproval(request, approved, decidedBy);
+  }
+
+  getProvider(): ProviderId {
     return this.provider;
   }
 
-  async setProvider(val: 'anthropic' | 'ollama'): Promise<void> {
+  async setProvider(val: ProviderId): Promise<void> {
     this.provider = val;
     await setConfig(CONFIG_KEYS.PROVIDER, val);
+    this.refreshModelInfo().catch(() => {});
   }
 
   getOllamaUrl(): string {
@@ -210,16 +766,55 @@ export class Orchestrator {
   async setOllamaUrl(val: string): Promise<void> {
     this.ollamaUrl = val;
     await setConfig(CONFIG_KEYS.OLLAMA_URL, val);
+    // Another server may run the same models with other settings
+    this.discoveredModels.clear();
+    this.refreshModelInfo().catch(() => {});
+  }
+
+  getMockFixtureUrl(): string {
+    return this.mockFixtureUrl;
+  }
+
+  /**
+   * Set the fixture replayed by the mock provider (any URL the worker can
+   * fetch; files in public/fixtures/ are served at /fixtures/).
+   */
+  async setMockFixtureUrl(val: string): Promise<void> {
+    this.mockFixtureUrl = val;
+    await setConfig(CONFIG_KEYS.MOCK_FIXTURE_URL, val);
+  }
+
+  /**
+   * Get the OpenAI-compatible endpoint settings (LM Studio, llama.cpp,
+   * vLLM, or any gateway speaking /v1/chat/completions).
+   */
+  getOpenAIConfig(): OpenAICompatibleConfig {
+    return { ...this.openai, headers: { ...this.openai.headers } };
+  }
+
+  /**
+   * Update the OpenAI-compatible endpoint settings. The API key is
+   * encrypted at rest like the Anthropic key.
+   */
+  async setOpenAIConfig(config: OpenAICompatibleConfig): Promise<void> {
+    this.openai = { ...config, headers: { ...config.headers } };
+    await setConfig(CONFIG_KEYS.OPENAI_BASE_URL, config.baseUrl);
+    await setConfig(CONFIG_KEYS.OPENAI_HEADERS, JSON.stringify(config.headers));
+    await setConfig(
+      CONFIG_KEYS.OPENAI_API_KEY,
+      config.apiKey ? await encryptValue(config.apiKey) : '',
+    );
   }
 
   /**
    * Check if the AI provider is configured.
    */
   isConfigured(): boolean {
-    if (this.provider === 'ollama') {
-      return this.ollamaUrl.trim().length > 0;
+    const { apiKey, baseUrl } = this.getProviderSettings();
+    if (getProviderInfo(this.provider).requiresApiKey) {
+      return apiKey.length > 0;
     }
-    return this.apiKey.length > 0;
+    return baseUrl.trim().length > 0;
   }
 
   /**
@@ -244,6 +839,48 @@ export class Orchestrator {
   async setModel(model: string): Promise<void> {
     this.model = model;
     await setConfig(CONFIG_KEYS.MODEL, model);
+    this.refreshModelInfo().catch(() => {});
+  }
+
+  /**
+   * Metadata for a model (by default the current one): context window,
+   * output limit, capabilities and prices, with the user's overrides applied.
+   */
+  getModelInfo(model: string = this.model, provider: ProviderId = this.provider): ModelInfo {
+    return resolveModelInfo(
+      provider,
+      model,
+      this.modelOverrides,
+      provider === 'ollama' ? this.discoveredModels.get(model) : undefined,
+    );
+  }
+
+  /**
+   * For Ollama, ask the server how it runs the current model and return
+   * the updated metadata. Other providers have nothing to discover.
+   */
+  async refreshModelInfo(): Promise<ModelInfo> {
+    const model = this.model;
+    if (this.provider === 'ollama' && model && this.ollamaUrl) {
+      try {
+        this.discoveredModels.set(model, await discoverOllamaModel(this.ollamaUrl, model));
+      } catch (err) {
+        console.warn('Could not read model details from Ollama:', err);
+      }
+    }
+    return this.getModelInfo(model);
+  }
+
+  getModelOverrides(): ModelOverrides {
+    return this.modelOverrides;
+  }
+
+  /**
+   * Override metadata fields for one model; `null` removes the override.
+   */
+  async setModelOverride(model: string, override: Partial<ModelInfo> | null): Promise<void> {
+    this.modelOverrides = withModelOverride(this.modelOverrides, model, override);
+    await setConfig(CONFIG_KEYS.MODEL_OVERRIDES, JSON.stringify(this.modelOverrides));
   }
 
   /**
@@ -270,41 +907,55 @@ export class Orchestrator {
     await setConfig(CONFIG_KEYS.TELEGRAM_CHAT_IDS, JSON.stringify(chatIds));
     this.telegram.configure(token, chatIds);
     this.telegram.onMessage((msg) => this.enqueue(msg));
+    this.telegram.onApproval((id, approved) => this.respondToApproval(id, approved, 'telegram'));
     this.telegram.start();
   }
 
   /**
-   * Submit a message from the browser chat UI.
+   * Submit a message from the browser chat UI. Attached images are saved
+   * to the group's workspace before the message is queued.
    */
-  submitMessage(text: string, groupId?: string): void {
-    this.browserChat.submit(text, groupId);
+  async submitMessage(text: string, groupId?: string, images: File[] = []): Promise<void> {
+    const gid = groupId || this.browserChat.getActiveGroup();
+    let attachments: Attachment[];
+    try {
+      attachments = await Promise.all(
+        images.map((image) => saveImageAttachment(gid, image, image.name)),
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      this.events.emit('error', { groupId: gid, error: `Could not attach image: ${message}` });
+      return;
+    }
+    this.browserChat.submit(text, gid, attachments);
   }
 
   /**
    * Start a completely new session — clears message history for the group.
    */
   async newSession(groupId: string = DEFAULT_GROUP_ID): Promise<void> {
-    // Clear messages from DB
+    // Clear messages, their archive and the tool-use transcript from DB
     await clearGroupMessages(groupId);
+    await clearGroupArchive(groupId);
+    await deleteSession(groupId);
     this.events.emit('session-reset', { groupId });
   }
 
   /**
-   * Compact (summarize) the current context to reduce token usage.
-   * Asks Claude to produce a summary, then replaces the history with it.
+   * Compact (summarize) the current context to reduce token usage. All but
+   * the most recent messages are summarized by the model, then archived and
+   * replaced by the summary; see handleCompactDone.
    */
   async compactContext(groupId: string = DEFAULT_GROUP_ID): Promise<void> {
     if (!this.isConfigured()) {
       this.events.emit('error', {
         groupId,
-        error: this.provider === 'anthropic'
-          ? 'API key not configured. Cannot compact context.'
-          : 'Ollama URL not configured. Cannot compact context.',
+        error: getProviderInfo(this.provider).setupHint,
       });
       return;
     }
 
-    if (this.state !== 'idle') {
+    if (this.getState(groupId) !== 'idle') {
       this.events.emit('error', {
         groupId,
         error: 'Cannot compact while processing. Wait for the current response to finish.',
@@ -312,8 +963,39 @@ export class Orchestrator {
       return;
     }
 
-    this.setState('thinking');
+    this.setState(groupId, 'thinking');
     this.events.emit('typing', { groupId, typing: true });
+    await this.startCompaction(groupId, false);
+  }
+
+  /**
+   * Send the messages older than the most recent `compactKeepRecent` to the
+   * worker for summarizing. The group must already be marked busy.
+   */
+  private async startCompaction(groupId: string, auto: boolean): Promise<void> {
+    const start = { cancelled: false };
+    this.starting.set(groupId, start);
+    try {
+      await this.prepareCompaction(groupId, auto, start);
+    } finally {
+      if (this.starting.get(groupId) === start) this.starting.delete(groupId);
+    }
+  }
+
+  private async prepareCompaction(groupId: string, auto: boolean, start: { cancelled: boolean }): Promise<void> {
+    const stored = await getRecentMessages(groupId, CONTEXT_MAX_MESSAGES);
+    const toArchive = stored.slice(0, Math.max(0, stored.length - this.compactKeepRecent));
+    if (toArchive.length === 0) {
+      if (!auto) {
+        this.events.emit('error', {
+          groupId,
+          error: `Nothing to compact: the conversation fits in the ${this.compactKeepRecent} most recent messages, which are always kept.`,
+        });
+      }
+      this.events.emit('typing', { groupId, typing: false });
+      this.setState(groupId, 'idle');
+      return;
+    }
 
     // Load group memory
     let memory = '';
@@ -326,40 +1008,152 @@ export class Orchestrator {
     // Load active skills
     const skills = await getEnabledSkills();
 
-    const messages = await buildConversationMessages(groupId, CONTEXT_WINDOW_SIZE);
+    const maxImages = this.getModelInfo().vision ? MAX_CONTEXT_IMAGES : 0;
+    const history = await buildConversationMessages(groupId, toArchive, maxImages);
     const systemPrompt = buildSystemPrompt(this.assistantName, memory, skills);
+    const settings = this.getProviderSettings();
+    const maxOutput = Math.min(settings.maxTokens, COMPACTION_MAX_TOKENS);
+    const { messages, report } = fitContext(history, {
+      contextLimit: settings.contextLimit,
+      fill: this.contextFill,
+      reserve: maxOutput,
+      systemPrompt,
+      tools: [],
+    });
 
-    this.agentWorker.postMessage({
+    // The summary is a model call too, so budgets apply
+    const check = await this.checkGroupBudgets(groupId);
+    if ('blocked' in check) {
+      this.events.emit('error', {
+        groupId,
+        error: `Not compacted: ${check.blocked} Budgets can be changed in Settings → Budgets.`,
+      });
+      this.events.emit('typing', { groupId, typing: false });
+      this.setState(groupId, 'idle');
+      return;
+    }
+    this.holdNextCall(groupId, report.estimatedTokens, maxOutput, this.getModelInfo());
+
+    // Stopped while this was being prepared
+    if (start.cancelled) {
+      await this.handleCancelled(groupId, '');
+      return;
+    }
+
+    this.starting.delete(groupId);
+    this.pendingCompactions.set(groupId, { id: ulid(), messages: toArchive });
+    this.postToWorker(groupId, {
       type: 'compact',
       payload: {
         groupId,
         messages,
         systemPrompt,
-        provider: this.provider,
-        apiKey: this.apiKey,
-        ollamaUrl: this.ollamaUrl,
-        model: this.model,
-        maxTokens: this.maxTokens,
+        ...settings,
       },
     });
   }
 
+  /**
+   * Stop the in-flight agent run (or compaction) for a group. The worker
+   * aborts its pending request and replies with whatever text it had
+   * streamed so far; see handleCancelled.
+   */
+  cancel(groupId: string = DEFAULT_GROUP_ID): void {
+    if (this.getState(groupId) === 'idle') return;
+    // The worker stops waiting on its own; just close the prompts
+    for (const request of this.getPendingApprovals(groupId)) {
+      this.settleApproval(request, false, 'cancelled');
+    }
+    // Not posted yet: drop it before it is (see invokeAgent)
+    const start = this.starting.get(groupId);
+    if (start) {
+      start.cancelled = true;
+      return;
+    }
+    this.postToWorker(groupId, { type: 'cancel', payload: { groupId } });
+  }
+
   /**
    * Shut down everything.
    */
   shutdown(): void {
     this.scheduler.stop();
     this.telegram.stop();
-    this.agentWorker.terminate();
+    for (const worker of this.workers.values()) worker.terminate();
+    this.workers.clear();
   }
 
   // -----------------------------------------------------------------------
   // Private
   // -----------------------------------------------------------------------
 
-  private setState(state: OrchestratorState): void {
-    this.state = state;
-    this.events.emit('state-change', state);
+  private setState(groupId: string, state: OrchestratorState): void {
+    if (state === 'idle') {
+      this.states.delete(groupId);
+      // Released spend may be what a waiting run needs
+      if (this.heldSpend.delete(groupId)) this.budgetWaits.clear();
+    } else {
+      this.states.set(groupId, state);
+    }
+    this.events.emit('state-change', { groupId, state });
+
+    // A group finishing frees a slot for the next queued run
+    if (state === 'idle') this.processQueue();
+  }
+
+  /**
+   * Get (or lazily spawn) the agent worker dedicated to a group.
+   */
+  private getWorker(groupId: string): Worker {
+    let worker = this.workers.get(groupId);
+    if (!worker) {
+      worker = new Worker(
+        new URL('./agent-worker.ts', import.meta.url),
+        { type: 'module' },
+      );
+      worker.onmessage = (event: MessageEvent<WorkerOutbound>) => {
+        this.handleWorkerMessage(event.data);
+      };
+      worker.onerror = (err) => {
+        console.error(`Agent worker error (${groupId}):`, err);
+      };
+      this.workers.set(groupId, worker);
+    }
+    return worker;
+  }
+
+  private postToWorker(groupId: string, msg: WorkerInbound): void {
+    this.getWorker(groupId).postMessage(msg);
+  }
+
+  /**
+   * Connection settings for the active provider, as sent to the worker.
+   */
+  private getProviderSettings(): ProviderSettings {
+    const info = getProviderInfo(this.provider);
+    const model = this.getModelInfo();
+    const base = {
+      provider: info.id,
+      model: this.model,
+      maxTokens: Math.min(this.maxTokens, model.maxOutputTokens),
+      contextLimit: model.contextLimit,
+      maxRetries: this.maxRetries,
+    };
+    switch (info.id) {
+      case 'ollama':
+        return { ...base, apiKey: '', baseUrl: this.ollamaUrl, headers: {} };
+      case 'openai':
+        return { ...base, ...this.openai };
+      case 'mock':
+        return { ...base, apiKey: '', baseUrl: this.mockFixtureUrl, headers: {} };
+      default:
+        return { ...base, apiKey: this.apiKey, baseUrl: info.defaultBaseUrl, headers: {} };
+    }
+  }
+
+  /** Number of groups currently thinking or responding. */
+  private activeCount(): number {
+    return this.states.size;
   }
 
   private async enqueue(msg: InboundMessage): Promise<void> {
@@ -377,56 +1171,82 @@ export class Orchestrator {
     // Browser main group always triggers; other groups need the trigger pattern
     if (isBrowserMain || hasTrigger) {
       stored.isTrigger = true;
-      this.messageQueue.push(msg);
     }
 
     await saveMessage(stored);
     this.events.emit('message', stored);
 
-    // Process queue
+    if (stored.isTrigger) {
+      this.enqueueRun({ groupId: msg.groupId, content: msg.content });
+    }
+  }
+
+  private enqueueRun(run: PendingRun): void {
+    const queue = this.queues.get(run.groupId);
+    if (queue) queue.push(run);
+    else this.queues.set(run.groupId, [run]);
     this.processQueue();
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.processing) return;
-    if (this.messageQueue.length === 0) return;
-    if (!this.isConfigured()) {
-      // Can't process without configuration
-      const msg = this.messageQueue.shift()!;
-      this.events.emit('error', {
-        groupId: msg.groupId,
-        error: this.provider === 'anthropic'
-          ? 'API key not configured. Go to Settings to add your Anthropic API key.'
-          : 'Ollama URL not configured. Go to Settings to configure your Ollama Host.',
+  /**
+   * Start queued runs for idle groups, oldest group first, until the
+   * concurrency limit is reached. Runs within a group stay strictly FIFO.
+   */
+  private processQueue(): void {
+    for (const [groupId, queue] of this.queues) {
+      if (this.activeCount() >= this.maxConcurrency) return;
+      if (this.getState(groupId) !== 'idle' || this.budgetWaits.has(groupId)) continue;
+
+      const run = queue.shift()!;
+      if (queue.length === 0) this.queues.delete(groupId);
+
+      if (!this.isConfigured()) {
+        // Can't process without configuration
+        this.events.emit('error', {
+          groupId,
+            error: getProviderInfo(this.provider).setupHint,
+        });
+        continue;
+      }
+
+      this.invokeAgent(run).catch((err) => {
+        console.error('Failed to invoke agent:', err);
+        this.deliverResponse(groupId, `⚠️ Error: ${err instanceof Error ? err.message : String(err)}`);
       });
-      return;
     }
+  }
 
-    this.processing = true;
-    const msg = this.messageQueue.shift()!;
+  private async invokeAgent(run: PendingRun): Promise<void> {
+    const { groupId } = run;
+    this.setState(groupId, 'thinking');
+    this.router.setTyping(groupId, true);
+    this.events.emit('typing', { groupId, typing: true });
 
+    const start = { cancelled: false };
+    this.starting.set(groupId, start);
     try {
-      await this.invokeAgent(msg.groupId, msg.content);
-    } catch (err) {
-      console.error('Failed to invoke agent:', err);
+      await this.prepareAndInvoke(run, start);
     } finally {
-      this.processing = false;
-      // Process next in queue
-      if (this.messageQueue.length > 0) {
-        this.processQueue();
-      }
+      if (this.starting.get(groupId) === start) this.starting.delete(groupId);
     }
   }
 
-  private async invokeAgent(groupId: string, triggerContent: string): Promise<void> {
-    this.setState('thinking');
-    this.router.setTyping(groupId, true);
-    this.events.emit('typing', { groupId, typing: true });
+  private async prepareAndInvoke(run: PendingRun, start: { cancelled: boolean }): Promise<void> {
+    const { groupId, content: triggerContent, taskId } = run;
+    // Refuse the run outright once a budget is used up
+    const model = this.getModelInfo();
+    const early = await this.checkGroupBudgets(groupId);
+    if ('blocked' in early) {
+      await this.refuseOrWait(run, early);
+      return;
+    }
 
     // If this is a scheduled task, save the prompt as a user message so
     // it appears in conversation context and in the chat UI.
-    if (triggerContent.startsWith('[SCHEDULED TASK]')) {
-      this.pendingScheduledTasks.add(groupId);
+    if (taskId) {
+      this.pendingScheduledTasks.set(groupId, taskId);
+    }
+    if (taskId && !run.promptSaved) {
       const stored: StoredMessage = {
         id: ulid(),
         groupId,
@@ -452,32 +1272,180 @@ export class Orchestrator {
     // Load active skills
     const skills = await getEnabledSkills();
 
-    // Build conversation context
-    const messages = await buildConversationMessages(groupId, CONTEXT_WINDOW_SIZE);
+    // Build conversation context, newest first within the token budget
+    const { messages: history, mark } = await this.buildContext(groupId, model.vision);
+    this.contextMarks.set(groupId, mark);
 
     const systemPrompt = buildSystemPrompt(this.assistantName, memory, skills);
+    const thinking = this.getThinking(groupId);
+    const thinkingBudget = thinking.enabled && model.thinking ? thinking.budgetTokens : 0;
+    const settings = this.getProviderSettings();
+    const mcpTools = model.tools ? this.getMcpToolRoutes(groupId) : [];
+    const { messages, report } = fitContext(history, {
+      contextLimit: settings.contextLimit,
+      fill: this.contextFill,
+      reserve: settings.maxTokens + thinkingBudget,
+      systemPrompt,
+      tools: model.tools ? [...toolRegistry.definitions(), ...mcpTools.map((route) => route.definition)] : [],
+    });
+    this.events.emit('context-window', { groupId, ...report });
+
+    const records = await getUsageSince(periodStart('monthly'));
+
+    // Stopped while this was being prepared
+    if (start.cancelled) {
+      await this.handleCancelled(groupId, '');
+      return;
+    }
 
-    // Send to agent worker
-    this.agentWorker.postMessage({
+    // Checked again with what other runs hold now, and this run's first
+    // call held with no await between, so runs starting together see each other
+    const check = checkBudgets(this.budgets, groupId, records, this.heldSpend, model);
+    if ('blocked' in check) {
+      await this.refuseOrWait({ ...run, promptSaved: true }, check);
+      return;
+    }
+    this.holdNextCall(groupId, report.estimatedTokens, settings.maxTokens + thinkingBudget, model);
+
+    // Send to the group's agent worker
+    this.starting.delete(groupId);
+    this.postToWorker(groupId, {
       type: 'invoke',
       payload: {
         groupId,
         messages,
         systemPrompt,
-        provider: this.provider,
-        apiKey: this.apiKey,
-        ollamaUrl: this.ollamaUrl,
-        model: this.model,
-        maxTokens: this.maxTokens,
+        ...settings,
+        toolPolicies: resolveToolPolicies(this.toolPolicies, groupId, toolRegistry.defaultPolicies()),
+        javascriptNetwork: this.javascriptNetwork,
+        thinkingBudget,
+        toolUse: model.tools,
+        budget: check.budget,
+        maxIterations: this.getMaxIterations(groupId),
+        mcpTools,
+        toolPlugins: this.getToolPluginCode(),
       },
     });
   }
 
+  /**
+   * Answer a run its budgets block. Blocked only by what runs in other
+   * groups hold, it goes back to the front of its group's queue and waits
+   * for one of them to end; otherwise it is refused in the chat.
+   */
+  private async refuseOrWait(run: PendingRun, check: { blocked: string; held?: boolean }): Promise<void> {
+    const { groupId } = run;
+    if (!check.held) {
+      const what = run.taskId ? 'Scheduled task skipped' : 'Not run';
+      await this.deliverResponse(
+        groupId,
+        `⛔ ${what}: ${check.blocked} Budgets can be changed in Settings → Budgets.`,
+      );
+      return;
+    }
+    this.events.emit('thinking-log', {
+      groupId,
+      kind: 'info',
+      timestamp: Date.now(),
+      label: 'Waiting for budget',
+      detail: `${check.blocked} This run starts when one of them finishes.`,
+    });
+    this.budgetWaits.add(groupId);
+    this.queues.set(groupId, [run, ...(this.queues.get(groupId) ?? [])]);
+    this.pendingScheduledTasks.delete(groupId);
+    this.events.emit('typing', { groupId, typing: false });
+    this.router.setTyping(groupId, false);
+    this.setState(groupId, 'idle');
+  }
+
+  /**
+   * Hold what a group's next model call may cost against the budgets: its
+   * input, estimated, plus as much output as it may write.
+   */
+  private holdNextCall(groupId: string, inputTokens: number, maxOutput: number, prices: ModelPrices): void {
+    const estimate = { inputTokens, outputTokens: maxOutput, cacheReadTokens: 0, cacheCreationTokens: 0 };
+    this.heldSpend.set(groupId, {
+      tokens: usageTokens(estimate),
+      cost: estimateCost(estimate, prices),
+      maxOutput,
+    });
+  }
+
+  /**
+   * Check a group's budgets against this month's recorded usage and what
+   * other groups' runs in progress still hold.
+   */
+  private async checkGroupBudgets(groupId: string): Promise<ReturnType<typeof checkBudgets>> {
+    const records = await getUsageSince(periodStart('monthly'));
+    // Whatever the group held before is done: it is starting something new
+    this.heldSpend.delete(groupId);
+    return checkBudgets(this.budgets, groupId, records, this.heldSpend, this.getModelInfo());
+  }
+
+  /**
+   * Conversation context for a run or compaction: the group's saved session
+   * transcript plus the messages stored since, or the recent stored messages
+   * when there is no session yet. `mark` identifies the newest stored
+   * messages included, for the session saved when the run completes.
+   * Images are left out (but still named) for models without vision.
+   */
+  private async buildContext(
+    groupId: string,
+    vision: boolean,
+  ): Promise<{ messages: ConversationMessage[]; mark: ContextMark }> {
+    const maxImages = vision ? MAX_CONTEXT_IMAGES : 0;
+    const session = await getSession(groupId);
+    if (!session) {
+      const stored = await getRecentMessages(groupId, CONTEXT_MAX_MESSAGES);
+      return {
+        messages: await buildConversationMessages(groupId, stored, maxImages),
+        mark: contextMark(stored),
+      };
+    }
+
+    // Timestamps can tie (Telegram's are in whole seconds), so the query
+    // includes the session's own timestamp and skips what it already covers
+    const since = await getMessagesSince(groupId, session.updatedAt, CONTEXT_MAX_MESSAGES);
+    const covered = new Set(session.coveredIds);
+    const newer = since.filter((m) => !covered.has(m.id));
+    // Assistant messages stored since are either the reply that ends the
+    // transcript or error and stop notices, which the model doesn't need
+    const userMessages = newer.filter((m) => !m.isFromMe);
+    return {
+      messages: trimTranscript(
+        [...session.messages, ...(await buildConversationMessages(groupId, userMessages, maxImages))],
+        maxImages,
+      ),
+      mark: contextMark(newer, { timestamp: session.updatedAt, ids: session.coveredIds }),
+    };
+  }
+
+  private async saveTranscript(groupId: string, transcript: ConversationMessage[]): Promise<void> {
+    const mark = this.contextMarks.get(groupId);
+    this.contextMarks.delete(groupId);
+    if (!mark) return;
+    await saveSession({
+      groupId,
+      messages: trimTranscript(transcript),
+      updatedAt: mark.timestamp,
+      coveredIds: mark.ids,
+    });
+  }
+
   private async handleWorkerMessage(msg: WorkerOutbound): Promise<void> {
     switch (msg.type) {
       case 'response': {
-        const { groupId, text } = msg.payload;
-        await this.deliverResponse(groupId, text);
+        const { groupId, text, reasoning, transcript } = msg.payload;
+        if (transcript) await this.saveTranscript(groupId, transcript);
+        await this.deliverResponse(groupId, text, reasoning);
+        break;
+      }
+
+      case 'stream-delta': {
+        if (this.getState(msg.payload.groupId) === 'thinking') {
+          this.setState(msg.payload.groupId, 'responding');
+        }
+        this.events.emit('stream-delta', msg.payload);
         break;
       }
 
@@ -493,6 +1461,8 @@ export class Orchestrator {
 
       case 'error': {
         const { groupId, error } = msg.payload;
+        // A failed compaction leaves the history as it was
+        this.pendingCompactions.delete(groupId);
         await this.deliverResponse(groupId, `⚠️ Error: ${error}`);
         break;
       }
@@ -519,36 +1489,172 @@ export class Orchestrator {
         break;
       }
 
+      case 'cancelled': {
+        await this.handleCancelled(msg.payload.groupId, msg.payload.partialText);
+        break;
+      }
+
       case 'token-usage': {
-        this.events.emit('token-usage', msg.payload);
+        const usage = msg.payload;
+        await this.recordUsage(usage);
+        // The context bar and auto-compaction follow the conversation only
+        if (usage.purpose === 'agent') {
+          this.events.emit('token-usage', usage);
+          this.checkAutoCompaction(usage);
+        }
+        break;
+      }
+
+      case 'approval-request': {
+        await this.handleApprovalRequest(msg.payload);
         break;
       }
     }
   }
 
+  /**
+   * Store a model call's usage with its estimated cost for the usage
+   * dashboard. A failed write is logged, never surfaced to the chat.
+   */
+  private async recordUsage(usage: TokenUsage): Promise<void> {
+    const { groupId, provider, model, purpose } = usage;
+    const record: UsageRecord = {
+      id: ulid(),
+      timestamp: Date.now(),
+      groupId,
+      provider,
+      model,
+      purpose,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      cacheReadTokens: usage.cacheReadTokens,
+      cacheCreationTokens: usage.cacheCreationTokens,
+      cost: estimateCost(usage, this.getModelInfo(model, provider)),
+    };
+    const taskId = this.pendingScheduledTasks.get(groupId);
+    if (taskId) record.taskId = taskId;
+    try {
+      await saveUsage(record);
+      this.events.emit('usage-recorded', record);
+    } catch (err) {
+      console.error('Failed to record usage:', err);
+    }
+    // Recorded now; hold the next call instead, which sends all of this call's context again
+    const held = this.heldSpend.get(groupId);
+    if (held) {
+      this.holdNextCall(groupId, usedContextTokens(usage), held.maxOutput, this.getModelInfo(model, provider));
+    }
+  }
+
+  /**
+   * Flag a group for compaction once a request has used more of the context
+   * window than the auto-compaction threshold. It runs after the reply is
+   * delivered, before any queued run for the group; see deliverResponse.
+   */
+  private checkAutoCompaction(usage: TokenUsage): void {
+    if (this.autoCompactThreshold <= 0 || this.pendingCompactions.has(usage.groupId)) return;
+    const percent = (usedContextTokens(usage) / usage.contextLimit) * 100;
+    if (percent >= this.autoCompactThreshold) this.compactionDue.add(usage.groupId);
+  }
+
+  private async handleApprovalRequest(request: ApprovalRequest): Promise<void> {
+    if (request.policy === 'deny') {
+      await this.settleApproval(request, false, 'policy');
+      return;
+    }
+
+    this.pendingApprovals.set(request.id, request);
+    this.events.emit('approval-request', request);
+    try {
+      await this.router.requestApproval(request);
+    } catch (err) {
+      console.error('Failed to send approval request:', err);
+    }
+  }
+
+  /**
+   * Record a decision, tell the worker, and close the prompt everywhere
+   * it was shown.
+   */
+  private async settleApproval(
+    request: ApprovalRequest,
+    approved: boolean,
+    decidedBy: ApprovalLogEntry['decidedBy'],
+  ): Promise<void> {
+    this.pendingApprovals.delete(request.id);
+    const { id, groupId, tool, input } = request;
+
+    if (decidedBy !== 'cancelled') {
+      this.postToWorker(groupId, { type: 'approval-response', payload: { id, groupId, approved } });
+    }
+
+    const entry: ApprovalLogEntry = {
+      id,
+      groupId,
+      tool,
+      input,
+      approved,
+      decidedBy,
+      timestamp: Date.now(),
+    };
+    this.events.emit('approval-resolved', entry);
+    if (request.policy === 'ask') {
+      this.router.closeApproval(entry);
+    }
+    try {
+      await saveApproval(entry);
+    } catch (err) {
+      console.error('Failed to log approval:', err);
+    }
+  }
+
   private async handleCompactDone(groupId: string, summary: string): Promise<void> {
-    // Clear old messages
-    await clearGroupMessages(groupId);
+    const pending = this.pendingCompactions.get(groupId);
+    this.pendingCompactions.delete(groupId);
+    if (!pending) return;
+
+    // Move the summarized messages to the archive; the transcript covering
+    // them is replaced by the summary too
+    await archiveMessages(pending.id, pending.messages);
+    await deleteSession(groupId);
 
-    // Save the summary as a system-style message from the assistant
+    // Save the summary as a system-style message from the assistant, placed
+    // where the archived messages were
     const stored: StoredMessage = {
       id: ulid(),
       groupId,
       sender: this.assistantName,
       content: `📝 **Context Compacted**\n\n${summary}`,
-      timestamp: Date.now(),
+      timestamp: pending.messages[pending.messages.length - 1].timestamp,
       channel: groupId.startsWith('tg:') ? 'telegram' : 'browser',
       isFromMe: true,
       isTrigger: false,
+      compaction: { id: pending.id, archivedCount: pending.messages.length },
     };
     await saveMessage(stored);
 
     this.events.emit('context-compacted', { groupId, summary });
     this.events.emit('typing', { groupId, typing: false });
-    this.setState('idle');
+    this.setState(groupId, 'idle');
+  }
+
+  private async handleCancelled(groupId: string, partialText: string): Promise<void> {
+    this.pendingScheduledTasks.delete(groupId);
+    this.compactionDue.delete(groupId);
+    this.pendingCompactions.delete(groupId);
+
+    // Keep whatever the model had already written, marked as stopped
+    if (partialText) {
+      await this.deliverResponse(groupId, `${partialText}\n\n_⏹ Stopped_`);
+      return;
+    }
+
+    this.events.emit('typing', { groupId, typing: false });
+    this.setState(groupId, 'idle');
+    this.router.setTyping(groupId, false);
   }
 
-  private async deliverResponse(groupId: string, text: string): Promise<void> {
+  private async deliverResponse(groupId: string, text: string, reasoning?: string): Promise<void> {
     // Save to DB
     const stored: StoredMessage = {
       id: ulid(),
@@ -559,6 +1665,7 @@ export class Orchestrator {
       channel: groupId.startsWith('tg:') ? 'telegram' : 'browser',
       isFromMe: true,
       isTrigger: false,
+      ...(reasoning ? { reasoning } : {}),
     };
     await saveMessage(stored);
 
@@ -574,12 +1681,33 @@ export class Orchestrator {
     // Emit for UI
     this.events.emit('message', stored);
     this.events.emit('typing', { groupId, typing: false });
-
-    this.setState('idle');
     this.router.setTyping(groupId, false);
+
+    // Compact before going idle, so queued messages wait for the summary
+    if (this.compactionDue.delete(groupId)) {
+      this.setState(groupId, 'thinking');
+      this.events.emit('typing', { groupId, typing: true });
+      await this.startCompaction(groupId, true);
+      return;
+    }
+
+    this.setState(groupId, 'idle');
   }
 }
 
+// ---------------------------------------------------------------------------
+// Context marks
+// ---------------------------------------------------------------------------
+
+function contextMark(messages: StoredMessage[], previous?: ContextMark): ContextMark {
+  const timestamp = Math.max(previous?.timestamp ?? 0, ...messages.map((m) => m.timestamp));
+  const ids = messages.filter((m) => m.timestamp === timestamp).map((m) => m.id);
+  return {
+    timestamp,
+    ids: previous?.timestamp === timestamp ? [...previous.ids, ...ids] : ids,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // System prompt builder
 // ---------------------------------------------------------------------------
@@ -589,16 +1717,12 @@ function buildSystemPrompt(assistantName: string, memory: string, skills: Skill[
     `You are ${assistantName}, a personal AI assistant running in the user's browser.`,
     '',
     'You have access to the following tools:',
-    '- **bash**: Execute commands in a sandboxed Linux VM (Alpine). Use for scripts, text processing, package installation.',
-    '- **javascript**: Execute JavaScript code. Lighter than bash — no VM boot needed. Use for calculations, data transforms.',
-    '- **read_file** / **write_file** / **list_files**: Manage files in the group workspace (persisted in browser storage).',
-    '- **fetch_url**: Make HTTP requests (subject to CORS).',
-    '- **update_memory**: Persist important context to CLAUDE.md — loaded on every conversation.',
-    '- **create_task**: Schedule recurring tasks with cron expressions.',
+    ...toolRegistry.promptLines(),
     '',
     'Guidelines:',
     '- Be concise and direct.',
     '- Use tools proactively when they help answer the question.',
+    `- Request independent reads (${toolRegistry.readOnlyToolNames().join(', ')}) in the same turn; they run in parallel.`,
     '- Update memory when you learn important preferences or context.',
     '- For scheduled tasks, confirm the schedule with the user.',
     '- Strip <internal> tags from your responses — they are for your internal reasoning only.',
@@ -0,0 +1,176 @@
+// ---------------------------------------------------------------------------
+// browclaw — Anthropic Messages API provider
+// ---------------------------------------------------------------------------
+
+import type {
+  ContentBlock,
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  ModelUsage,
+  ProviderSettings,
+  TextStreamer,
+} from '../types.js';
+import { ANTHROPIC_API_VERSION } from '../config.js';
+import { readSSE } from '../sse.js';
+import { getProviderInfo } from './registry.js';
+import { ModelApiError, apiErrorFromResponse } from './retry.js';
+
+export class AnthropicProvider implements ModelProvider {
+  readonly id = 'anthropic' as const;
+
+  constructor(private settings: ProviderSettings) {}
+
+  async complete(request: ModelRequest): Promise<ModelResponse> {
+    const { model, apiKey, baseUrl } = this.settings;
+    const thinkingBudget = request.thinkingBudget ?? 0;
+
+    const body = {
+      model,
+      // The thinking budget counts towards max_tokens, so add it on top to
+      // leave the configured amount for the visible reply
+      max_tokens: request.maxTokens + thinkingBudget,
+      cache_control: { type: 'ephemeral' },
+      system: request.systemPrompt,
+      messages: request.messages,
+      tools: request.tools.length > 0 ? request.tools : undefined,
+      thinking: thinkingBudget > 0
+        ? { type: 'enabled', budget_tokens: thinkingBudget }
+        : undefined,
+      stream: true,
+    };
+
+    const res = await fetch(getProviderInfo(this.id).endpoint(baseUrl), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION,
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+
+    if (!res.ok) throw await apiErrorFromResponse('Anthropic', res);
+
+    // Stream text deltas to the UI while assembling the full message
+    return readAnthropicStream(res, request.streamer);
+  }
+}
+
+/** HTTP statuses of the stream error types worth retrying */
+const STREAM_ERROR_STATUS: Record<string, number> = {
+  overloaded_error: 529,
+  rate_limit_error: 429,
+  api_error: 500,
+};
+
+/**
+ * Read an Anthropic Messages API event stream. Text deltas are forwarded
+ * as they arrive; tool_use inputs arrive as partial JSON and are parsed
+ * once their block closes, so the caller gets the same shape as a
+ * non-streaming response. Thinking blocks keep their signature so they
+ * can be sent back unchanged during the tool-use loop.
+ */
+async function readAnthropicStream(
+  res: Response,
+  streamer?: TextStreamer,
+): Promise<ModelResponse> {
+  const content: ContentBlock[] = [];
+  const partialJson = new Map<number, string>();
+  let stopReason: string | null = null;
+  let usage: Record<string, number> | null = null;
+  // Whether any reply text has reached the UI
+  let streamed = false;
+
+  for await (const { data } of readSSE(res)) {
+    const event = JSON.parse(data);
+
+    switch (event.type) {
+      case 'message_start':
+        usage = { ...event.message.usage };
+        break;
+
+      case 'content_block_start': {
+        const block = event.content_block;
+        if (block.type === 'text') {
+          streamer?.nextBlock();
+          content[event.index] = { type: 'text', text: block.text || '' };
+          streamer?.push(block.text || '');
+          streamed ||= !!block.text;
+        } else if (block.type === 'tool_use') {
+          content[event.index] = { type: 'tool_use', id: block.id, name: block.name, input: {} };
+          partialJson.set(event.index, '');
+        } else if (block.type === 'thinking') {
+          content[event.index] = {
+            type: 'thinking',
+            thinking: block.thinking || '',
+            signature: block.signature || '',
+          };
+        } else {
+          content[event.index] = block;
+        }
+        break;
+      }
+
+      case 'content_block_delta': {
+        const block = content[event.index];
+        if (event.delta.type === 'text_delta' && block?.type === 'text') {
+          block.text += event.delta.text;
+          streamer?.push(event.delta.text);
+          streamed ||= !!event.delta.text;
+        } else if (event.delta.type === 'input_json_delta') {
+          partialJson.set(event.index, (partialJson.get(event.index) || '') + event.delta.partial_json);
+        } else if (event.delta.type === 'thinking_delta' && block?.type === 'thinking') {
+          block.thinking += event.delta.thinking;
+        } else if (event.delta.type === 'signature_delta' && block?.type === 'thinking') {
+          block.signature += event.delta.signature;
+        }
+        break;
+      }
+
+      case 'content_block_stop': {
+        const block = content[event.index];
+        const json = partialJson.get(event.index);
+        if (block?.type === 'tool_use' && json) {
+          try {
+            block.input = JSON.parse(json);
+          } catch {
+            // Malformed tool input — leave as empty object
+          }
+        }
+        break;
+      }
+
+      case 'message_delta':
+        stopReason = event.delta.stop_reason ?? stopReason;
+        if (event.usage) usage = { ...(usage ?? {}), ...event.usage };
+        break;
+
+      case 'error': {
+        // Overload usually shows up here, after a 200. Retryable like the
+        // HTTP error it stands for, as long as nothing is on screen yet.
+        const message = `Anthropic API error: ${event.error?.message || data}`;
+        const status = STREAM_ERROR_STATUS[event.error?.type];
+        if (status && !streamed) throw new ModelApiError(message, status);
+        throw new Error(message);
+      }
+    }
+  }
+
+  return {
+    content: content.filter(Boolean),
+    stopReason,
+    usage: usage ? toModelUsage(usage) : null,
+  };
+}
+
+function toModelUsage(usage: Record<string, number>): ModelUsage {
+  return {
+    inputTokens: usage.input_tokens || 0,
+    outputTokens: usage.output_tokens || 0,
+    cacheReadTokens: usage.cache_read_input_tokens || 0,
+    cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+  };
+}
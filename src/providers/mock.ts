@@ -0,0 +1,158 @@
+// ---------------------------------------------------------------------------
+// browclaw — Scripted mock provider
+// ---------------------------------------------------------------------------
+//
+// Replays canned model turns from a JSON fixture so the tool-use loop,
+// iteration limits and compaction can be exercised end-to-end without a
+// model server. The fixture URL is configured in Settings (the provider's
+// "base URL"); fixtures under public/fixtures/ are served by Vite.
+//
+// Fixture format:
+//
+//   {
+//     "turns": [
+//       { "text": "Let me check.", "toolCalls": [{ "name": "list_files", "input": {} }] },
+//       { "text": "There are no files yet." }
+//     ],
+//     "onExhausted": "repeat-last",
+//     "summary": "Summary returned for compaction requests."
+//   }
+//
+// Each model call consumes the next turn. A turn with toolCalls ends with
+// stop reason 'tool_use', so the agent loop executes the tools for real
+// and calls the provider again. A turn with `error` fails the call with
+// that HTTP status instead, e.g. { "error": { "status": 529 } } to
+// exercise retries.
+
+import type {
+  ContentBlock,
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  ModelUsage,
+  ProviderSettings,
+} from '../types.js';
+import { ModelApiError } from './retry.js';
+
+export interface MockTurn {
+  /** Returned as a thinking block ahead of the text */
+  thinking?: string;
+  text?: string;
+  toolCalls?: { name: string; input?: Record<string, unknown> }[];
+  /** Reported usage; missing counts are estimated from text length */
+  usage?: Partial<ModelUsage>;
+  /** Fail this call as if the API returned the given status */
+  error?: { status: number; message?: string; retryAfterSeconds?: number };
+}
+
+export interface MockFixture {
+  turns: MockTurn[];
+  /**
+   * What to do once every turn has been replayed: keep replaying the last
+   * turn (useful for hitting the iteration limit) or fail the call.
+   * Defaults to 'error'.
+   */
+  onExhausted?: 'repeat-last' | 'error';
+  /** Returned for compaction requests (calls made without tools) */
+  summary?: string;
+}
+
+/**
+ * Serves one agent run. The fixture is loaded on first use and turns are
+ * consumed in order, so each run replays the script from the start.
+ */
+export class MockProvider implements ModelProvider {
+  readonly id = 'mock' as const;
+  private fixture: Promise<MockFixture> | null = null;
+  private calls = 0;
+  private turnIndex = 0;
+
+  constructor(private settings: ProviderSettings) {}
+
+  async complete(request: ModelRequest): Promise<ModelResponse> {
+    const fixture = await this.loadFixture(request.signal);
+    const call = ++this.calls;
+
+    // Compaction asks for a plain summary with no tools available
+    const turn: MockTurn =
+      request.tools.length === 0 && fixture.summary !== undefined
+        ? { text: fixture.summary }
+        : this.nextTurn(fixture);
+
+    if (turn.error) {
+      const { status, message, retryAfterSeconds } = turn.error;
+      throw new ModelApiError(
+        `Mock API error ${status}: ${message || 'scripted failure'}`,
+        status,
+        retryAfterSeconds !== undefined ? retryAfterSeconds * 1000 : null,
+      );
+    }
+
+    const content: ContentBlock[] = [];
+    if (turn.thinking) {
+      content.push({ type: 'thinking', thinking: turn.thinking, signature: 'mock' });
+    }
+    if (turn.text) {
+      request.streamer?.nextBlock();
+      await streamWords(turn.text, request);
+      content.push({ type: 'text', text: turn.text });
+    }
+    (turn.toolCalls || []).forEach((tc, i) => {
+      content.push({
+        type: 'tool_use',
+        id: `mock_${call}_${i}`,
+        name: tc.name,
+        input: tc.input || {},
+      });
+    });
+
+    const promptChars = request.systemPrompt.length + JSON.stringify(request.messages).length;
+    return {
+      content,
+      stopReason: content.some((b) => b.type === 'tool_use') ? 'tool_use' : 'end_turn',
+      usage: {
+        inputTokens: Math.ceil(promptChars / 4),
+        outputTokens: Math.ceil((turn.text || '').length / 4),
+        cacheReadTokens: 0,
+        cacheCreationTokens: 0,
+        ...turn.usage,
+      },
+    };
+  }
+
+  private nextTurn(fixture: MockFixture): MockTurn {
+    const index = this.turnIndex++;
+    if (index < fixture.turns.length) return fixture.turns[index];
+    if (fixture.onExhausted === 'repeat-last' && fixture.turns.length > 0) {
+      return fixture.turns[fixture.turns.length - 1];
+    }
+    throw new Error(`Mock fixture exhausted after ${fixture.turns.length} turns`);
+  }
+
+  private loadFixture(signal: AbortSignal): Promise<MockFixture> {
+    this.fixture ??= fetchFixture(this.settings.baseUrl, signal);
+    return this.fixture;
+  }
+}
+
+async function fetchFixture(url: string, signal: AbortSignal): Promise<MockFixture> {
+  const res = await fetch(url, { signal });
+  if (!res.ok) {
+    throw new Error(`Mock fixture ${url} could not be loaded (HTTP ${res.status})`);
+  }
+  const fixture = (await res.json()) as MockFixture;
+  if (!Array.isArray(fixture.turns)) {
+    throw new Error(`Mock fixture ${url} has no "turns" array`);
+  }
+  return fixture;
+}
+
+/** Stream text a word at a time so the UI behaves as with a real model. */
+async function streamWords(text: string, request: ModelRequest): Promise<void> {
+  for (const word of text.split(/(?<=\s)/)) {
+    request.signal.throwIfAborted();
+    request.streamer?.push(word);
+    // Yield so cancel messages can be handled between words
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+}
@@ -0,0 +1,164 @@
+// ---------------------------------------------------------------------------
+// browclaw — Model metadata registry
+// ---------------------------------------------------------------------------
+//
+// What browclaw knows about each model: its context window and output
+// limit, which features it supports and what it costs. Built-in entries
+// cover the models offered in Settings; other models start from their
+// provider's defaults. For Ollama, the context size the server actually
+// runs a model with is discovered from /api/show. User overrides, edited
+// in Settings, win over everything else.
+
+import type { ModelInfo, ModelOverrides, ProviderId } from '../types.js';
+import { getProviderInfo } from './registry.js';
+
+export interface ModelEntry extends ModelInfo {
+  id: string;
+  provider: ProviderId;
+  label: string;
+}
+
+/** Cache writes are priced for the default 5-minute cache lifetime */
+export const BUILTIN_MODELS: ModelEntry[] = [
+  {
+    id: 'claude-opus-4-6',
+    provider: 'anthropic',
+    label: 'Claude Opus 4.6',
+    contextLimit: 200_000,
+    maxOutputTokens: 128_000,
+    vision: true,
+    thinking: true,
+    tools: true,
+    inputPrice: 5,
+    outputPrice: 25,
+    cacheReadPrice: 0.5,
+    cacheWritePrice: 6.25,
+  },
+  {
+    id: 'claude-sonnet-4-6',
+    provider: 'anthropic',
+    label: 'Claude Sonnet 4.6',
+    contextLimit: 200_000,
+    maxOutputTokens: 64_000,
+    vision: true,
+    thinking: true,
+    tools: true,
+    inputPrice: 3,
+    outputPrice: 15,
+    cacheReadPrice: 0.3,
+    cacheWritePrice: 3.75,
+  },
+  {
+    id: 'claude-haiku-4-5-20251001',
+    provider: 'anthropic',
+    label: 'Claude Haiku 4.5',
+    contextLimit: 200_000,
+    maxOutputTokens: 64_000,
+    vision: true,
+    thinking: true,
+    tools: true,
+    inputPrice: 1,
+    outputPrice: 5,
+    cacheReadPrice: 0.1,
+    cacheWritePrice: 1.25,
+  },
+];
+
+export function getBuiltinModels(provider: ProviderId): ModelEntry[] {
+  return BUILTIN_MODELS.filter((m) => m.provider === provider);
+}
+
+/**
+ * Metadata for a model: provider defaults, then the built-in entry, then
+ * anything discovered from the server, then the user's overrides.
+ */
+export function resolveModelInfo(
+  provider: ProviderId,
+  model: string,
+  overrides: ModelOverrides,
+  discovered: Partial<ModelInfo> = {},
+): ModelInfo {
+  const builtin = BUILTIN_MODELS.find((m) => m.provider === provider && m.id === model);
+  const info: ModelInfo = { ...getProviderInfo(provider).modelDefaults };
+  if (builtin) {
+    const { id: _id, provider: _provider, label: _label, ...known } = builtin;
+    Object.assign(info, known);
+  }
+  return { ...info, ...discovered, ...overrides[model] };
+}
+
+/**
+ * Parse overrides stored in config, tolerating missing or malformed JSON.
+ */
+export function parseModelOverrides(raw: string | undefined): ModelOverrides {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Return a copy of `overrides` with one model's entry replaced. Passing
+ * `null` removes the entry, restoring the built-in or discovered values.
+ */
+export function withModelOverride(
+  overrides: ModelOverrides,
+  model: string,
+  override: Partial<ModelInfo> | null,
+): ModelOverrides {
+  const next = { ...overrides };
+  if (override && Object.keys(override).length > 0) next[model] = override;
+  else delete next[model];
+  return next;
+}
+
+/** Subset of Ollama's /api/show response used here */
+interface OllamaShowResponse {
+  /** Modelfile parameters, one "name value" pair per line */
+  parameters?: string;
+  /** Architecture details; the trained context is "<arch>.context_length" */
+  model_info?: Record<string, unknown>;
+  /** Present on newer servers, e.g. ["completion", "vision", "tools"] */
+  capabilities?: string[];
+}
+
+/**
+ * Ask an Ollama server how it runs a model. The context is the model's
+ * num_ctx parameter when it sets one, otherwise the server default (capped
+ * at what the model was trained on).
+ */
+export async function discoverOllamaModel(
+  baseUrl: string,
+  model: string,
+): Promise<Partial<ModelInfo>> {
+  const res = await fetch(`${baseUrl.trim().replace(/\/+$/, '')}/api/show`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model }),
+  });
+  if (!res.ok) {
+    throw new Error(`Ollama /api/show failed for ${model}: ${res.status} ${res.statusText}`);
+  }
+  const show: OllamaShowResponse = await res.json();
+
+  const discovered: Partial<ModelInfo> = {};
+  const numCtx = /^num_ctx\s+(\d+)/m.exec(show.parameters ?? '');
+  const trained = Object.entries(show.model_info ?? {}).find(([key]) =>
+    key.endsWith('.context_length'),
+  )?.[1];
+  if (numCtx) {
+    discovered.contextLimit = parseInt(numCtx[1], 10);
+  } else if (typeof trained === 'number') {
+    discovered.contextLimit = Math.min(trained, getProviderInfo('ollama').modelDefaults.contextLimit);
+  }
+  if (discovered.contextLimit) discovered.maxOutputTokens = discovered.contextLimit;
+
+  if (show.capabilities) {
+    discovered.vision = show.capabilities.includes('vision');
+    discovered.tools = show.capabilities.includes('tools');
+  }
+  return discovered;
+}
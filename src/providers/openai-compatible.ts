@@ -0,0 +1,242 @@
+// ---------------------------------------------------------------------------
+// browclaw — OpenAI-compatible chat completions provider
+// ---------------------------------------------------------------------------
+//
+// Used for Ollama and any other server speaking /v1/chat/completions.
+// The agent loop works in the canonical (Anthropic-style) format, so this
+// provider translates tool_use / tool_result blocks to OpenAI tool_calls
+// and `tool` messages on the way out, and back again on the way in.
+
+import type {
+  ContentBlock,
+  ConversationMessage,
+  ModelProvider,
+  ModelRequest,
+  ModelResponse,
+  ProviderSettings,
+  ToolDefinition,
+} from '../types.js';
+import { readSSE } from '../sse.js';
+import { ulid } from '../ulid.js';
+import { getProviderInfo, buildOpenAIHeaders } from './registry.js';
+import { apiErrorFromResponse } from './retry.js';
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+type OpenAIMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | OpenAIContentPart[] }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; name?: string; content: string };
+
+export class OpenAICompatibleProvider implements ModelProvider {
+  constructor(private settings: ProviderSettings) {}
+
+  get id() {
+    return this.settings.provider;
+  }
+
+  async complete(request: ModelRequest): Promise<ModelResponse> {
+    const provider = getProviderInfo(this.settings.provider);
+
+    const body = {
+      model: this.settings.model,
+      messages: toOpenAIMessages(request.systemPrompt, request.messages),
+      tools: request.tools.length > 0 ? toOpenAITools(request.tools) : undefined,
+      max_tokens: request.maxTokens,
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+
+    const res = await fetch(provider.endpoint(this.settings.baseUrl), {
+      method: 'POST',
+      headers: buildOpenAIHeaders(this.settings),
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+
+    if (!res.ok) throw await apiErrorFromResponse(provider.label, res);
+
+    request.streamer?.nextBlock();
+    return readOpenAIStream(res, (text) => request.streamer?.push(text));
+  }
+}
+
+function toOpenAITools(tools: ToolDefinition[]) {
+  return tools.map((t) => ({
+    type: 'function',
+    function: {
+      name: t.name,
+      description: t.description,
+      parameters: t.input_schema,
+    },
+  }));
+}
+
+/**
+ * Convert canonical conversation messages to OpenAI chat messages.
+ * Assistant tool_use blocks become `tool_calls`; user tool_result blocks
+ * become one `tool` message each, and image blocks become data-URL
+ * `image_url` parts.
+ */
+function toOpenAIMessages(
+  systemPrompt: string,
+  messages: ConversationMessage[],
+): OpenAIMessage[] {
+  const out: OpenAIMessage[] = [];
+  const toolNames = new Map<string, string>();
+  if (systemPrompt) {
+    out.push({ role: 'system', content: systemPrompt });
+  }
+
+  for (const m of messages) {
+    if (typeof m.content === 'string') {
+      out.push({ role: m.role, content: m.content });
+      continue;
+    }
+
+    const text = m.content
+      .filter((b): b is Extract<ContentBlock, { type: 'text' }> => b.type === 'text')
+      .map((b) => b.text)
+      .join('');
+
+    if (m.role === 'assistant') {
+      const toolCalls: OpenAIToolCall[] = [];
+      for (const b of m.content) {
+        if (b.type !== 'tool_use') continue;
+        toolNames.set(b.id, b.name);
+        toolCalls.push({
+          id: b.id,
+          type: 'function',
+          function: { name: b.name, arguments: JSON.stringify(b.input) },
+        });
+      }
+      out.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    for (const b of m.content) {
+      if (b.type === 'tool_result') {
+        out.push({
+          role: 'tool',
+          tool_call_id: b.tool_use_id,
+          name: toolNames.get(b.tool_use_id),
+          content: b.content,
+        });
+      }
+    }
+
+    const images: OpenAIContentPart[] = [];
+    for (const b of m.content) {
+      if (b.type !== 'image') continue;
+      images.push({
+        type: 'image_url',
+        image_url: { url: `data:${b.source.media_type};base64,${b.source.data}` },
+      });
+    }
+    if (images.length > 0) {
+      out.push({ role: 'user', content: [...images, ...(text ? [{ type: 'text' as const, text }] : [])] });
+    } else if (text) {
+      out.push({ role: 'user', content: text });
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Read an OpenAI-compatible chat completions stream. Tool call fragments
+ * are keyed by index and concatenated until the stream ends, then turned
+ * into canonical tool_use blocks. Reasoning that servers such as Ollama
+ * return alongside the answer becomes an (unsigned) thinking block.
+ */
+async function readOpenAIStream(
+  res: Response,
+  onText: (text: string) => void,
+): Promise<ModelResponse> {
+  let text = '';
+  let reasoning = '';
+  const toolCalls: OpenAIToolCall[] = [];
+  let finishReason: string | null = null;
+  let usage: { prompt_tokens?: number; completion_tokens?: number } | null = null;
+
+  for await (const { data } of readSSE(res)) {
+    if (data === '[DONE]') break;
+    const chunk = JSON.parse(data);
+    if (chunk.error) {
+      throw new Error(`API error: ${chunk.error.message || data}`);
+    }
+    if (chunk.usage) usage = chunk.usage;
+
+    const choice = chunk.choices?.[0];
+    if (!choice) continue;
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+
+    const delta = choice.delta || {};
+    // DeepSeek and vLLM use reasoning_content; Ollama uses reasoning
+    const reasoningDelta = delta.reasoning_content ?? delta.reasoning;
+    if (reasoningDelta) reasoning += reasoningDelta;
+    if (delta.content) {
+      text += delta.content;
+      onText(delta.content);
+    }
+    for (const tc of delta.tool_calls || []) {
+      const idx = tc.index ?? toolCalls.length;
+      const existing = toolCalls[idx] ||= {
+        id: '',
+        type: 'function',
+        function: { name: '', arguments: '' },
+      };
+      if (tc.id) existing.id = tc.id;
+      if (tc.function?.name) existing.function.name += tc.function.name;
+      if (tc.function?.arguments) existing.function.arguments += tc.function.arguments;
+    }
+  }
+
+  const content: ContentBlock[] = [];
+  if (reasoning) content.push({ type: 'thinking', thinking: reasoning, signature: '' });
+  if (text) content.push({ type: 'text', text });
+  for (const tc of toolCalls.filter(Boolean)) {
+    let input: Record<string, unknown> = {};
+    try {
+      input = JSON.parse(tc.function.arguments || '{}');
+    } catch {
+      // ignore JSON parse errors and pass empty object
+    }
+    content.push({
+      type: 'tool_use',
+      // Some local servers omit call ids; the loop needs one to pair results
+      id: tc.id || `call_${ulid()}`,
+      name: tc.function.name,
+      input,
+    });
+  }
+
+  // Ollama often reports finish_reason "stop" even when it made tool calls
+  const hasToolCalls = content.some((b) => b.type === 'tool_use');
+
+  return {
+    content,
+    stopReason: hasToolCalls ? 'tool_use' : finishReason,
+    usage: usage
+      ? {
+          inputTokens: usage.prompt_tokens || 0,
+          outputTokens: usage.completion_tokens || 0,
+          cacheReadTokens: 0,
+          cacheCreationTokens: 0,
+        }
+      : null,
+  };
+}
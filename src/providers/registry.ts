@@ -0,0 +1,170 @@
+// ---------------------------------------------------------------------------
+// browclaw — Model provider registry
+// ---------------------------------------------------------------------------
+//
+// Describes every supported model provider: how to reach it, how it expects
+// tools to be declared, and what to assume about models it serves that the
+// model registry (models.ts) doesn't know. Shared by the main thread
+// (settings, orchestrator) and the agent worker (request building).
+
+import type { ProviderId, InvokePayload, ModelInfo } from '../types.js';
+import { ANTHROPIC_API_URL, DEFAULT_MODEL, DEFAULT_OLLAMA_URL } from '../config.js';
+
+/** Wire format a provider uses for messages and tool calls */
+export type ToolFormat = 'anthropic' | 'openai';
+
+export interface ProviderInfo {
+  id: ProviderId;
+  label: string;
+  /** Message / tool-calling dialect spoken by the API */
+  toolFormat: ToolFormat;
+  /** Metadata assumed for models the registry doesn't know */
+  modelDefaults: ModelInfo;
+  /** Base URL used when none is configured */
+  defaultBaseUrl: string;
+  /** Model preselected when switching to this provider ('' = user must enter one) */
+  defaultModel: string;
+  /** Whether the provider refuses requests without an API key */
+  requiresApiKey: boolean;
+  /** Build the full request URL from the configured base URL */
+  endpoint: (baseUrl: string) => string;
+  /** Shown when the provider is selected but not configured */
+  setupHint: string;
+}
+
+export const PROVIDERS: Record<ProviderId, ProviderInfo> = {
+  anthropic: {
+    id: 'anthropic',
+    label: 'Anthropic (Claude)',
+    toolFormat: 'anthropic',
+    modelDefaults: {
+      contextLimit: 200_000,
+      maxOutputTokens: 64_000,
+      vision: true,
+      thinking: true,
+      tools: true,
+      inputPrice: 0,
+      outputPrice: 0,
+      cacheReadPrice: 0,
+      cacheWritePrice: 0,
+    },
+    defaultBaseUrl: ANTHROPIC_API_URL,
+    defaultModel: DEFAULT_MODEL,
+    requiresApiKey: true,
+    endpoint: () => ANTHROPIC_API_URL,
+    setupHint: 'API key not configured. Go to Settings to add your Anthropic API key.',
+  },
+  ollama: {
+    id: 'ollama',
+    label: 'Ollama (Local)',
+    toolFormat: 'openai',
+    // Ollama's default num_ctx; the real value is discovered per model
+    modelDefaults: {
+      contextLimit: 4096,
+      maxOutputTokens: 4096,
+      vision: true,
+      thinking: false,
+      tools: true,
+      inputPrice: 0,
+      outputPrice: 0,
+      cacheReadPrice: 0,
+      cacheWritePrice: 0,
+    },
+    defaultBaseUrl: DEFAULT_OLLAMA_URL,
+    defaultModel: '',
+    requiresApiKey: false,
+    endpoint: (baseUrl) => `${trimSlash(baseUrl)}/v1/chat/completions`,
+    setupHint: 'Ollama URL not configured. Go to Settings to configure your Ollama Host.',
+  },
+  openai: {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    toolFormat: 'openai',
+    modelDefaults: {
+      contextLimit: 32_768,
+      maxOutputTokens: 32_768,
+      vision: true,
+      thinking: false,
+      tools: true,
+      inputPrice: 0,
+      outputPrice: 0,
+      cacheReadPrice: 0,
+      cacheWritePrice: 0,
+    },
+    defaultBaseUrl: 'http://localhost:1234/v1',
+    defaultModel: '',
+    requiresApiKey: false,
+    endpoint: (baseUrl) => `${trimSlash(baseUrl)}/chat/completions`,
+    setupHint: 'Base URL not configured. Go to Settings to configure your OpenAI-compatible endpoint.',
+  },
+  mock: {
+    id: 'mock',
+    label: 'Mock (scripted fixture)',
+    toolFormat: 'anthropic',
+    modelDefaults: {
+      contextLimit: 200_000,
+      maxOutputTokens: 64_000,
+      vision: true,
+      thinking: true,
+      tools: true,
+      inputPrice: 0,
+      outputPrice: 0,
+      cacheReadPrice: 0,
+      cacheWritePrice: 0,
+    },
+    defaultBaseUrl: '/fixtures/mock/tool-loop.json',
+    defaultModel: 'mock',
+    requiresApiKey: false,
+    // The "base URL" is the fixture file itself
+    endpoint: (baseUrl) => baseUrl,
+    setupHint: 'Mock fixture URL not configured. Go to Settings to choose a fixture file.',
+  },
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDERS) as ProviderId[];
+
+/**
+ * Look up a provider, falling back to Anthropic for unknown ids (e.g. a
+ * stale value persisted by a newer or older build).
+ */
+export function getProviderInfo(id: string): ProviderInfo {
+  return PROVIDERS[id as ProviderId] ?? PROVIDERS.anthropic;
+}
+
+/**
+ * HTTP headers for an OpenAI-compatible request: bearer auth when a key
+ * is set, then any user-configured custom headers.
+ */
+export function buildOpenAIHeaders(
+  payload: Pick<InvokePayload, 'apiKey' | 'headers'>,
+): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (payload.apiKey) headers['Authorization'] = `Bearer ${payload.apiKey}`;
+  return { ...headers, ...payload.headers };
+}
+
+/**
+ * Parse "Name: value" lines (as typed in Settings) into a header map.
+ * Blank lines and lines without a colon are ignored.
+ */
+export function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim();
+    const value = line.slice(colon + 1).trim();
+    if (name) headers[name] = value;
+  }
+  return headers;
+}
+
+export function formatHeaderLines(headers: Record<string, string>): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+}
+
+function trimSlash(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
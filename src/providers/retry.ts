@@ -0,0 +1,109 @@
+// ---------------------------------------------------------------------------
+// browclaw — Retry with exponential backoff for model calls
+// ---------------------------------------------------------------------------
+//
+// Rate limits (429) and transient server failures (5xx, Anthropic's 529
+// "overloaded") are retried with exponential backoff and jitter. When the
+// server sends `retry-after` we wait exactly that long instead.
+//
+// Only failed HTTP responses are retried, and errors a provider reads from
+// the stream before any of the reply is on screen (see anthropic.ts). Once
+// part of the reply is shown, a retry would repeat it.
+
+import { RETRY_BASE_DELAY, RETRY_MAX_DELAY } from '../config.js';
+
+/** A non-OK HTTP response from a model API */
+export class ModelApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    /** Server-requested delay before retrying, if it sent one */
+    readonly retryAfterMs: number | null = null,
+  ) {
+    super(message);
+    this.name = 'ModelApiError';
+  }
+}
+
+/**
+ * Build a ModelApiError from a failed response. `label` prefixes the
+ * message, e.g. "Anthropic API error 529: {...}".
+ */
+export async function apiErrorFromResponse(label: string, res: Response): Promise<ModelApiError> {
+  const body = await res.text();
+  return new ModelApiError(
+    `${label} API error ${res.status}: ${body}`,
+    res.status,
+    parseRetryAfter(res.headers),
+  );
+}
+
+/**
+ * Read the server's requested delay: `retry-after-ms` (OpenAI), then
+ * `retry-after` as seconds or an HTTP date.
+ */
+function parseRetryAfter(headers: Headers): number | null {
+  const ms = parseFloat(headers.get('retry-after-ms') || '');
+  if (Number.isFinite(ms) && ms >= 0) return ms;
+
+  const value = headers.get('retry-after');
+  if (!value) return null;
+  const seconds = parseFloat(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export function isRetryable(err: unknown): err is ModelApiError {
+  if (!(err instanceof ModelApiError)) return false;
+  return err.status === 408 || err.status === 429 || err.status >= 500;
+}
+
+export interface RetryOptions {
+  /** Retries allowed after the first attempt (0 disables retrying) */
+  maxRetries: number;
+  signal: AbortSignal;
+  /** Called before each wait, e.g. to surface the retry in the UI */
+  onRetry?: (info: { attempt: number; delayMs: number; error: ModelApiError }) => void;
+}
+
+/**
+ * Run `fn`, retrying retryable failures until the budget is spent. A
+ * server-requested delay longer than RETRY_MAX_DELAY is not waited out;
+ * the error is thrown instead.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, opts: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (opts.signal.aborted || !isRetryable(err) || attempt > opts.maxRetries) throw err;
+
+      const delayMs = err.retryAfterMs ?? backoffDelay(attempt);
+      if (delayMs > RETRY_MAX_DELAY) throw err;
+
+      opts.onRetry?.({ attempt, delayMs, error: err });
+      await sleep(delayMs, opts.signal);
+    }
+  }
+}
+
+/** Exponential backoff with jitter: ~1s, 2s, 4s, … capped at RETRY_MAX_DELAY. */
+function backoffDelay(attempt: number): number {
+  const exp = Math.min(RETRY_BASE_DELAY * 2 ** (attempt - 1), RETRY_MAX_DELAY);
+  return Math.round(exp * (0.5 + Math.random() * 0.5));
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    function onAbort() {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
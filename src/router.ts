@@ -2,7 +2,7 @@
 // browclaw — Message router
 // ---------------------------------------------------------------------------
 
-import type { Channel } from './types.js';
+import type { Channel, ApprovalRequest, ApprovalLogEntry } from './types.js';
 import { BrowserChatChannel } from './channels/browser-chat.js';
 import { TelegramChannel } from './channels/telegram.js';
 
@@ -40,6 +40,23 @@ export class Router {
     channel?.setTyping(groupId, typing);
   }
 
+  /**
+   * Ask a Telegram chat to approve a tool call. Browser chat prompts are
+   * rendered by the UI from orchestrator events, so nothing is sent there.
+   */
+  async requestApproval(request: ApprovalRequest): Promise<void> {
+    if (!request.groupId.startsWith('tg:') || !this.telegram) return;
+    await this.telegram.requestApproval(request);
+  }
+
+  /**
+   * Replace a Telegram approval prompt with the decision.
+   */
+  closeApproval(entry: ApprovalLogEntry): void {
+    if (!entry.groupId.startsWith('tg:') || !this.telegram) return;
+    this.telegram.closeApproval(entry).catch(console.error);
+  }
+
   /**
    * Strip internal tags from agent output (matches NanoClaw pattern).
    */
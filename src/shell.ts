@@ -17,6 +17,8 @@
 import {
   readGroupFile,
   writeGroupFile,
+  readGroupFileBlob,
+  writeGroupFileBlob,
   listGroupFiles,
   deleteGroupFile,
   groupFileExists,
@@ -30,12 +32,14 @@ export interface ShellResult {
 
 /**
  * Execute a shell command string against a group's OPFS workspace.
+ * Aborting `signal` interrupts the command at the next check point.
  */
 export async function executeShell(
   command: string,
   groupId: string,
   env: Record<string, string> = {},
   timeoutSec = 30,
+  signal?: AbortSignal,
 ): Promise<ShellResult> {
   const ctx: ShellContext = {
     groupId,
@@ -43,6 +47,7 @@ export async function executeShell(
     env: { HOME: '/workspace', PATH: '/usr/bin', PWD: '/workspace', ...env },
     timeoutMs: timeoutSec * 1000,
     startedAt: Date.now(),
+    signal,
   };
 
   try {
@@ -66,6 +71,7 @@ interface ShellContext {
   env: Record<string, string>;
   timeoutMs: number;
   startedAt: number;
+  signal?: AbortSignal;
 }
 
 // ---------------------------------------------------------------------------
@@ -457,9 +463,10 @@ async function dispatch(
       if (args.length < 2) return fail('cp: missing operands');
       const src = resolvePath(args[0], ctx);
       const dst = resolvePath(args[1], ctx);
-      const content = await safeRead(ctx.groupId, src);
+      // As bytes, so binary files survive the copy
+      const content = await readGroupFileBlob(ctx.groupId, src).catch(() => null);
       if (content === null) return fail(`cp: ${args[0]}: No such file`);
-      await writeGroupFile(ctx.groupId, dst, content);
+      await writeGroupFileBlob(ctx.groupId, dst, content);
       return ok('');
     }
 
@@ -467,23 +474,28 @@ async function dispatch(
       if (args.length < 2) return fail('mv: missing operands');
       const src = resolvePath(args[0], ctx);
       const dst = resolvePath(args[1], ctx);
-      const content = await safeRead(ctx.groupId, src);
+      // As bytes, so binary files survive the copy
+      const content = await readGroupFileBlob(ctx.groupId, src).catch(() => null);
       if (content === null) return fail(`mv: ${args[0]}: No such file`);
-      await writeGroupFile(ctx.groupId, dst, content);
-      await deleteGroupFile(ctx.groupId, src);
+      await writeGroupFileBlob(ctx.groupId, dst, content);
+      await deleteGroupFile(ctx.groupId, src, { trash: false });
       return ok('');
     }
 
     case 'rm': {
       const { flags, operands } = parseFlags(args, [], ['r', 'f']);
+      // Files that could not go to the trash, as notes on stderr
+      const notes: string[] = [];
       for (const f of operands) {
         try {
-          await deleteGroupFile(ctx.groupId, resolvePath(f, ctx));
+          if (await deleteGroupFile(ctx.groupId, resolvePath(f, ctx))) {
+            notes.push(`rm: ${f}: deleted permanently (too large for the trash, or the trash failed)`);
+          }
         } catch {
-          if (flags.f === undefined) return fail(`rm: ${f}: No such file`);
+          if (flags.f === undefined) return fail([...notes, `rm: ${f}: No such file`].join('\n'));
         }
       }
-      return ok('');
+      return { stdout: '', stderr: notes.join('\n'), exitCode: 0 };
     }
 
     case 'pwd':
@@ -518,7 +530,15 @@ async function dispatch(
 
     case 'sleep': {
       const ms = Math.min(parseFloat(args[0] ?? '0') * 1000, 5000);
-      await new Promise((r) => setTimeout(r, ms));
+      await new Promise<void>((r) => {
+        const timer = setTimeout(r, ms);
+        // Wake early on cancellation so checkTimeout can stop the command
+        ctx.signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          r();
+        }, { once: true });
+      });
+      checkTimeout(ctx);
       return ok('');
     }
 
@@ -670,6 +690,9 @@ const SUPPORTED_COMMANDS = new Set([
 // ---------------------------------------------------------------------------
 
 function checkTimeout(ctx: ShellContext): void {
+  if (ctx.signal?.aborted) {
+    throw new Error('[command cancelled]');
+  }
   if (Date.now() - ctx.startedAt > ctx.timeoutMs) {
     throw new Error('[command timed out]');
   }
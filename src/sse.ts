@@ -0,0 +1,66 @@
+// ---------------------------------------------------------------------------
+// browclaw — Server-Sent Events reader
+// ---------------------------------------------------------------------------
+//
+// Minimal SSE parser over a fetch() Response body. Both the Anthropic
+// Messages API and OpenAI-compatible /v1/chat/completions stream their
+// output as `text/event-stream`, so the agent worker reads them through here.
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Iterate over the events of a streaming response. Yields one entry per
+ * blank-line-terminated event; comment lines (": ping") are skipped.
+ */
+export async function* readSSE(res: Response): AsyncGenerator<SSEEvent> {
+  if (!res.body) throw new Error('Response has no body to stream');
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let event = '';
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      // Terminate a trailing line that arrived without a newline
+      buffer += done ? '\n' : value;
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+
+        if (line === '') {
+          // Blank line dispatches the pending event
+          if (data.length > 0) {
+            yield { event: event || 'message', data: data.join('\n') };
+          }
+          event = '';
+          data = [];
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const fieldValue = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+        if (field === 'event') event = fieldValue;
+        else if (field === 'data') data.push(fieldValue);
+      }
+
+      if (done) break;
+    }
+
+    // Flush a trailing event without a terminating blank line
+    if (data.length > 0) {
+      yield { event: event || 'message', data: data.join('\n') };
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
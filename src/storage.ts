@@ -3,6 +3,8 @@
 // ---------------------------------------------------------------------------
 
 import { OPFS_ROOT } from './config.js';
+import { moveToTrash, readSnapshot, removeFromTrash, saveVersion } from './file-history.js';
+import type { TrashEntry } from './file-history.js';
 
 /**
  * Get a handle to a nested directory, creating intermediate dirs.
@@ -47,10 +49,42 @@ function parsePath(filePath: string): { dirs: string[]; filename: string } {
   return { dirs: parts, filename };
 }
 
+/**
+ * Keep the current content of a file about to be overwritten in its
+ * history (see file-history.ts). A new file has nothing to keep. History
+ * is best effort: a failure to save it doesn't stop the write.
+ */
+async function keepPreviousVersion(
+  groupId: string,
+  dir: FileSystemDirectoryHandle,
+  dirs: string[],
+  filename: string,
+): Promise<void> {
+  let previous: File;
+  try {
+    previous = await (await dir.getFileHandle(filename)).getFile();
+  } catch {
+    return;
+  }
+  try {
+    await saveVersion(groupId, [...dirs, filename].join('/'), previous);
+  } catch (err) {
+    console.warn('Failed to save file history:', err);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
+/** A directory entry, with size and modification time for files */
+export interface GroupFileEntry {
+  name: string;
+  isDir: boolean;
+  size?: number;
+  lastModified?: number;
+}
+
 /**
  * Read a file from a group's workspace.
  */
@@ -73,7 +107,8 @@ export async function readGroupFile(
 
 /**
  * Write content to a file in a group's workspace.
- * Creates intermediate directories as needed.
+ * Creates intermediate directories as needed. The content it replaces is
+ * kept in the file's history.
  */
 export async function writeGroupFile(
   groupId: string,
@@ -88,12 +123,79 @@ export async function writeGroupFile(
     dir = await dir.getDirectoryHandle(seg, { create: true });
   }
 
+  await keepPreviousVersion(groupId, dir, dirs, filename);
+  const fileHandle = await dir.getFileHandle(filename, { create: true });
+  const writable = await fileHandle.createWritable();
+  await writable.write(content);
+  await writable.close();
+}
+
+/**
+ * Read a file from a group's workspace as a Blob (for binary content).
+ */
+export async function readGroupFileBlob(
+  groupId: string,
+  filePath: string,
+): Promise<Blob> {
+  const groupDir = await getGroupDir(groupId);
+  const { dirs, filename } = parsePath(filePath);
+
+  let dir = groupDir;
+  for (const seg of dirs) {
+    dir = await dir.getDirectoryHandle(seg);
+  }
+
+  const fileHandle = await dir.getFileHandle(filename);
+  return fileHandle.getFile();
+}
+
+/**
+ * Write binary content to a file in a group's workspace.
+ * Creates intermediate directories as needed.
+ */
+export async function writeGroupFileBlob(
+  groupId: string,
+  filePath: string,
+  content: Blob,
+): Promise<void> {
+  const groupDir = await getGroupDir(groupId);
+  const { dirs, filename } = parsePath(filePath);
+
+  let dir = groupDir;
+  for (const seg of dirs) {
+    dir = await dir.getDirectoryHandle(seg, { create: true });
+  }
+
+  await keepPreviousVersion(groupId, dir, dirs, filename);
   const fileHandle = await dir.getFileHandle(filename, { create: true });
   const writable = await fileHandle.createWritable();
   await writable.write(content);
   await writable.close();
 }
 
+/**
+ * Read a file from a group's workspace as bytes.
+ */
+export async function readGroupFileBytes(
+  groupId: string,
+  filePath: string,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const blob = await readGroupFileBlob(groupId, filePath);
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Write bytes to a file in a group's workspace.
+ * Creates intermediate directories as needed.
+ */
+export async function writeGroupFileBytes(
+  groupId: string,
+  filePath: string,
+  content: Uint8Array<ArrayBuffer>,
+): Promise<void> {
+  await writeGroupFileBlob(groupId, filePath, new Blob([content]));
+}
+
 /**
  * List files and directories in a group's workspace directory.
  */
@@ -119,12 +221,86 @@ export async function listGroupFiles(
 }
 
 /**
- * Delete a file from a group's workspace.
+ * List a group's workspace directory with the size and modification time
+ * of each file.
+ */
+export async function listGroupFileEntries(
+  groupId: string,
+  dirPath: string = '.',
+): Promise<GroupFileEntry[]> {
+  const groupDir = await getGroupDir(groupId);
+
+  let dir = groupDir;
+  if (dirPath && dirPath !== '.') {
+    const parts = dirPath.replace(/\\/g, '/').replace(/^\/+/, '').split('/').filter(Boolean);
+    for (const seg of parts) {
+      dir = await dir.getDirectoryHandle(seg);
+    }
+  }
+
+  const entries: GroupFileEntry[] = [];
+  for await (const [name, handle] of dir.entries()) {
+    if (handle.kind === 'directory') {
+      entries.push({ name, isDir: true });
+    } else {
+      const file = await (handle as FileSystemFileHandle).getFile();
+      entries.push({ name, isDir: false, size: file.size, lastModified: file.lastModified });
+    }
+  }
+  return entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+}
+
+/**
+ * Walk a directory of a group's workspace recursively, yielding every
+ * file with its path relative to the workspace root, in sorted order.
+ * Directories for which `skipDir` returns true are not entered.
+ */
+export async function* walkGroupFiles(
+  groupId: string,
+  dirPath: string = '.',
+  skipDir?: (path: string) => boolean,
+): AsyncGenerator<{ path: string; file: File }> {
+  const groupDir = await getGroupDir(groupId);
+  const parts = dirPath.replace(/\\/g, '/').split('/').filter((seg) => seg && seg !== '.');
+
+  let dir = groupDir;
+  for (const seg of parts) {
+    dir = await dir.getDirectoryHandle(seg);
+  }
+  yield* walkDir(dir, parts.join('/'), skipDir);
+}
+
+async function* walkDir(
+  dir: FileSystemDirectoryHandle,
+  prefix: string,
+  skipDir?: (path: string) => boolean,
+): AsyncGenerator<{ path: string; file: File }> {
+  const handles: [string, FileSystemHandle][] = [];
+  for await (const entry of dir.entries()) handles.push(entry);
+  handles.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  for (const [name, handle] of handles) {
+    const path = prefix ? `${prefix}/${name}` : name;
+    if (handle.kind === 'directory') {
+      if (!skipDir?.(path)) yield* walkDir(handle as FileSystemDirectoryHandle, path, skipDir);
+    } else {
+      yield { path, file: await (handle as FileSystemFileHandle).getFile() };
+    }
+  }
+}
+
+/**
+ * Delete a file (or an empty directory) from a group's workspace. The file
+ * goes to the group's trash unless `trash` is false, as when it has just
+ * been moved elsewhere. Returns true when a file that should have gone to
+ * the trash could not (it is over FILE_HISTORY_MAX_FILE_SIZE, or the trash
+ * failed), so it is gone for good.
  */
 export async function deleteGroupFile(
   groupId: string,
   filePath: string,
-): Promise<void> {
+  { trash = true }: { trash?: boolean } = {},
+): Promise<boolean> {
   const groupDir = await getGroupDir(groupId);
   const { dirs, filename } = parsePath(filePath);
 
@@ -133,7 +309,45 @@ export async function deleteGroupFile(
     dir = await dir.getDirectoryHandle(seg);
   }
 
+  let goneForGood = false;
+  if (trash) {
+    const file = await dir.getFileHandle(filename).then((handle) => handle.getFile(), () => null);
+    if (file) {
+      try {
+        goneForGood = !(await moveToTrash(groupId, [...dirs, filename].join('/'), file));
+      } catch (err) {
+        console.warn('Failed to move file to trash:', err);
+        goneForGood = true;
+      }
+    }
+  }
   await dir.removeEntry(filename);
+  return goneForGood;
+}
+
+/**
+ * Put back an earlier version of a file (see listVersions in
+ * file-history.ts). The content it replaces becomes a version in turn, so
+ * a restore can be undone the same way.
+ */
+export async function restoreGroupFileVersion(
+  groupId: string,
+  filePath: string,
+  hash: string,
+): Promise<void> {
+  await writeGroupFileBlob(groupId, filePath, await readSnapshot(groupId, hash));
+}
+
+/**
+ * Put a deleted file back where it was, and take it out of the trash. A
+ * file since written at that path is kept in its history.
+ */
+export async function restoreGroupFileFromTrash(
+  groupId: string,
+  entry: TrashEntry,
+): Promise<void> {
+  await writeGroupFileBlob(groupId, entry.path, await readSnapshot(groupId, entry.hash));
+  await removeFromTrash(groupId, entry.id);
 }
 
 /**
@@ -144,7 +358,7 @@ export async function groupFileExists(
   filePath: string,
 ): Promise<boolean> {
   try {
-    await readGroupFile(groupId, filePath);
+    await readGroupFileBlob(groupId, filePath);
     return true;
   } catch {
     return false;
@@ -3,12 +3,17 @@
 // ---------------------------------------------------------------------------
 
 import { create } from 'zustand';
-import { readGroupFile } from '../storage.js';
+import type { FileDiff } from '../types.js';
+import { readGroupFileBlob } from '../storage.js';
+import { textOrBlob } from '../binary.js';
 import { DEFAULT_GROUP_ID } from '../config.js';
 
 interface FileViewerState {
-  file: { name: string; content: string } | null;
+  /** Binary files are opened as Blobs; `path` is set for workspace files */
+  file: { name: string; content: string | Blob; path?: string; groupId?: string } | null;
   openFile: (path: string, groupId?: string) => Promise<void>;
+  /** Show a change to a file; the viewer renders .diff files as diffs */
+  openDiff: (fileDiff: FileDiff) => void;
   closeFile: () => void;
 }
 
@@ -17,13 +22,18 @@ export const useFileViewerStore = create<FileViewerState>((set) => ({
 
   openFile: async (path: string, groupId: string = DEFAULT_GROUP_ID) => {
     try {
-      const content = await readGroupFile(groupId, path);
+      const content = await textOrBlob(path, await readGroupFileBlob(groupId, path));
       const name = path.split('/').pop() || path;
-      set({ file: { name, content } });
+      set({ file: { name, content, path, groupId } });
     } catch (err) {
       console.error('Failed to open file:', path, err);
     }
   },
 
+  openDiff: ({ path, diff }: FileDiff) => {
+    const name = path.split('/').pop() || path;
+    set({ file: { name: `${name}.diff`, content: diff } });
+  },
+
   closeFile: () => set({ file: null }),
 }));
@@ -7,7 +7,9 @@ import type {
   StoredMessage,
   OrchestratorState,
   TokenUsage,
+  ContextWindowReport,
   ThinkingLogEntry,
+  ApprovalRequest,
 } from '../types.js';
 import type { Orchestrator } from '../orchestrator.js';
 import { DEFAULT_GROUP_ID } from '../config.js';
@@ -16,17 +18,25 @@ import { getRecentMessages } from '../db.js';
 interface OrchestratorStoreState {
   // --- reactive state ---
   messages: StoredMessage[];
+  streamingText: string | null;
   isTyping: boolean;
-  toolActivity: { tool: string; status: string } | null;
+  /** Tool calls in progress; several when read-only calls run in parallel */
+  toolActivity: { callId: string; tool: string }[];
   activityLog: ThinkingLogEntry[];
+  pendingApprovals: ApprovalRequest[];
   state: OrchestratorState;
   tokenUsage: TokenUsage | null;
+  contextWindow: ContextWindowReport | null;
   error: string | null;
   activeGroupId: string;
   ready: boolean;
 
   // --- actions ---
-  sendMessage: (text: string) => void;
+  sendMessage: (text: string, images?: File[]) => void;
+  cancel: () => void;
+  respondToApproval: (id: string, approved: boolean) => Promise<void>;
+  /** Approve and stop asking for this tool in the current group */
+  alwaysAllow: (id: string) => Promise<void>;
   newSession: () => Promise<void>;
   compactContext: () => Promise<void>;
   clearError: () => void;
@@ -42,18 +52,39 @@ export function getOrchestrator(): Orchestrator {
 
 export const useOrchestratorStore = create<OrchestratorStoreState>((set, get) => ({
   messages: [],
+  streamingText: null,
   isTyping: false,
-  toolActivity: null,
+  toolActivity: [],
   activityLog: [],
+  pendingApprovals: [],
   state: 'idle',
   tokenUsage: null,
+  contextWindow: null,
   error: null,
   activeGroupId: DEFAULT_GROUP_ID,
   ready: false,
 
-  sendMessage: (text) => {
+  sendMessage: (text, images) => {
     const orch = getOrchestrator();
-    orch.submitMessage(text, get().activeGroupId);
+    orch.submitMessage(text, get().activeGroupId, images);
+  },
+
+  cancel: () => {
+    const orch = getOrchestrator();
+    orch.cancel(get().activeGroupId);
+  },
+
+  respondToApproval: async (id, approved) => {
+    const orch = getOrchestrator();
+    await orch.respondToApproval(id, approved, 'browser');
+  },
+
+  alwaysAllow: async (id) => {
+    const orch = getOrchestrator();
+    const request = get().pendingApprovals.find((r) => r.id === id);
+    if (!request) return;
+    await orch.setToolPolicy(request.tool, 'allow', request.groupId);
+    await orch.respondToApproval(id, true, 'browser');
   },
 
   newSession: async () => {
@@ -82,65 +113,109 @@ export async function initOrchestratorStore(orch: Orchestrator): Promise<void> {
   orchestratorInstance = orch;
   const store = useOrchestratorStore;
 
+  // Groups run concurrently, so only events for the group on screen
+  // update the chat view.
+  const isActive = (groupId: string) => groupId === store.getState().activeGroupId;
+
   // Subscribe to events
   orch.events.on('message', (msg) => {
-    store.setState((s) => ({ messages: [...s.messages, msg] }));
+    if (!isActive(msg.groupId)) return;
+    store.setState((s) => ({
+      messages: [...s.messages, msg],
+      // The final assistant message replaces the live streaming preview
+      streamingText: msg.isFromMe ? null : s.streamingText,
+    }));
   });
 
-  orch.events.on('typing', ({ typing }) => {
+  orch.events.on('stream-delta', ({ groupId, text }) => {
+    if (!isActive(groupId)) return;
+    store.setState((s) => ({ streamingText: (s.streamingText ?? '') + text }));
+  });
+
+  orch.events.on('typing', ({ groupId, typing }) => {
+    if (!isActive(groupId)) return;
     store.setState({ isTyping: typing });
   });
 
-  orch.events.on('tool-activity', ({ tool, status }) => {
-    store.setState({
-      toolActivity: status === 'running' ? { tool, status } : null,
-    });
+  orch.events.on('tool-activity', ({ groupId, callId, tool, status }) => {
+    if (!isActive(groupId)) return;
+    store.setState((s) => ({
+      toolActivity: status === 'running'
+        ? [...s.toolActivity, { callId, tool }]
+        : s.toolActivity.filter((t) => t.callId !== callId),
+    }));
   });
 
   orch.events.on('thinking-log', (entry) => {
+    if (!isActive(entry.groupId)) return;
     store.setState((s) => {
-      // Reset log when a new invocation starts
-      if (entry.kind === 'info' && entry.label === 'Starting') {
+      // Reset log when a new invocation starts (not a sub-agent's)
+      if (entry.kind === 'info' && entry.label === 'Starting' && !entry.depth) {
         return { activityLog: [entry] };
       }
       return { activityLog: [...s.activityLog, entry] };
     });
   });
 
-  orch.events.on('state-change', (state) => {
+  orch.events.on('approval-request', (request) => {
+    if (!isActive(request.groupId)) return;
+    store.setState((s) => ({ pendingApprovals: [...s.pendingApprovals, request] }));
+  });
+
+  orch.events.on('approval-resolved', ({ id }) => {
+    store.setState((s) => ({
+      pendingApprovals: s.pendingApprovals.filter((r) => r.id !== id),
+    }));
+  });
+
+  orch.events.on('state-change', ({ groupId, state }) => {
+    if (!isActive(groupId)) return;
     store.setState({ state });
     if (state === 'idle') {
-      store.setState({ toolActivity: null });
+      store.setState({ toolActivity: [], streamingText: null });
     }
   });
 
-  orch.events.on('error', ({ error }) => {
+  orch.events.on('error', ({ groupId, error }) => {
+    if (!isActive(groupId)) return;
     store.setState({ error });
   });
 
-  orch.events.on('session-reset', () => {
+  orch.events.on('session-reset', ({ groupId }) => {
+    if (!isActive(groupId)) return;
     store.setState({
       messages: [],
+      streamingText: null,
       activityLog: [],
       tokenUsage: null,
-      toolActivity: null,
+      contextWindow: null,
+      toolActivity: [],
       isTyping: false,
     });
   });
 
-  orch.events.on('context-compacted', () => {
+  orch.events.on('context-compacted', ({ groupId }) => {
+    if (!isActive(groupId)) return;
     // Reload history after compaction
     store.getState().loadHistory();
   });
 
   orch.events.on('token-usage', (usage) => {
+    if (!isActive(usage.groupId)) return;
     store.setState({ tokenUsage: usage });
   });
 
+  orch.events.on('context-window', (report) => {
+    if (!isActive(report.groupId)) return;
+    store.setState({ contextWindow: report });
+  });
+
   orch.events.on('ready', () => {
     store.setState({ ready: true });
   });
 
+  store.setState({ pendingApprovals: orch.getPendingApprovals(store.getState().activeGroupId) });
+
   // Load initial history
   await store.getState().loadHistory();
 }
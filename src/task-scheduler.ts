@@ -10,7 +10,7 @@ import { SCHEDULER_INTERVAL } from './config.js';
 import { getEnabledTasks, updateTaskLastRun } from './db.js';
 import type { Task } from './types.js';
 
-type TaskRunner = (groupId: string, prompt: string) => Promise<void>;
+type TaskRunner = (groupId: string, prompt: string, taskId: string) => Promise<void>;
 
 export class TaskScheduler {
   private interval: ReturnType<typeof setInterval> | null = null;
@@ -55,7 +55,7 @@ export class TaskScheduler {
 
           // Fire task (non-blocking)
           const prompt = `[SCHEDULED TASK]\n\n${task.prompt}`;
-          this.runner(task.groupId, prompt).catch((err) => {
+          this.runner(task.groupId, prompt, task.id).catch((err) => {
             console.error(`Task ${task.id} failed:`, err);
           });
         }
@@ -0,0 +1,91 @@
+// ---------------------------------------------------------------------------
+// browclaw — Tool-loop guard
+// ---------------------------------------------------------------------------
+//
+// Watches the tool calls of one agent run. A call that returns exactly what
+// it returned before, or a tool failing with the same error again, means
+// the model is going in circles: after LOOP_NUDGE_REPEATS it is told so in
+// the tool result, and after LOOP_STOP_REPEATS the run stops. Every call is
+// counted for the summary that ends a run stopped early.
+
+import { LOOP_NUDGE_REPEATS, LOOP_STOP_REPEATS } from './config.js';
+
+export type LoopVerdict = 'continue' | 'nudge' | 'stop';
+
+/** Prefixes and markers executeTool and the approval flow use for failures */
+const ERROR_MARKERS = [
+  /^Tool error \(/,
+  /^Unknown tool:/,
+  /^JavaScript error:/m,
+  /\[exit code: \d+\]$/,
+  /^Tool "[^"]+" is disabled/,
+  /^The user denied this/,
+];
+
+export function isToolError(output: string): boolean {
+  return ERROR_MARKERS.some((re) => re.test(output));
+}
+
+interface ToolStats {
+  calls: number;
+  failed: number;
+}
+
+export class ToolLoopGuard {
+  private repeats = new Map<string, number>();
+  private stats = new Map<string, ToolStats>();
+  /** The tool whose repeats stopped the run */
+  stuckTool: string | null = null;
+
+  /**
+   * Record a finished call and decide whether the loop may go on.
+   */
+  record(name: string, input: Record<string, unknown>, output: string): LoopVerdict {
+    const failed = isToolError(output);
+    const stats = this.stats.get(name) ?? { calls: 0, failed: 0 };
+    stats.calls++;
+    if (failed) stats.failed++;
+    this.stats.set(name, stats);
+
+    // Same call, same result; or for failures, the same error from any input
+    const key = failed
+      ? `${name}\0error\0${output}`
+      : `${name}\0${JSON.stringify(input)}\0${output}`;
+    const count = (this.repeats.get(key) ?? 0) + 1;
+    this.repeats.set(key, count);
+
+    if (count >= LOOP_STOP_REPEATS) {
+      this.stuckTool = name;
+      return 'stop';
+    }
+    return count >= LOOP_NUDGE_REPEATS ? 'nudge' : 'continue';
+  }
+
+  /**
+   * Note appended to a tool result the model keeps getting.
+   */
+  nudge(name: string, output: string): string {
+    const what = isToolError(output)
+      ? `${name} has failed with this same error several times`
+      : `this exact ${name} call has returned this same result several times`;
+    return (
+      `\n\n[Loop check: ${what}. Repeating it will not help — try a different approach, ` +
+      'or stop and tell the user what is blocking you.]'
+    );
+  }
+
+  /**
+   * One line on what the run attempted, e.g.
+   * "Attempted 9 tool calls: bash ×6 (5 failed), read_file ×3."
+   */
+  summary(): string {
+    if (this.stats.size === 0) return 'No tools were called.';
+    let total = 0;
+    const parts: string[] = [];
+    for (const [name, { calls, failed }] of this.stats) {
+      total += calls;
+      parts.push(`${name} ×${calls}${failed > 0 ? ` (${failed} failed)` : ''}`);
+    }
+    return `Attempted ${total} tool call${total === 1 ? '' : 's'}: ${parts.join(', ')}.`;
+  }
+}
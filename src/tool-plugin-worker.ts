@@ -0,0 +1,91 @@
+// ---------------------------------------------------------------------------
+// browclaw — Tool plugin worker
+// ---------------------------------------------------------------------------
+//
+// Imports one plugin module, away from the page and the agent worker, and
+// is terminated after its reply (see tool-plugins.ts). A 'load' request
+// replies with the plugin's tool specs, handlers left out, so that the
+// page can learn its tools without running its code. A 'call' request
+// runs one tool's handler: file access in its context goes straight to the
+// group's workspace, while new tasks and delegate calls are sent back for
+// the agent worker to handle.
+
+import { toToolResult, type ToolContext } from './tool-registry.js';
+import {
+  importToolPlugin,
+  toToolPluginSpec,
+  type ToolPluginCallMessage,
+  type ToolPluginLoadResult,
+  type ToolPluginRequest,
+} from './tool-plugins.js';
+import {
+  listGroupFiles,
+  readGroupFile,
+  readGroupFileBytes,
+  writeGroupFile,
+  writeGroupFileBytes,
+} from './storage.js';
+
+/** Delegate calls waiting for the agent worker's reply, by id */
+const delegations = new Map<number, { resolve: (reply: string) => void; reject: (err: Error) => void }>();
+let nextDelegation = 0;
+
+self.onmessage = async (event: MessageEvent<ToolPluginRequest>) => {
+  const request = event.data;
+  if (request.type === 'load') {
+    let result: ToolPluginLoadResult;
+    try {
+      const tools = await importToolPlugin({ id: 'plugin', code: request.code });
+      result = { ok: true, tools: tools.map(toToolPluginSpec) };
+    } catch (err) {
+      result = { ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+    self.postMessage(result);
+  } else if (request.type === 'call') {
+    let message: ToolPluginCallMessage;
+    try {
+      const tools = await importToolPlugin({ id: 'plugin', code: request.code });
+      const tool = tools.find((t) => t.name === request.tool);
+      if (!tool) throw new Error(`The plugin no longer has a tool named ${request.tool}`);
+      const output = await tool.handler(request.input, createContext(request.groupId, request.javascriptNetwork));
+      // Through JSON, so nothing in it can fail to cross to the agent worker
+      message = { type: 'done', ok: true, result: JSON.parse(JSON.stringify(toToolResult(output))) };
+    } catch (err) {
+      message = { type: 'done', ok: false, error: err instanceof Error ? err.message : String(err) };
+    }
+    post(message);
+  } else {
+    const pending = delegations.get(request.id);
+    delegations.delete(request.id);
+    if (request.ok) pending?.resolve(request.reply);
+    else pending?.reject(new Error(request.error));
+  }
+};
+
+/**
+ * A handler's context in this worker. Its signal never fires: the agent
+ * worker terminates this worker when the run is cancelled.
+ */
+function createContext(groupId: string, javascriptNetwork: boolean): ToolContext {
+  return {
+    groupId,
+    signal: new AbortController().signal,
+    javascriptNetwork,
+    readFile: (path) => readGroupFile(groupId, path),
+    writeFile: (path, content) => writeGroupFile(groupId, path, content),
+    readFileBytes: (path) => readGroupFileBytes(groupId, path),
+    writeFileBytes: (path, content) => writeGroupFileBytes(groupId, path, content),
+    listFiles: (path) => listGroupFiles(groupId, path),
+    createTask: (task) => post({ type: 'task-created', task }),
+    delegate: (input) =>
+      new Promise((resolve, reject) => {
+        const id = nextDelegation++;
+        delegations.set(id, { resolve, reject });
+        post({ type: 'delegate', id, input });
+      }),
+  };
+}
+
+function post(message: ToolPluginCallMessage): void {
+  self.postMessage(message);
+}
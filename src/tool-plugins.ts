@@ -0,0 +1,313 @@
+// ---------------------------------------------------------------------------
+// browclaw — Tool plugins
+// ---------------------------------------------------------------------------
+//
+// A plugin is a single-file ES module, read from a URL or from a file in a
+// group's workspace, that exports tool specs (see ToolSpec in
+// tool-registry.ts): as its default export, one spec or an array of them,
+// or as an array named `tools`. Plugin code only ever runs in its own
+// throwaway worker (tool-plugin-worker.ts), never on the page or in the
+// agent worker, which holds the API key and makes the model calls. To
+// learn a plugin's tools the orchestrator imports it in one, which sends
+// back each spec without its handler. The module's source and specs then
+// go with every run, and the agent worker passes each call to a plugin
+// tool to a fresh plugin worker: only the input goes in, and only the
+// result, new tasks and delegated work come back. In its worker a plugin
+// still has the app's network access, OPFS and IndexedDB, but not the page
+// or its DOM.
+//
+// A workspace plugin is a file the agent itself can rewrite with its file
+// and shell tools, so whatever a prompt talks it into writing there runs
+// as a plugin on the next reload. Settings warns about these.
+
+import type { Task, ToolPluginCode, ToolPluginConfig, ToolPluginSpec } from './types.js';
+import {
+  defineTool,
+  type Tool,
+  type ToolContext,
+  type ToolRegistry,
+  type ToolResult,
+  type ToolSpec,
+} from './tool-registry.js';
+import { readGroupFile } from './storage.js';
+import { TOOL_PLUGIN_LOAD_TIMEOUT } from './config.js';
+
+/** Messages sent to the plugin worker */
+export type ToolPluginRequest =
+  | { type: 'load'; code: string }
+  | {
+      type: 'call';
+      code: string;
+      tool: string;
+      input: Record<string, unknown>;
+      groupId: string;
+      javascriptNetwork: boolean;
+    }
+  | { type: 'delegated'; id: number; ok: true; reply: string }
+  | { type: 'delegated'; id: number; ok: false; error: string };
+
+/** Reply from the plugin worker to a 'load' request */
+export type ToolPluginLoadResult = { ok: true; tools: ToolPluginSpec[] } | { ok: false; error: string };
+
+/** Messages from the plugin worker while it runs a call */
+export type ToolPluginCallMessage =
+  | { type: 'task-created'; task: Task }
+  | { type: 'delegate'; id: number; input: Record<string, unknown> }
+  | { type: 'done'; ok: true; result: ToolResult }
+  | { type: 'done'; ok: false; error: string };
+
+export function parseToolPlugins(raw: string | undefined): ToolPluginConfig[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Where a plugin is read from, for display */
+export function describeToolPlugin(plugin: ToolPluginConfig): string {
+  return plugin.source === 'url' ? plugin.location : `${plugin.groupId} · ${plugin.location}`;
+}
+
+/**
+ * Read a plugin's module source. URLs are fetched past the HTTP cache, so
+ * reloading picks up edits.
+ */
+export async function readToolPluginCode(plugin: ToolPluginConfig): Promise<string> {
+  if (plugin.source === 'workspace') {
+    if (!plugin.groupId) throw new Error('No workspace set for this plugin');
+    return readGroupFile(plugin.groupId, plugin.location);
+  }
+  const res = await fetch(plugin.location, { cache: 'no-cache' });
+  if (!res.ok) throw new Error(`HTTP ${res.status} fetching ${plugin.location}`);
+  return res.text();
+}
+
+/**
+ * Evaluate a plugin's source and return its tools, checked with
+ * defineTool. The module is imported from a blob URL, so it cannot use
+ * relative imports; absolute URLs work. Only call this in a worker.
+ */
+export async function importToolPlugin(plugin: Pick<ToolPluginCode, 'id' | 'code'>): Promise<Tool[]> {
+  const url = URL.createObjectURL(new Blob([plugin.code], { type: 'text/javascript' }));
+  let module: { default?: unknown; tools?: unknown };
+  try {
+    module = await import(/* @vite-ignore */ url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+
+  const exported = module.tools ?? module.default;
+  if (!exported) throw new Error('The module exports no tools (use `export default` or `export const tools`)');
+  const specs = (Array.isArray(exported) ? exported : [exported]) as ToolSpec[];
+  return specs.map((spec) => defineTool(spec, plugin.id));
+}
+
+/** A loaded tool as the loader worker sends it: plain data, no functions */
+export function toToolPluginSpec(tool: Tool): ToolPluginSpec {
+  const readOnly = tool.permissions?.readOnly;
+  return {
+    name: tool.name,
+    description: tool.description,
+    summary: typeof tool.summary === 'string' ? tool.summary : undefined,
+    // Through JSON, so nothing in it can fail to cross to the page
+    schema: JSON.parse(JSON.stringify(tool.schema)),
+    permissions: {
+      default: tool.permissions?.default,
+      readOnly: typeof readOnly === 'function' ? 'per-call' : readOnly === true,
+    },
+  };
+}
+
+/**
+ * Learn a plugin's tools without running it on the page: its module is
+ * imported in a throwaway worker, and each tool comes back as a spec whose
+ * handler only throws. Those are enough for the model's definitions, the
+ * system prompt and the tool policies; calls run in plugin workers.
+ */
+export function loadToolPlugin(plugin: Pick<ToolPluginCode, 'id' | 'code'>): Promise<Tool[]> {
+  return new Promise((resolve, reject) => {
+    const worker = createToolPluginWorker();
+    const finish = () => {
+      clearTimeout(timer);
+      worker.terminate();
+    };
+    const timer = setTimeout(() => {
+      finish();
+      reject(new Error(`The module took over ${TOOL_PLUGIN_LOAD_TIMEOUT / 1000}s to load`));
+    }, TOOL_PLUGIN_LOAD_TIMEOUT);
+
+    worker.onmessage = (event: MessageEvent<ToolPluginLoadResult>) => {
+      finish();
+      const result = event.data;
+      if (!result.ok) {
+        reject(new Error(result.error));
+        return;
+      }
+      try {
+        resolve(
+          result.tools.map((spec) =>
+            defineTool(
+              fromToolPluginSpec(spec, () => {
+                throw new Error(`Plugin tools run in plugin workers, not on the page (${spec.name})`);
+              }),
+              plugin.id,
+            ),
+          ),
+        );
+      } catch (err) {
+        reject(err);
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish();
+      reject(new Error(event.message || 'The plugin loader failed'));
+    };
+
+    const request: ToolPluginRequest = { type: 'load', code: plugin.code };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Run one call to a plugin tool in a fresh plugin worker, which imports
+ * the plugin and calls the handler there. Its context's file access works
+ * on the group's workspace from that worker; new tasks and delegate calls
+ * come back here to go through `context`. The worker is terminated when
+ * the call ends or the run is cancelled.
+ */
+export function callToolPlugin(
+  plugin: ToolPluginCode,
+  tool: string,
+  input: Record<string, unknown>,
+  context: ToolContext,
+): Promise<ToolResult> {
+  return new Promise((resolve, reject) => {
+    const worker = createToolPluginWorker();
+    const { signal } = context;
+    const finish = () => {
+      signal.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      finish();
+      reject(new Error('Cancelled'));
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<ToolPluginCallMessage>) => {
+      const message = event.data;
+      if (message.type === 'task-created') {
+        context.createTask(message.task);
+      } else if (message.type === 'delegate') {
+        const reply = (delegated: ToolPluginRequest) => {
+          if (!signal.aborted) worker.postMessage(delegated);
+        };
+        context.delegate(message.input).then(
+          (text) => reply({ type: 'delegated', id: message.id, ok: true, reply: text }),
+          (err: unknown) =>
+            reply({
+              type: 'delegated',
+              id: message.id,
+              ok: false,
+              error: err instanceof Error ? err.message : String(err),
+            }),
+        );
+      } else {
+        finish();
+        if (message.ok) resolve(message.result);
+        else reject(new Error(message.error));
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish();
+      reject(new Error(event.message || 'The plugin worker failed'));
+    };
+
+    const request: ToolPluginRequest = {
+      type: 'call',
+      code: plugin.code,
+      tool,
+      input,
+      groupId: context.groupId,
+      javascriptNetwork: context.javascriptNetwork,
+    };
+    worker.postMessage(request);
+  });
+}
+
+function createToolPluginWorker(): Worker {
+  return new Worker(new URL('./tool-plugin-worker.ts', import.meta.url), { type: 'module' });
+}
+
+function fromToolPluginSpec(spec: ToolPluginSpec, handler: ToolSpec['handler']): ToolSpec {
+  const readOnly = spec.permissions?.readOnly;
+  return {
+    ...spec,
+    handler,
+    permissions: {
+      default: spec.permissions?.default,
+      // Truthy so the prompt lists it among the reads. The function lives
+      // in the plugin's worker, so its calls never run alongside others.
+      readOnly: readOnly === 'per-call' ? () => false : readOnly === true,
+    },
+  };
+}
+
+/**
+ * Replace a plugin's tools in the registry. All or nothing: if one of the
+ * names is taken, none of them are registered and the error is thrown.
+ */
+export function registerToolPlugin(registry: ToolRegistry, pluginId: string, tools: Tool[]): void {
+  registry.unregisterSource(pluginId);
+  try {
+    for (const tool of tools) registry.register(tool);
+  } catch (err) {
+    registry.unregisterSource(pluginId);
+    throw err;
+  }
+}
+
+/** Plugins registered in this thread's registry, by id */
+const registeredPlugins = new Map<string, ToolPluginCode>();
+
+/**
+ * Bring the registry in line with the plugins a run was sent: register
+ * new or changed plugins' tools, whose handlers pass each call to
+ * callToolPlugin, and drop the tools of plugins no longer listed. Nothing
+ * is imported here. A plugin that fails to register is left out; calls to
+ * its tools then fail as unknown tools.
+ */
+export function syncToolPlugins(registry: ToolRegistry, plugins: ToolPluginCode[]): void {
+  for (const id of registeredPlugins.keys()) {
+    if (!plugins.some((plugin) => plugin.id === id)) {
+      registry.unregisterSource(id);
+      registeredPlugins.delete(id);
+    }
+  }
+  for (const plugin of plugins) {
+    if (registeredPlugins.get(plugin.id)?.code === plugin.code) continue;
+    registeredPlugins.delete(plugin.id);
+    registry.unregisterSource(plugin.id);
+    try {
+      const tools = plugin.tools.map((spec) =>
+        defineTool(
+          fromToolPluginSpec(spec, (input, context) => callToolPlugin(plugin, spec.name, input, context)),
+          plugin.id,
+        ),
+      );
+      registerToolPlugin(registry, plugin.id, tools);
+      registeredPlugins.set(plugin.id, plugin);
+    } catch (err) {
+      console.warn(`Tool plugin ${plugin.id} failed to register:`, err);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+// ---------------------------------------------------------------------------
+// browclaw — Tool-call policies
+// ---------------------------------------------------------------------------
+//
+// Each tool is allowed, gated behind user approval ("ask"), or denied.
+// Policies have global defaults and optional per-group overrides, on top
+// of the default a tool may declare for itself (see ToolPermissions in
+// tool-registry.ts); tools without any policy are allowed, matching
+// browclaw's behaviour before policies existed.
+
+import type { ToolPolicies, ToolPolicy } from './types.js';
+
+export const TOOL_POLICY_LABELS: Record<ToolPolicy, string> = {
+  allow: 'Always allow',
+  ask: 'Ask first',
+  deny: 'Deny',
+};
+
+export function emptyToolPolicies(): ToolPolicies {
+  return { defaults: {}, groups: {} };
+}
+
+/**
+ * Parse policies stored in config, tolerating missing or malformed JSON.
+ */
+export function parseToolPolicies(raw: string | undefined): ToolPolicies {
+  if (!raw) return emptyToolPolicies();
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      defaults: parsed.defaults ?? {},
+      groups: parsed.groups ?? {},
+    };
+  } catch {
+    return emptyToolPolicies();
+  }
+}
+
+/**
+ * Effective policy map for one group: its overrides on top of the defaults,
+ * on top of the tools' own defaults.
+ */
+export function resolveToolPolicies(
+  policies: ToolPolicies,
+  groupId: string,
+  toolDefaults: Record<string, ToolPolicy> = {},
+): Record<string, ToolPolicy> {
+  return { ...toolDefaults, ...policies.defaults, ...policies.groups[groupId] };
+}
+
+/**
+ * Return a copy of `policies` with one tool's policy changed. Passing
+ * `null` removes the entry (for a group, falling back to the default).
+ */
+export function withToolPolicy(
+  policies: ToolPolicies,
+  tool: string,
+  policy: ToolPolicy | null,
+  groupId?: string,
+): ToolPolicies {
+  const next: ToolPolicies = {
+    defaults: { ...policies.defaults },
+    groups: { ...policies.groups },
+  };
+  const target = groupId ? { ...next.groups[groupId] } : next.defaults;
+
+  if (policy) target[tool] = policy;
+  else delete target[tool];
+
+  if (groupId) {
+    if (Object.keys(target).length > 0) next.groups[groupId] = target;
+    else delete next.groups[groupId];
+  }
+  return next;
+}
+
+/**
+ * Human-readable rendering of a tool call's input for approval prompts.
+ * Shows the command itself for bash, the code for javascript and the diff
+ * for edit_file; other tools get pretty-printed JSON.
+ */
+export function formatToolInput(
+  tool: string,
+  input: Record<string, unknown>,
+  maxLength = 3000,
+): string {
+  let text: string;
+  if (tool === 'bash' && typeof input.command === 'string') {
+    text = input.command;
+  } else if (tool === 'javascript' && typeof input.code === 'string') {
+    text = input.code;
+  } else if (tool === 'edit_file' && typeof input.diff === 'string') {
+    text = `${input.path}\n${input.diff}`;
+  } else {
+    text = JSON.stringify(input, null, 2);
+  }
+  return text.length > maxLength ? text.slice(0, maxLength) + '…' : text;
+}
@@ -0,0 +1,196 @@
+// ---------------------------------------------------------------------------
+// browclaw — Tool registry
+// ---------------------------------------------------------------------------
+//
+// Every tool the agent can call, built in or loaded from a plugin module,
+// is a spec made with defineTool: a name, a JSON schema for its input, the
+// handler that runs it in the agent worker, and how it is permitted. The
+// registry hands the model its tool definitions, the system prompt its tool
+// list, and the worker the handler to run. The main thread and every agent
+// worker each hold one with the same tools (see tools.ts and tool-plugins.ts);
+// the main thread's plugin tools have stand-in handlers that only throw, and
+// the agent worker's pass each call on to a plugin worker.
+
+import type { FileDiff, Task, ToolDefinition, ToolPolicy } from './types.js';
+import { compileSchemaPatterns, validateSchema, type JsonSchema } from './json-schema.js';
+
+/** What a handler gets besides its input */
+export interface ToolContext {
+  groupId: string;
+  signal: AbortSignal;
+  /** Whether the javascript tool's sandbox may use fetch and other network APIs */
+  javascriptNetwork: boolean;
+  /** Files in the group's workspace, by path relative to its root */
+  readFile(path: string): Promise<string>;
+  writeFile(path: string, content: string): Promise<void>;
+  /** The same files as bytes, for images, PDFs, archives and the like */
+  readFileBytes(path: string): Promise<Uint8Array<ArrayBuffer>>;
+  writeFileBytes(path: string, content: Uint8Array<ArrayBuffer>): Promise<void>;
+  /** Sorted entries of a directory; subdirectories end with / */
+  listFiles(path: string): Promise<string[]>;
+  /** Save a scheduled task (it runs in `task.groupId`) */
+  createTask(task: Task): void;
+  /** Run a sub-agent on a delegate call's input and return its final reply */
+  delegate(input: Record<string, unknown>): Promise<string>;
+}
+
+/** A handler's result when there is more to report than text */
+export interface ToolResult {
+  /** What the model gets back */
+  content: string;
+  /** A change the call made to a workspace file, for the user to review */
+  fileDiff?: FileDiff;
+}
+
+export interface ToolPermissions {
+  /** Policy until the user picks one in Settings; 'allow' when omitted */
+  default?: ToolPolicy;
+  /**
+   * The tool only reads, so neighbouring calls to it may run in parallel.
+   * A function decides per call.
+   */
+  readOnly?: boolean | ((input: Record<string, unknown>) => boolean);
+}
+
+export interface ToolSpec<Input = Record<string, unknown>> {
+  /** 1–64 letters, digits, '_' or '-' */
+  name: string;
+  /** What the model is told about the tool */
+  description: string;
+  /** Line for the system prompt's tool list; the description's first sentence if omitted */
+  summary?: string;
+  /** JSON schema of the input, checked before the handler runs */
+  schema: JsonSchema & { type: 'object' };
+  handler: (input: Input, ctx: ToolContext) => Promise<string | ToolResult> | string | ToolResult;
+  permissions?: ToolPermissions;
+}
+
+/** A checked spec, as the registry holds it */
+export interface Tool extends ToolSpec {
+  /** 'builtin', or the id of the plugin that registered it */
+  source: string;
+}
+
+const TOOL_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+
+/**
+ * Check a tool spec and return it ready to register. The type parameter
+ * types the handler's input: `defineTool<{ path: string }>({ ... })`.
+ * Throws on a malformed spec, such as one exported by a broken plugin.
+ */
+export function defineTool<Input = Record<string, unknown>>(
+  spec: ToolSpec<Input>,
+  source = 'builtin',
+): Tool {
+  const name = typeof spec?.name === 'string' ? spec.name : '';
+  if (!TOOL_NAME.test(name)) {
+    throw new Error(`Invalid tool name ${JSON.stringify(spec?.name)}: use 1–64 letters, digits, _ or -`);
+  }
+  if (typeof spec.description !== 'string' || !spec.description.trim()) {
+    throw new Error(`Tool "${name}" has no description`);
+  }
+  if (spec.schema?.type !== 'object') {
+    throw new Error(`Tool "${name}": schema must have type "object"`);
+  }
+  if (typeof spec.handler !== 'function') {
+    throw new Error(`Tool "${name}" has no handler function`);
+  }
+  compileSchemaPatterns(spec.schema);
+  return { ...(spec as unknown as ToolSpec), source };
+}
+
+/**
+ * Check a call's input against the tool's schema. Returns a message for
+ * the model describing every problem, or null when the input is valid.
+ */
+export function validateToolInput(schema: JsonSchema, input: Record<string, unknown>): string | null {
+  const problems = validateSchema(schema, input);
+  return problems.length > 0 ? `Invalid input: ${problems.join('; ')}` : null;
+}
+
+/** A handler's return value as a result; plugins may return anything */
+export function toToolResult(output: unknown): ToolResult {
+  if (typeof output === 'string') return { content: output };
+  if (typeof (output as ToolResult | null)?.content === 'string') return output as ToolResult;
+  return { content: JSON.stringify(output) ?? String(output) };
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, Tool>();
+
+  constructor(tools: Tool[] = []) {
+    for (const tool of tools) this.register(tool);
+  }
+
+  /**
+   * Add a tool, or replace one from the same source. Throws if another
+   * source already registered the name.
+   */
+  register(tool: Tool): void {
+    const existing = this.tools.get(tool.name);
+    if (existing && existing.source !== tool.source) {
+      throw new Error(
+        `A tool named "${tool.name}" already exists` +
+          (existing.source === 'builtin' ? ' (built in)' : ''),
+      );
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  /** Remove every tool a plugin registered */
+  unregisterSource(source: string): void {
+    for (const [name, tool] of this.tools) {
+      if (tool.source === source) this.tools.delete(name);
+    }
+  }
+
+  get(name: string): Tool | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): Tool[] {
+    return [...this.tools.values()];
+  }
+
+  /** Definitions for the model, in registration order */
+  definitions(): ToolDefinition[] {
+    return this.list().map(({ name, description, schema }) => ({
+      name,
+      description,
+      input_schema: schema as ToolDefinition['input_schema'],
+    }));
+  }
+
+  /** Each tool's own default policy, for tools that have one */
+  defaultPolicies(): Record<string, ToolPolicy> {
+    const defaults: Record<string, ToolPolicy> = {};
+    for (const tool of this.tools.values()) {
+      if (tool.permissions?.default) defaults[tool.name] = tool.permissions.default;
+    }
+    return defaults;
+  }
+
+  /** Whether a call only reads, so it may run alongside its neighbours */
+  isReadOnlyCall(name: string, input: Record<string, unknown>): boolean {
+    const readOnly = this.tools.get(name)?.permissions?.readOnly;
+    return typeof readOnly === 'function' ? readOnly(input) : readOnly === true;
+  }
+
+  /** Tools whose calls may run in parallel, always or for some inputs */
+  readOnlyToolNames(): string[] {
+    return this.list()
+      .filter((tool) => tool.permissions?.readOnly)
+      .map((tool) => tool.name);
+  }
+
+  /** The system prompt's tool list, one "- **name**: summary" line each */
+  promptLines(): string[] {
+    return this.list().map((tool) => `- **${tool.name}**: ${toolSummary(tool)}`);
+  }
+}
+
+function toolSummary(tool: Tool): string {
+  if (tool.summary) return tool.summary;
+  const sentence = tool.description.match(/^.*?[.!?](\s|$)/);
+  return (sentence ? sentence[0] : tool.description).trim();
+}
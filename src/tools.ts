@@ -1,172 +1,635 @@
 // ---------------------------------------------------------------------------
-// browclaw — Tool definitions for the Claude API
+// browclaw — Built-in tools
 // ---------------------------------------------------------------------------
+//
+// Each tool is a defineTool spec (see tool-registry.ts): the definition the
+// model sees plus the handler the agent worker runs. Plugins add theirs to
+// the same registry at runtime; see tool-plugins.ts.
 
-import type { ToolDefinition } from './types.js';
-
-export const TOOL_DEFINITIONS: ToolDefinition[] = [
-  {
-    name: 'bash',
-    description:
-      'Execute a shell command in a lightweight bash emulator. ' +
-      'Supports common commands: echo, cat, head, tail, grep, sort, sed, awk, cut, tr, ' +
-      'uniq, wc, ls, mkdir, cp, mv, rm, touch, pwd, cd, date, sleep, seq, jq, base64, ' +
-      'tee, xargs, test, basename, dirname. Supports pipes (|), redirects (> >>), ' +
-      'operators (&& || ;), and variable expansion ($VAR). ' +
-      'Uses the group workspace filesystem. ' +
-      'For complex logic, prefer the "javascript" tool. ' +
-      'For HTTP requests, use the "fetch_url" tool.',
-    input_schema: {
-      type: 'object',
-      properties: {
-        command: {
-          type: 'string',
-          description: 'The bash command to execute',
-        },
-        timeout: {
-          type: 'number',
-          description: 'Timeout in seconds (default: 30, max: 120)',
-        },
+import type { Task } from './types.js';
+import { defineTool, ToolRegistry } from './tool-registry.js';
+import {
+  BASE64_MAX_BYTES,
+  FETCH_MAX_DOWNLOAD,
+  FETCH_MAX_RESPONSE,
+  JS_DEFAULT_TIMEOUT,
+  JS_MAX_TIMEOUT,
+  SEARCH_DEFAULT_MAX_RESULTS,
+  SEARCH_MAX_RESULTS,
+} from './config.js';
+import { executeShell } from './shell.js';
+import { runInSandbox } from './js-sandbox.js';
+import {
+  applySearchReplace,
+  applyUnifiedDiff,
+  createUnifiedDiff,
+  diffStats,
+  EditError,
+  type SearchReplaceEdit,
+} from './diff.js';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  detectMimeType,
+  formatBytes,
+  isBinaryFile,
+  isTextMimeType,
+} from './binary.js';
+import { formatSearchResults, searchWorkspace, type SearchMode } from './workspace-search.js';
+import { ulid } from './ulid.js';
+
+const bash = defineTool<{ command: string; timeout?: number }>({
+  name: 'bash',
+  description:
+    'Execute a shell command in a lightweight bash emulator. ' +
+    'Supports common commands: echo, cat, head, tail, grep, sort, sed, awk, cut, tr, ' +
+    'uniq, wc, ls, mkdir, cp, mv, rm, touch, pwd, cd, date, sleep, seq, jq, base64, ' +
+    'tee, xargs, test, basename, dirname. Supports pipes (|), redirects (> >>), ' +
+    'operators (&& || ;), and variable expansion ($VAR). ' +
+    'Uses the group workspace filesystem. ' +
+    'For complex logic, prefer the "javascript" tool. ' +
+    'For HTTP requests, use the "fetch_url" tool.',
+  summary: 'Run shell commands (a bash emulator over the workspace). Use for scripts and text processing.',
+  schema: {
+    type: 'object',
+    properties: {
+      command: {
+        type: 'string',
+        description: 'The bash command to execute',
+      },
+      timeout: {
+        type: 'number',
+        description: 'Timeout in seconds (default: 30, max: 120)',
       },
-      required: ['command'],
     },
+    required: ['command'],
   },
-  {
-    name: 'read_file',
-    description:
-      'Read the contents of a file from the group workspace. ' +
-      'Returns the full text content of the file.',
-    input_schema: {
-      type: 'object',
-      properties: {
-        path: {
-          type: 'string',
-          description: 'File path relative to the group workspace root',
-        },
+  async handler(input, ctx) {
+    const result = await executeShell(
+      input.command,
+      ctx.groupId,
+      {},
+      Math.min(input.timeout || 30, 120),
+      ctx.signal,
+    );
+    let output = result.stdout;
+    if (result.stderr) output += (output ? '\n' : '') + result.stderr;
+    if (result.exitCode !== 0 && !result.stderr) {
+      output += `\n[exit code: ${result.exitCode}]`;
+    }
+    return output || '(no output)';
+  },
+});
+
+const readFile = defineTool<{ path: string; encoding?: 'text' | 'base64' }>({
+  name: 'read_file',
+  description:
+    'Read the contents of a file from the group workspace. ' +
+    'Returns the full text content of the file. Binary files (images, PDFs, archives…) ' +
+    'are described instead; read them with encoding "base64" to get their bytes.',
+  summary: 'Read a file from the group workspace (persisted in browser storage).',
+  schema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'File path relative to the group workspace root',
+      },
+      encoding: {
+        type: 'string',
+        enum: ['text', 'base64'],
+        description: `text (default), or base64 for the file's bytes (files up to ${formatBytes(BASE64_MAX_BYTES)})`,
       },
-      required: ['path'],
     },
+    required: ['path'],
   },
-  {
-    name: 'write_file',
-    description:
-      'Write content to a file in the group workspace. ' +
-      'Creates the file and any intermediate directories if they don\'t exist. ' +
-      'Overwrites the file if it already exists.',
-    input_schema: {
-      type: 'object',
-      properties: {
-        path: {
-          type: 'string',
-          description: 'File path relative to the group workspace root',
-        },
-        content: {
-          type: 'string',
-          description: 'Content to write to the file',
-        },
+  async handler(input, ctx) {
+    const bytes = await ctx.readFileBytes(input.path);
+    const mimeType = detectMimeType(input.path, bytes);
+    if (input.encoding === 'base64') {
+      if (bytes.length > BASE64_MAX_BYTES) {
+        throw new Error(
+          `${input.path} is ${formatBytes(bytes.length)}; base64 reads are limited to ${formatBytes(BASE64_MAX_BYTES)}.`,
+        );
+      }
+      return `[${mimeType}, ${bytes.length} bytes, base64]\n${bytesToBase64(bytes)}`;
+    }
+    if (isBinaryFile(input.path, bytes)) {
+      return `[Binary file: ${input.path}, ${mimeType}, ${formatBytes(bytes.length)}. ` +
+        'Read it with encoding "base64" to get its bytes.]';
+    }
+    return new TextDecoder().decode(bytes);
+  },
+  permissions: { readOnly: true },
+});
+
+const writeFile = defineTool<{ path: string; content: string; encoding?: 'text' | 'base64' }>({
+  name: 'write_file',
+  description:
+    'Write content to a file in the group workspace. ' +
+    'Creates the file and any intermediate directories if they don\'t exist. ' +
+    'Overwrites the file if it already exists. ' +
+    'To write a binary file, give its bytes as base64 with encoding "base64".',
+  summary: 'Create or overwrite a file in the group workspace.',
+  schema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'File path relative to the group workspace root',
+      },
+      content: {
+        type: 'string',
+        description: 'Content to write to the file',
+      },
+      encoding: {
+        type: 'string',
+        enum: ['text', 'base64'],
+        description: 'text (default), or base64 when content is the base64 of the file\'s bytes',
       },
-      required: ['path', 'content'],
     },
+    required: ['path', 'content'],
   },
-  {
-    name: 'list_files',
-    description:
-      'List files and directories in the group workspace. ' +
-      'Directory names end with /. Returns sorted entries.',
-    input_schema: {
-      type: 'object',
-      properties: {
-        path: {
-          type: 'string',
-          description: 'Directory path relative to workspace root (default: root)',
+  async handler(input, ctx) {
+    if (input.encoding === 'base64') {
+      const bytes = base64ToBytes(input.content);
+      await ctx.writeFileBytes(input.path, bytes);
+      return `Written ${bytes.length} bytes (${detectMimeType(input.path, bytes)}) to ${input.path}`;
+    }
+    await ctx.writeFile(input.path, input.content);
+    return `Written ${input.content.length} bytes to ${input.path}`;
+  },
+});
+
+const editFile = defineTool<{ path: string; edits?: SearchReplaceEdit[]; diff?: string }>({
+  name: 'edit_file',
+  description:
+    'Change part of an existing file in the group workspace without rewriting all of it. ' +
+    'Give either "edits", exact search/replace pairs applied in order, or "diff", a unified ' +
+    'diff against the current file. Each old_text must match the file exactly once, ' +
+    'whitespace and indentation included, unless replace_all is set; include enough ' +
+    'surrounding lines to make it unique. Nothing is written if any edit fails. ' +
+    'Returns a unified diff of the change. Prefer this over write_file for changing existing files.',
+  summary: 'Change part of a workspace file with exact search/replace edits or a unified diff.',
+  schema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'File path relative to the group workspace root',
+      },
+      edits: {
+        type: 'array',
+        minItems: 1,
+        description: 'Search/replace edits, applied in order',
+        items: {
+          type: 'object',
+          properties: {
+            old_text: { type: 'string', description: 'Exact text to replace' },
+            new_text: { type: 'string', description: 'Text to put in its place' },
+            replace_all: { type: 'boolean', description: 'Replace every occurrence (default: false)' },
+          },
+          required: ['old_text', 'new_text'],
         },
       },
+      diff: {
+        type: 'string',
+        description: 'Unified diff to apply, with @@ hunk headers; file headers are optional',
+      },
     },
+    required: ['path'],
   },
-  {
-    name: 'fetch_url',
-    description:
-      'Fetch a URL via HTTP and return the response body. ' +
-      'Subject to browser CORS restrictions — works with most public APIs. ' +
-      'Response is truncated to 100KB.',
-    input_schema: {
-      type: 'object',
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The URL to fetch',
-        },
-        method: {
-          type: 'string',
-          description: 'HTTP method (default: GET)',
-        },
-        headers: {
-          type: 'object',
-          description: 'Request headers as key-value pairs',
-        },
-        body: {
-          type: 'string',
-          description: 'Request body (for POST/PUT/PATCH)',
-        },
+  async handler(input, ctx) {
+    if (!input.edits === !input.diff) {
+      throw new EditError('Give exactly one of edits or diff.');
+    }
+    const bytes = await ctx.readFileBytes(input.path);
+    if (isBinaryFile(input.path, bytes)) {
+      throw new EditError(`${input.path} is a binary file (${detectMimeType(input.path, bytes)}); edit_file only changes text.`);
+    }
+    const before = new TextDecoder().decode(bytes);
+    const after = input.edits
+      ? applySearchReplace(before, input.edits)
+      : applyUnifiedDiff(before, input.diff!);
+    if (after === before) return `No changes: ${input.path} already has this content.`;
+
+    await ctx.writeFile(input.path, after);
+    const diff = createUnifiedDiff(input.path, before, after);
+    const { added, removed } = diffStats(diff);
+    return {
+      content: `Edited ${input.path} (+${added} -${removed} lines)\n\n${diff}`,
+      fileDiff: { path: input.path, diff },
+    };
+  },
+});
+
+const listFiles = defineTool<{ path?: string }>({
+  name: 'list_files',
+  description:
+    'List files and directories in the group workspace. ' +
+    'Directory names end with /. Returns sorted entries.',
+  summary: 'List a directory of the group workspace.',
+  schema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'Directory path relative to workspace root (default: root)',
       },
-      required: ['url'],
     },
   },
-  {
-    name: 'update_memory',
-    description:
-      'Update the CLAUDE.md memory file for this group. ' +
-      'Use this to persist important context, user preferences, project state, ' +
-      'and anything the agent should remember across conversations. ' +
-      'This file is loaded as system context on every invocation.',
-    input_schema: {
-      type: 'object',
-      properties: {
-        content: {
-          type: 'string',
-          description: 'New content for the CLAUDE.md memory file',
-        },
+  async handler(input, ctx) {
+    const entries = await ctx.listFiles(input.path || '.');
+    return entries.length > 0 ? entries.join('\n') : '(empty directory)';
+  },
+  permissions: { readOnly: true },
+});
+
+const searchFiles = defineTool<{
+  pattern: string;
+  path?: string;
+  regex?: boolean;
+  ignore_case?: boolean;
+  include?: string[];
+  exclude?: string[];
+  context?: number;
+  max_results?: number;
+  output_mode?: SearchMode;
+}>({
+  name: 'search_files',
+  description:
+    'Search file contents in the group workspace, recursively, like ripgrep. ' +
+    'Returns each matching file with its matching lines as "line:text" ' +
+    '(context lines as "line-text"), or only file paths or per-file match counts. ' +
+    'Binary and very large files are skipped. Prefer this to reading files one by one ' +
+    'to find where something is.',
+  summary: 'Search the workspace for a regex or text, with globs and context lines.',
+  schema: {
+    type: 'object',
+    properties: {
+      pattern: {
+        type: 'string',
+        description: 'JavaScript regular expression to search for (or literal text when regex is false)',
+      },
+      path: {
+        type: 'string',
+        description: 'Directory to search, relative to workspace root (default: root)',
+      },
+      regex: {
+        type: 'boolean',
+        description: 'Treat the pattern as a regular expression (default: true)',
+      },
+      ignore_case: {
+        type: 'boolean',
+        description: 'Match case-insensitively (default: false)',
+      },
+      include: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Only search files matching one of these globs, e.g. ["*.ts", "docs/**/*.md"]',
+      },
+      exclude: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Skip files and directories matching these globs, e.g. ["node_modules", "*.min.js"]',
+      },
+      context: {
+        type: 'number',
+        description: 'Lines to show before and after each match (default: 0, max: 10)',
+      },
+      max_results: {
+        type: 'number',
+        description: `Matching lines to return at most, or files in files/count mode (default: ${SEARCH_DEFAULT_MAX_RESULTS}, max: ${SEARCH_MAX_RESULTS})`,
+      },
+      output_mode: {
+        type: 'string',
+        enum: ['content', 'files', 'count'],
+        description: 'content: matching lines (default); files: paths only; count: matches per file',
       },
-      required: ['content'],
     },
+    required: ['pattern'],
   },
-  {
-    name: 'create_task',
-    description:
-      'Create a scheduled recurring task. The task will run automatically ' +
-      'on the specified schedule and send the result back to this group. ' +
-      'Uses cron expressions (minute hour day-of-month month day-of-week).',
-    input_schema: {
-      type: 'object',
-      properties: {
-        schedule: {
-          type: 'string',
-          description: 'Cron expression, e.g. "0 9 * * 1-5" for 9am weekdays',
-        },
-        prompt: {
-          type: 'string',
-          description: 'The prompt/instruction to execute on each run',
-        },
+  async handler(input, ctx) {
+    const mode = input.output_mode ?? 'content';
+    const results = await searchWorkspace(ctx.groupId, {
+      pattern: input.pattern,
+      path: input.path,
+      regex: input.regex,
+      ignoreCase: input.ignore_case,
+      include: input.include,
+      exclude: input.exclude,
+      context: input.context,
+      maxResults: input.max_results,
+      mode,
+      signal: ctx.signal,
+    });
+    return formatSearchResults(results, mode);
+  },
+  permissions: { readOnly: true },
+});
+
+const fetchUrl = defineTool<{
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  save_to?: string;
+}>({
+  name: 'fetch_url',
+  description:
+    'Fetch a URL via HTTP and return the response body. ' +
+    'Subject to browser CORS restrictions — works with most public APIs. ' +
+    `Response is truncated to ${FETCH_MAX_RESPONSE / 1000}K characters. ` +
+    'Give save_to to store the body as is in the workspace instead, e.g. to download ' +
+    'an image, PDF or archive; binary responses are only described otherwise.',
+  summary: 'Make HTTP requests (subject to CORS).',
+  schema: {
+    type: 'object',
+    properties: {
+      url: {
+        type: 'string',
+        description: 'The URL to fetch',
+      },
+      method: {
+        type: 'string',
+        description: 'HTTP method (default: GET)',
+      },
+      headers: {
+        type: 'object',
+        description: 'Request headers as key-value pairs',
+        additionalProperties: { type: 'string' },
+      },
+      body: {
+        type: 'string',
+        description: 'Request body (for POST/PUT/PATCH)',
+      },
+      save_to: {
+        type: 'string',
+        description: 'Workspace path to save the response body to, byte for byte',
       },
-      required: ['schedule', 'prompt'],
     },
+    required: ['url'],
   },
-  {
-    name: 'javascript',
-    description:
-      'Execute JavaScript code in a sandboxed context and return the result. ' +
-      'Lighter than bash — no VM boot required. Use for calculations, ' +
-      'data transformations, JSON processing, etc. ' +
-      'Has access to standard JS built-ins but no DOM or network.',
-    input_schema: {
-      type: 'object',
-      properties: {
-        code: {
-          type: 'string',
-          description: 'JavaScript code to execute. The return value of the last expression is captured.',
-        },
+  async handler(input, ctx) {
+    const fetchRes = await fetch(input.url, {
+      method: input.method || 'GET',
+      headers: input.headers,
+      body: input.body,
+      signal: ctx.signal,
+    });
+    const contentType = fetchRes.headers.get('content-type') || '';
+    const status = `[HTTP ${fetchRes.status}]\n`;
+
+    const bytes = await readResponseBytes(fetchRes);
+
+    if (input.save_to || (contentType && !isTextMimeType(contentType))) {
+      const mimeType = contentType.split(';')[0].trim() || detectMimeType(input.save_to ?? '', bytes);
+      if (input.save_to) {
+        await ctx.writeFileBytes(input.save_to, bytes);
+        return `${status}Saved ${bytes.length} bytes (${mimeType}) to ${input.save_to}`;
+      }
+      if (isBinaryFile('', bytes)) {
+        return `${status}[Binary response: ${mimeType}, ${formatBytes(bytes.length)}. ` +
+          'Fetch it again with save_to to store it in the workspace.]';
+      }
+      // Declared as binary but reads as text (e.g. application/octet-stream CSVs)
+      return status + new TextDecoder().decode(bytes).slice(0, FETCH_MAX_RESPONSE);
+    }
+
+    const rawText = new TextDecoder().decode(bytes);
+
+    // Strip HTML to reduce token usage
+    let body = rawText;
+    if (contentType.includes('html') || rawText.trimStart().startsWith('<')) {
+      body = stripHtml(rawText);
+    }
+
+    return status + body.slice(0, FETCH_MAX_RESPONSE);
+  },
+  permissions: {
+    // Other methods may change remote state
+    readOnly: (input) => {
+      const method = typeof input.method === 'string' ? input.method.toUpperCase() : 'GET';
+      // save_to writes to the workspace
+      return (method === 'GET' || method === 'HEAD') && !input.save_to;
+    },
+  },
+});
+
+const updateMemory = defineTool<{ content: string }>({
+  name: 'update_memory',
+  description:
+    'Update the CLAUDE.md memory file for this group. ' +
+    'Use this to persist important context, user preferences, project state, ' +
+    'and anything the agent should remember across conversations. ' +
+    'This file is loaded as system context on every invocation.',
+  summary: 'Persist important context to CLAUDE.md — loaded on every conversation.',
+  schema: {
+    type: 'object',
+    properties: {
+      content: {
+        type: 'string',
+        description: 'New content for the CLAUDE.md memory file',
+      },
+    },
+    required: ['content'],
+  },
+  async handler(input, ctx) {
+    await ctx.writeFile('CLAUDE.md', input.content);
+    return 'Memory updated successfully.';
+  },
+});
+
+const createTask = defineTool<{ schedule: string; prompt: string }>({
+  name: 'create_task',
+  description:
+    'Create a scheduled recurring task. The task will run automatically ' +
+    'on the specified schedule and send the result back to this group. ' +
+    'Uses cron expressions (minute hour day-of-month month day-of-week).',
+  summary: 'Schedule recurring tasks with cron expressions.',
+  schema: {
+    type: 'object',
+    properties: {
+      schedule: {
+        type: 'string',
+        description: 'Cron expression, e.g. "0 9 * * 1-5" for 9am weekdays',
+      },
+      prompt: {
+        type: 'string',
+        description: 'The prompt/instruction to execute on each run',
       },
-      required: ['code'],
     },
+    required: ['schedule', 'prompt'],
   },
+  handler(input, ctx) {
+    const task: Task = {
+      id: ulid(),
+      groupId: ctx.groupId,
+      schedule: input.schedule,
+      prompt: input.prompt,
+      enabled: true,
+      lastRun: null,
+      createdAt: Date.now(),
+    };
+    ctx.createTask(task);
+    return `Task created successfully.\nSchedule: ${task.schedule}\nPrompt: ${task.prompt}`;
+  },
+});
+
+const javascript = defineTool<{ code: string; timeout?: number }>({
+  name: 'javascript',
+  description:
+    'Execute JavaScript code in an isolated sandbox and return the result. ' +
+    'Lighter than bash — no VM boot required. Use for calculations, ' +
+    'data transformations, JSON processing, etc. ' +
+    'Has access to standard JS built-ins but no DOM, no workspace files, and no network ' +
+    'unless the user has enabled it. console.log output is captured, and top-level ' +
+    'await is supported (promises are resolved before returning). Each call starts ' +
+    'with a fresh global scope.',
+  summary:
+    'Execute JavaScript code in an isolated sandbox (console.log is captured, top-level await works). ' +
+    'Use for calculations, data transforms.',
+  schema: {
+    type: 'object',
+    properties: {
+      code: {
+        type: 'string',
+        description: 'JavaScript code to execute. The value of the last expression (or an explicit return) is captured.',
+      },
+      timeout: {
+        type: 'number',
+        description: 'Timeout in seconds (default: 10, max: 60)',
+      },
+    },
+    required: ['code'],
+  },
+  async handler(input, ctx) {
+    const result = await runInSandbox(input.code, {
+      timeoutSec: Math.min(input.timeout || JS_DEFAULT_TIMEOUT, JS_MAX_TIMEOUT),
+      allowNetwork: ctx.javascriptNetwork,
+      signal: ctx.signal,
+    });
+    const parts = [...result.logs];
+    if (!result.ok) parts.push(`JavaScript error: ${result.value}`);
+    else if (result.value !== null) parts.push(result.value);
+    else if (parts.length === 0) parts.push('(no return value)');
+    return parts.join('\n');
+  },
+});
+
+const delegate = defineTool({
+  name: 'delegate',
+  description:
+    'Hand a self-contained subtask to a sub-agent and get back its final answer. ' +
+    'The sub-agent runs separately with its own tool loop: it does not see this ' +
+    'conversation, so the task must include everything it needs to know. Use it ' +
+    'for focused work with many steps (researching a question, going through a set ' +
+    'of files) whose intermediate results you do not need. Sub-agents cannot delegate.',
+  summary: 'Hand a self-contained subtask to a sub-agent with its own tool loop; you get back its final answer.',
+  schema: {
+    type: 'object',
+    properties: {
+      task: {
+        type: 'string',
+        description: 'What the sub-agent should do and what its answer should contain',
+      },
+      tools: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Names of the tools the sub-agent may use (default: all of yours except delegate)',
+      },
+      max_iterations: {
+        type: 'number',
+        description: 'Model calls the sub-agent may make (default: 10)',
+      },
+      token_budget: {
+        type: 'number',
+        description: 'Tokens the sub-agent may use in total (default: 150000)',
+      },
+    },
+    required: ['task'],
+  },
+  handler: (input, ctx) => ctx.delegate(input),
+});
+
+export const BUILTIN_TOOLS = [
+  bash,
+  readFile,
+  writeFile,
+  editFile,
+  listFiles,
+  searchFiles,
+  fetchUrl,
+  updateMemory,
+  createTask,
+  javascript,
+  delegate,
 ];
+
+/**
+ * This thread's tools: the built-ins, then whatever plugins have loaded.
+ */
+export const toolRegistry = new ToolRegistry(BUILTIN_TOOLS);
+
+/**
+ * Read a response body, up to FETCH_MAX_DOWNLOAD bytes. It is read as a
+ * stream and cancelled once over the limit, since a server may send no
+ * content-length, or the wrong one.
+ */
+async function readResponseBytes(response: Response): Promise<Uint8Array<ArrayBuffer>> {
+  const tooLarge = (size: string) =>
+    new Error(`Response is ${size}; downloads are limited to ${formatBytes(FETCH_MAX_DOWNLOAD)}.`);
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > FETCH_MAX_DOWNLOAD) {
+    await response.body?.cancel();
+    throw tooLarge(formatBytes(declared));
+  }
+  if (!response.body) return new Uint8Array(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > FETCH_MAX_DOWNLOAD) {
+      await reader.cancel();
+      throw tooLarge(`over ${formatBytes(FETCH_MAX_DOWNLOAD)}`);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * Extract readable text from HTML, stripping tags, scripts, styles, and
+ * collapsing whitespace.  Runs in the worker (no DOM), so we use regex.
+ */
+function stripHtml(html: string): string {
+  let text = html;
+  // Remove script/style/noscript blocks entirely
+  text = text.replace(/<(script|style|noscript|svg|head)[^>]*>[\s\S]*?<\/\1>/gi, '');
+  // Remove HTML comments
+  text = text.replace(/<!--[\s\S]*?-->/g, '');
+  // Remove all tags
+  text = text.replace(/<[^>]+>/g, ' ');
+  // Decode common HTML entities
+  text = text.replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#\d+;/g, '');
+  // Collapse whitespace
+  text = text.replace(/[ \t]+/g, ' ').replace(/\n\s*\n/g, '\n').trim();
+  return text;
+}
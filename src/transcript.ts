@@ -0,0 +1,97 @@
+// ---------------------------------------------------------------------------
+// browclaw — Session transcripts
+// ---------------------------------------------------------------------------
+//
+// When a run finishes, the worker's full message list — tool_use and
+// tool_result blocks included — is saved as the group's session and
+// replayed into the next run, so the model remembers which files it read
+// and what its tools returned. Transcripts are trimmed on the way in and
+// out so they don't grow without bound.
+
+import type { ContentBlock, ConversationMessage } from './types.js';
+import {
+  MAX_CONTEXT_IMAGES,
+  TRANSCRIPT_MAX_MESSAGES,
+  TRANSCRIPT_TOOL_OUTPUT_BUDGET,
+  TRIMMED_TOOL_RESULT_LENGTH,
+} from './config.js';
+
+/**
+ * Trim a transcript for storage and replay:
+ * - keep at most TRANSCRIPT_MAX_MESSAGES, cutting only before a plain user
+ *   message so no tool_result loses its tool_use
+ * - keep the newest TRANSCRIPT_TOOL_OUTPUT_BUDGET characters of tool output
+ *   verbatim and cut older results to TRIMMED_TOOL_RESULT_LENGTH
+ * - keep only the newest `maxImages` images, MAX_CONTEXT_IMAGES by default
+ *   (their messages still name the file)
+ * - drop thinking blocks, which the API only needs within the tool-use
+ *   loop that produced them
+ */
+export function trimTranscript(
+  messages: ConversationMessage[],
+  maxImages: number = MAX_CONTEXT_IMAGES,
+): ConversationMessage[] {
+  const start = findStart(messages);
+  let outputBudget = TRANSCRIPT_TOOL_OUTPUT_BUDGET;
+  let imageBudget = maxImages;
+  const result: ConversationMessage[] = [];
+
+  // Walk newest first so the budgets go to the latest turns
+  for (let i = messages.length - 1; i >= start; i--) {
+    const m = messages[i];
+    if (typeof m.content === 'string') {
+      result.push(m);
+      continue;
+    }
+
+    const content: ContentBlock[] = [];
+    for (const block of m.content) {
+      if (block.type === 'thinking' || block.type === 'redacted_thinking') continue;
+      if (block.type === 'image') {
+        if (imageBudget === 0) continue;
+        imageBudget--;
+      }
+      if (block.type === 'tool_result') {
+        if (block.content.length <= outputBudget) {
+          outputBudget -= block.content.length;
+        } else {
+          // Once one result doesn't fit, every older one is trimmed
+          outputBudget = 0;
+          content.push({ ...block, content: shortenToolResult(block.content) });
+          continue;
+        }
+      }
+      content.push(block);
+    }
+    if (content.length > 0) result.push({ ...m, content });
+  }
+
+  return result.reverse();
+}
+
+/**
+ * Whether history may start at this message: a user message that isn't
+ * just tool results, so no tool_result is left without its tool_use.
+ */
+export function startsTurn(message: ConversationMessage): boolean {
+  if (message.role !== 'user') return false;
+  return typeof message.content === 'string' || !message.content.some((b) => b.type === 'tool_result');
+}
+
+function findStart(messages: ConversationMessage[]): number {
+  if (messages.length <= TRANSCRIPT_MAX_MESSAGES) return 0;
+  for (let i = messages.length - TRANSCRIPT_MAX_MESSAGES; i < messages.length; i++) {
+    if (startsTurn(messages[i])) return i;
+  }
+  // No clean cut point — keep everything rather than orphan tool results
+  return 0;
+}
+
+function shortenToolResult(content: string): string {
+  if (content.length <= TRIMMED_TOOL_RESULT_LENGTH) return content;
+  const omitted = content.length - TRIMMED_TOOL_RESULT_LENGTH;
+  return (
+    content.slice(0, TRIMMED_TOOL_RESULT_LENGTH) +
+    `\n[… ${omitted} more characters trimmed from this earlier result; run the tool again if you need them]`
+  );
+}
@@ -10,12 +10,33 @@ export interface InboundMessage {
   content: string;
   timestamp: number; // epoch ms
   channel: ChannelType;
+  /** Images sent with the message, stored in the group workspace */
+  attachments?: Attachment[];
+}
+
+/** A file attached to a message */
+export interface Attachment {
+  /** Path relative to the group directory, e.g. "attachments/01J….jpg" */
+  path: string;
+  mimeType: string;
+  /** Original file name, when the sender provided one */
+  name?: string;
 }
 
 /** Stored message (superset of InboundMessage) */
 export interface StoredMessage extends InboundMessage {
   isFromMe: boolean;
   isTrigger: boolean;
+  /** The model's reasoning behind an assistant reply, when it returned any */
+  reasoning?: string;
+  /** Set on a compaction summary: the archived messages it replaced */
+  compaction?: { id: string; archivedCount: number };
+}
+
+/** A message moved out of the active history by compaction */
+export interface ArchivedMessage extends StoredMessage {
+  compactionId: string;
+  archivedAt: number;
 }
 
 /** Scheduled task */
@@ -32,8 +53,12 @@ export interface Task {
 /** Session state per group */
 export interface Session {
   groupId: string;
+  /** Full transcript of the last completed run, tool turns included */
   messages: ConversationMessage[];
+  /** Timestamp of the newest stored message the transcript covers */
   updatedAt: number;
+  /** Ids of the covered messages stored at exactly `updatedAt` */
+  coveredIds: string[];
 }
 
 /** A message in the Claude API conversation format */
@@ -46,7 +71,10 @@ export interface ConversationMessage {
 export type ContentBlock =
   | { type: 'text'; text: string }
   | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
-  | { type: 'tool_result'; tool_use_id: string; content: string };
+  | { type: 'tool_result'; tool_use_id: string; content: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+  | { type: 'thinking'; thinking: string; signature: string }
+  | { type: 'redacted_thinking'; data: string };
 
 /** Config entry */
 export interface ConfigEntry {
@@ -66,63 +94,289 @@ export interface Channel {
   onMessage(callback: (msg: InboundMessage) => void): void;
 }
 
+/** Token counts reported for a single model call */
+export interface ModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+}
+
+/** Receives text as the model streams it */
+export interface TextStreamer {
+  push(text: string): void;
+  /** Mark the start of a new text block (shown after a blank line) */
+  nextBlock(): void;
+  /** Everything streamed so far */
+  text(): string;
+}
+
+/** One model call, expressed in the canonical (Anthropic-style) message format */
+export interface ModelRequest {
+  systemPrompt: string;
+  messages: ConversationMessage[];
+  tools: ToolDefinition[];
+  maxTokens: number;
+  signal: AbortSignal;
+  streamer?: TextStreamer;
+  /** Extended thinking budget in tokens; 0 or absent disables thinking */
+  thinkingBudget?: number;
+}
+
+/** A model reply, normalized to canonical content blocks */
+export interface ModelResponse {
+  content: ContentBlock[];
+  /** 'tool_use' when the model expects tool results before continuing */
+  stopReason: string | null;
+  usage: ModelUsage | null;
+}
+
+/** Model backend interface — implementations live in providers/ */
+export interface ModelProvider {
+  readonly id: ProviderId;
+  complete(request: ModelRequest): Promise<ModelResponse>;
+}
+
 /** Messages sent from main thread → Agent Worker */
 export type WorkerInbound =
   | { type: 'invoke'; payload: InvokePayload }
   | { type: 'cancel'; payload: { groupId: string } }
-  | { type: 'compact'; payload: CompactPayload };
+  | { type: 'compact'; payload: CompactPayload }
+  | { type: 'approval-response'; payload: ApprovalResponse };
 
-export interface CompactPayload {
-  groupId: string;
-  messages: ConversationMessage[];
-  systemPrompt: string;
-  provider: 'anthropic' | 'ollama';
+/** Supported model providers (see providers/registry.ts) */
+export type ProviderId = 'anthropic' | 'ollama' | 'openai' | 'mock';
+
+/** Provider connection and model settings sent with every request */
+export interface ProviderSettings {
+  provider: ProviderId;
   apiKey: string;
-  ollamaUrl: string;
+  baseUrl: string;
+  headers: Record<string, string>;
   model: string;
   maxTokens: number;
+  contextLimit: number;
+  /** Retries per model call on rate limits and transient server errors */
+  maxRetries: number;
 }
 
-export interface InvokePayload {
+export interface CompactPayload extends ProviderSettings {
   groupId: string;
   messages: ConversationMessage[];
   systemPrompt: string;
-  provider: 'anthropic' | 'ollama';
-  apiKey: string;
-  ollamaUrl: string;
-  model: string;
-  maxTokens: number;
 }
 
+export interface InvokePayload extends ProviderSettings {
+  groupId: string;
+  messages: ConversationMessage[];
+  systemPrompt: string;
+  /** Effective policy per tool for this group; missing tools are allowed */
+  toolPolicies: Record<string, ToolPolicy>;
+  /** Whether the javascript tool's sandbox may use fetch and other network APIs */
+  javascriptNetwork: boolean;
+  /** Extended thinking budget for this group; 0 when thinking is off */
+  thinkingBudget: number;
+  /** Whether to offer tools; false for models without tool calling */
+  toolUse: boolean;
+  /** Spending left under the group's and the global budgets */
+  budget: RunBudget;
+  /** Model calls this run may make before it is stopped */
+  maxIterations: number;
+  /** Tools from the group's MCP servers, offered after the built-in ones */
+  mcpTools: McpToolRoute[];
+  /** Plugins whose tools to register before the run; calls run in a plugin worker */
+  toolPlugins: ToolPluginCode[];
+  /** Tools offered to the model when not all of them; set for sub-agents */
+  toolNames?: string[];
+}
 
 /** Messages sent from Agent Worker → main thread */
 export type WorkerOutbound =
-  | { type: 'response'; payload: { groupId: string; text: string } }
+  | { type: 'response'; payload: AgentResponse }
+  | { type: 'stream-delta'; payload: StreamDelta }
   | { type: 'error'; payload: { groupId: string; error: string } }
   | { type: 'typing'; payload: { groupId: string } }
-  | { type: 'tool-activity'; payload: { groupId: string; tool: string; status: string } }
+  | { type: 'tool-activity'; payload: ToolActivity }
   | { type: 'thinking-log'; payload: ThinkingLogEntry }
   | { type: 'compact-done'; payload: { groupId: string; summary: string } }
+  | { type: 'cancelled'; payload: { groupId: string; partialText: string } }
   | { type: 'token-usage'; payload: TokenUsage }
-  | { type: 'task-created'; payload: { task: Task } };
+  | { type: 'task-created'; payload: { task: Task } }
+  | { type: 'approval-request'; payload: ApprovalRequest };
+
+/** A change to a workspace file, as a unified diff */
+export interface FileDiff {
+  path: string;
+  diff: string;
+}
+
+/** Final reply of an agent run */
+export interface AgentResponse {
+  groupId: string;
+  text: string;
+  reasoning?: string;
+  /** Everything the run sent and received, saved as the group's session */
+  transcript?: ConversationMessage[];
+}
+
+/** Incremental text from a streaming model response */
+export interface StreamDelta {
+  groupId: string;
+  text: string;
+}
+
+/** A tool call starting or finishing; read-only calls may overlap */
+export interface ToolActivity {
+  groupId: string;
+  /** tool_use block id, to pair `done` with its `running` */
+  callId: string;
+  tool: string;
+  status: 'running' | 'done';
+}
+
+/** What a model call was for */
+export type UsagePurpose = 'agent' | 'compaction' | 'delegate';
 
 /** Token usage info from the API */
-export interface TokenUsage {
+export interface TokenUsage extends ModelUsage {
   groupId: string;
-  inputTokens: number;
-  outputTokens: number;
-  cacheReadTokens: number;
-  cacheCreationTokens: number;
   contextLimit: number;
+  provider: ProviderId;
+  model: string;
+  purpose: UsagePurpose;
+}
+
+/** One model call's usage as recorded for the usage dashboard */
+export interface UsageRecord extends ModelUsage {
+  id: string;
+  timestamp: number;
+  groupId: string;
+  provider: ProviderId;
+  model: string;
+  purpose: UsagePurpose;
+  /** Scheduled task whose run made the call */
+  taskId?: string;
+  /** Estimated cost in USD, at the model's prices when the call was made */
+  cost: number;
+}
+
+/** How the conversation history was fitted into the model's context */
+export interface ContextWindowReport {
+  groupId: string;
+  /** Tokens the request may use: a share of the context limit, minus room for the reply */
+  budgetTokens: number;
+  /** Estimated tokens sent: system prompt, tool definitions and history */
+  estimatedTokens: number;
+  includedMessages: number;
+  /** Oldest messages left out to stay within the budget */
+  droppedMessages: number;
+  droppedTokens: number;
 }
 
 /** A single entry in the thinking activity log */
 export interface ThinkingLogEntry {
   groupId: string;
-  kind: 'api-call' | 'tool-call' | 'tool-result' | 'text' | 'info';
+  kind: 'api-call' | 'tool-call' | 'tool-result' | 'text' | 'thinking' | 'info' | 'retry';
   timestamp: number;
   label: string;
   detail?: string;
+  /** Nesting under delegate calls; 1 for a sub-agent's own entries */
+  depth?: number;
+  /** On a tool result: the change the call made to a file */
+  fileDiff?: FileDiff;
+}
+
+/** What browclaw knows about a model; see providers/models.ts */
+export interface ModelInfo {
+  /** Tokens the model (or, for Ollama, the server's num_ctx) can attend to */
+  contextLimit: number;
+  /** Most tokens one reply may contain; caps the configured max tokens */
+  maxOutputTokens: number;
+  /** Accepts image blocks */
+  vision: boolean;
+  /** Accepts an extended thinking budget */
+  thinking: boolean;
+  /** Supports tool calls; without them the agent can only chat */
+  tools: boolean;
+  /** Prices in USD per million tokens; 0 when free or unknown */
+  inputPrice: number;
+  outputPrice: number;
+  cacheReadPrice: number;
+  cacheWritePrice: number;
+}
+
+/** User edits to model metadata, by model id */
+export type ModelOverrides = Record<string, Partial<ModelInfo>>;
+
+/** A model's prices in USD per million tokens */
+export type ModelPrices = Pick<ModelInfo, 'inputPrice' | 'outputPrice' | 'cacheReadPrice' | 'cacheWritePrice'>;
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+/** Caps for one period; a missing field means no cap */
+export interface BudgetLimits {
+  tokens?: number;
+  /** USD, at the estimated cost of each call */
+  cost?: number;
+}
+
+/** Daily and monthly caps for one scope */
+export type BudgetScope = Partial<Record<BudgetPeriod, BudgetLimits>>;
+
+/** Budgets from config: one across all groups plus one per group */
+export interface Budgets {
+  global: BudgetScope;
+  groups: Record<string, BudgetScope>;
+}
+
+/** What a run may still spend before it is stopped; null = no cap */
+export interface RunBudget {
+  tokens: number | null;
+  cost: number | null;
+  prices: ModelPrices;
+}
+
+/** Per-group extended thinking settings */
+export interface ThinkingSettings {
+  enabled: boolean;
+  budgetTokens: number;
+}
+
+/** Whether a tool may run: without asking, after the user approves, or never */
+export type ToolPolicy = 'allow' | 'ask' | 'deny';
+
+/** Tool policies from config: global defaults plus per-group overrides */
+export interface ToolPolicies {
+  defaults: Record<string, ToolPolicy>;
+  groups: Record<string, Record<string, ToolPolicy>>;
+}
+
+/** A tool call waiting on a policy decision or the user */
+export interface ApprovalRequest {
+  id: string;
+  groupId: string;
+  tool: string;
+  input: Record<string, unknown>;
+  policy: Exclude<ToolPolicy, 'allow'>;
+  timestamp: number;
+}
+
+export interface ApprovalResponse {
+  id: string;
+  groupId: string;
+  approved: boolean;
+}
+
+/** A recorded approval decision */
+export interface ApprovalLogEntry {
+  id: string;
+  groupId: string;
+  tool: string;
+  input: Record<string, unknown>;
+  approved: boolean;
+  /** Who decided: the configured policy, or the user in a channel */
+  decidedBy: 'policy' | 'browser' | 'telegram' | 'cancelled';
+  timestamp: number;
 }
 
 /** Agent skill loaded from a SKILL.md file */
@@ -152,6 +406,99 @@ export interface ToolDefinition {
   };
 }
 
+/** An MCP (Model Context Protocol) server configured in Settings */
+export interface McpServerConfig {
+  id: string;
+  /** Also prefixes its tools' names, so it must be unique */
+  name: string;
+  /** Streamable HTTP endpoint */
+  url: string;
+  /** Extra request headers, e.g. Authorization */
+  headers: Record<string, string>;
+  enabled: boolean;
+  /** Groups whose agent gets this server's tools; empty for all */
+  groups: string[];
+}
+
+export interface McpToolInfo {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+}
+
+export interface McpResourceInfo {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpPromptInfo {
+  name: string;
+  description?: string;
+  arguments?: { name: string; description?: string; required?: boolean }[];
+}
+
+/** What a configured server offers, as of its last refresh */
+export interface McpServerStatus {
+  serverId: string;
+  state: 'connecting' | 'connected' | 'error';
+  error?: string;
+  tools: McpToolInfo[];
+  resources: McpResourceInfo[];
+  prompts: McpPromptInfo[];
+}
+
+/** A tool offered to the model that an MCP server carries out */
+export interface McpToolRoute {
+  definition: ToolDefinition;
+  server: Pick<McpServerConfig, 'url' | 'headers'>;
+  /** The server's tool to call, or null for reading one of its resources */
+  tool: string | null;
+}
+
+/** An ES module of tool specs, configured in Settings; see tool-plugins.ts */
+export interface ToolPluginConfig {
+  id: string;
+  /** Where the module is read from: a URL, or a file in a group's workspace */
+  source: 'url' | 'workspace';
+  /** The URL, or the file's path in the workspace */
+  location: string;
+  /** The workspace the file is in, for workspace plugins */
+  groupId?: string;
+  enabled: boolean;
+}
+
+/** A plugin's module as last loaded */
+export interface ToolPluginStatus {
+  pluginId: string;
+  state: 'loading' | 'loaded' | 'error';
+  error?: string;
+  /** Names of the tools it registered */
+  tools: string[];
+}
+
+/** A loaded plugin's source, sent to agent workers to register there too */
+export interface ToolPluginCode {
+  id: string;
+  code: string;
+  /** Its tools as the loader worker found them */
+  tools: ToolPluginSpec[];
+}
+
+/** A plugin tool's spec without its handler, as the loader worker sends it */
+export interface ToolPluginSpec {
+  name: string;
+  description: string;
+  summary?: string;
+  schema: Record<string, unknown> & { type: 'object' };
+  permissions?: {
+    default?: ToolPolicy;
+    /** 'per-call' when the plugin decides with a function */
+    readOnly?: boolean | 'per-call';
+  };
+}
+
 /** Orchestrator state machine */
 export type OrchestratorState = 'idle' | 'thinking' | 'responding';
 
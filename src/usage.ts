@@ -0,0 +1,131 @@
+// ---------------------------------------------------------------------------
+// browclaw — Usage and cost accounting
+// ---------------------------------------------------------------------------
+//
+// Every model call's token usage is stored in IndexedDB with its estimated
+// cost (see Orchestrator.recordUsage). These helpers total the records for
+// the usage dashboard and export them as CSV.
+
+import type { ModelPrices, ModelUsage, UsageRecord } from './types.js';
+
+/**
+ * Tokens a call counts against a token budget: input, output and cached.
+ */
+export function usageTokens(usage: ModelUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheCreationTokens;
+}
+
+/**
+ * Estimated cost in USD of one call at the model's per-million-token prices.
+ */
+export function estimateCost(usage: ModelUsage, info: ModelPrices): number {
+  return (
+    (usage.inputTokens * info.inputPrice +
+      usage.outputTokens * info.outputPrice +
+      usage.cacheReadTokens * info.cacheReadPrice +
+      usage.cacheCreationTokens * info.cacheWritePrice) /
+    1_000_000
+  );
+}
+
+export interface UsageTotals extends ModelUsage {
+  calls: number;
+  cost: number;
+}
+
+export function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    cost: 0,
+  };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cacheReadTokens += record.cacheReadTokens;
+  totals.cacheCreationTokens += record.cacheCreationTokens;
+  totals.cost += record.cost;
+}
+
+export function totalUsage(records: UsageRecord[]): UsageTotals {
+  const totals = emptyTotals();
+  for (const record of records) addRecord(totals, record);
+  return totals;
+}
+
+/**
+ * Totals per key (day, group, model…), sorted by key.
+ */
+export function groupUsage(
+  records: UsageRecord[],
+  keyOf: (record: UsageRecord) => string,
+): { key: string; totals: UsageTotals }[] {
+  const groups = new Map<string, UsageTotals>();
+  for (const record of records) {
+    const key = keyOf(record);
+    let totals = groups.get(key);
+    if (!totals) {
+      totals = emptyTotals();
+      groups.set(key, totals);
+    }
+    addRecord(totals, record);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, totals]) => ({ key, totals }));
+}
+
+/** Local calendar day of a record, as YYYY-MM-DD */
+export function usageDay(record: UsageRecord): string {
+  const d = new Date(record.timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'group',
+  'provider',
+  'model',
+  'purpose',
+  'task_id',
+  'input_tokens',
+  'output_tokens',
+  'cache_read_tokens',
+  'cache_write_tokens',
+  'cost_usd',
+];
+
+/**
+ * One row per model call, timestamps in ISO 8601 (UTC).
+ */
+export function usageToCsv(records: UsageRecord[]): string {
+  const rows = records.map((r) =>
+    [
+      new Date(r.timestamp).toISOString(),
+      r.groupId,
+      r.provider,
+      r.model,
+      r.purpose,
+      r.taskId ?? '',
+      r.inputTokens,
+      r.outputTokens,
+      r.cacheReadTokens,
+      r.cacheCreationTokens,
+      r.cost.toFixed(6),
+    ]
+      .map((value) => csvField(String(value)))
+      .join(','),
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,276 @@
+// ---------------------------------------------------------------------------
+// browclaw — Workspace search
+// ---------------------------------------------------------------------------
+//
+// Recursive regex search over a group's OPFS workspace, in the spirit of
+// ripgrep: include/exclude globs, context lines, a cap on results, and
+// per-file match counts. Backs the search_files tool (in the agent worker)
+// and the search box on the Files page (on the main thread). Binary files
+// and files over SEARCH_MAX_FILE_SIZE are skipped.
+
+import {
+  SEARCH_DEFAULT_MAX_RESULTS,
+  SEARCH_MAX_FILE_SIZE,
+  SEARCH_MAX_LINE_LENGTH,
+  SEARCH_MAX_RESULTS,
+} from './config.js';
+import { walkGroupFiles } from './storage.js';
+import { isBinaryFile } from './binary.js';
+
+export type SearchMode = 'content' | 'files' | 'count';
+
+export interface SearchOptions {
+  pattern: string;
+  /** Treat the pattern as a regular expression (default) or as literal text */
+  regex?: boolean;
+  ignoreCase?: boolean;
+  /** Directory to search, relative to the workspace root (default: all of it) */
+  path?: string;
+  /**
+   * Globs a file must match one of, and globs that leave files and
+   * directories out. A glob without "/" matches names at any depth; one
+   * with "/" matches the path from the workspace root. Supports *, **, ?,
+   * [abc] and {a,b}.
+   */
+  include?: string[];
+  exclude?: string[];
+  /** Lines shown before and after each matching line */
+  context?: number;
+  /**
+   * 'content' returns matching lines; 'files' and 'count' only which files
+   * match and on how many lines
+   */
+  mode?: SearchMode;
+  /** Matching lines to return at most, or files for 'files' and 'count' */
+  maxResults?: number;
+  /** Stop early when aborted */
+  signal?: AbortSignal;
+}
+
+export interface SearchLine {
+  /** 1-based */
+  line: number;
+  text: string;
+  /** Where the pattern matched in `text`; absent on context lines */
+  ranges?: [start: number, end: number][];
+}
+
+export interface FileMatches {
+  path: string;
+  /** Matching lines in the file, including any past the result cap */
+  matchCount: number;
+  /** Matching lines with their context, in order */
+  lines: SearchLine[];
+}
+
+export interface SearchResults {
+  files: FileMatches[];
+  /** Matching lines returned, or across the files returned for 'files' and 'count' */
+  totalMatches: number;
+  filesSearched: number;
+  /** The result cap was reached and there were more matches */
+  truncated: boolean;
+}
+
+/**
+ * Search the files under `options.path` in a group's workspace. Throws on
+ * an invalid regular expression or a directory that does not exist.
+ */
+export async function searchWorkspace(groupId: string, options: SearchOptions): Promise<SearchResults> {
+  const matcher = buildMatcher(options);
+  const include = (options.include ?? []).map(compileGlob);
+  const exclude = (options.exclude ?? []).map(compileGlob);
+  const context = Math.max(0, Math.min(options.context ?? 0, 10));
+  const maxResults = Math.max(1, Math.min(options.maxResults ?? SEARCH_DEFAULT_MAX_RESULTS, SEARCH_MAX_RESULTS));
+  const linesWanted = (options.mode ?? 'content') === 'content';
+
+  const results: SearchResults = { files: [], totalMatches: 0, filesSearched: 0, truncated: false };
+  const skipDir = (path: string) => exclude.some((glob) => glob(path));
+
+  for await (const { path, file } of walkGroupFiles(groupId, options.path || '.', skipDir)) {
+    options.signal?.throwIfAborted();
+    if (skipDir(path) || (include.length > 0 && !include.some((glob) => glob(path)))) continue;
+    if (file.size > SEARCH_MAX_FILE_SIZE) continue;
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (isBinaryFile(path, bytes)) continue;
+
+    results.filesSearched++;
+    const remaining = linesWanted ? maxResults - results.totalMatches : maxResults - results.files.length;
+    const found = searchText(new TextDecoder().decode(bytes), matcher, context, linesWanted ? remaining : 0);
+    if (!found) continue;
+    if (remaining <= 0) {
+      results.truncated = true;
+      break;
+    }
+
+    results.files.push({ path, ...found });
+    results.totalMatches += linesWanted ? Math.min(found.matchCount, remaining) : found.matchCount;
+    if (linesWanted && found.matchCount > remaining) {
+      results.truncated = true;
+      break;
+    }
+  }
+  return results;
+}
+
+function buildMatcher(options: SearchOptions): RegExp {
+  if (!options.pattern) throw new Error('Empty search pattern');
+  const source = options.regex === false
+    ? options.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    : options.pattern;
+  // An invalid pattern throws a SyntaxError: "Invalid regular expression: …"
+  return new RegExp(source, options.ignoreCase ? 'gi' : 'g');
+}
+
+/**
+ * Matching lines of `text` with `context` lines around them, keeping at
+ * most `limit` matching lines. Null when nothing matches.
+ */
+function searchText(
+  text: string,
+  matcher: RegExp,
+  context: number,
+  limit: number,
+): { matchCount: number; lines: SearchLine[] } | null {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+
+  let matchCount = 0;
+  const kept: SearchLine[] = [];
+  // Index of the last line already added, so context windows don't repeat lines
+  let lastAdded = -1;
+
+  lines.forEach((raw, index) => {
+    const line = raw.endsWith('\r') ? raw.slice(0, -1) : raw;
+    const ranges = findRanges(line, matcher);
+    if (ranges.length === 0) return;
+    matchCount++;
+    if (matchCount > limit) return;
+
+    for (let i = Math.max(lastAdded + 1, index - context); i < index; i++) {
+      kept.push({ line: i + 1, text: clip(lines[i].replace(/\r$/, '')).text });
+    }
+    kept.push({ line: index + 1, ...clip(line, ranges) });
+    lastAdded = index;
+    for (let i = index + 1; i <= Math.min(lines.length - 1, index + context); i++) {
+      // Stop at the next match; it adds its own context
+      if (findRanges(lines[i], matcher).length > 0) break;
+      kept.push({ line: i + 1, text: clip(lines[i].replace(/\r$/, '')).text });
+      lastAdded = i;
+    }
+  });
+
+  return matchCount > 0 ? { matchCount, lines: kept } : null;
+}
+
+function findRanges(line: string, matcher: RegExp): [number, number][] {
+  const ranges: [number, number][] = [];
+  matcher.lastIndex = 0;
+  for (let match = matcher.exec(line); match; match = matcher.exec(line)) {
+    if (match[0].length === 0) {
+      // An empty match (e.g. "^") still marks the line; step past it
+      if (ranges.length === 0) ranges.push([match.index, match.index]);
+      matcher.lastIndex++;
+      if (matcher.lastIndex > line.length) break;
+      continue;
+    }
+    ranges.push([match.index, match.index + match[0].length]);
+  }
+  return ranges;
+}
+
+/**
+ * Cut a long line down to SEARCH_MAX_LINE_LENGTH around its first match,
+ * marking the cuts with "…" and moving the match ranges along.
+ */
+function clip(text: string, ranges?: [number, number][]): { text: string; ranges?: [number, number][] } {
+  if (text.length <= SEARCH_MAX_LINE_LENGTH) return { text, ranges };
+  const start = Math.max(0, Math.min((ranges?.[0]?.[0] ?? 0) - 40, text.length - SEARCH_MAX_LINE_LENGTH));
+  const end = start + SEARCH_MAX_LINE_LENGTH;
+  const prefix = start > 0 ? '…' : '';
+  const clipped = prefix + text.slice(start, end) + (end < text.length ? '…' : '');
+  const shift = prefix.length - start;
+  return {
+    text: clipped,
+    ranges: ranges
+      ?.filter(([from]) => from >= start && from < end)
+      .map(([from, to]) => [from + shift, Math.min(to, end) + shift]),
+  };
+}
+
+/**
+ * Compile a glob into a test on workspace paths. Globs without "/" are
+ * tested against each path segment, so "*.md" and "node_modules" match at
+ * any depth.
+ */
+export function compileGlob(glob: string): (path: string) => boolean {
+  const trimmed = glob.trim().replace(/^\.?\/+/, '');
+  const re = new RegExp(`^${globSource(trimmed)}$`);
+  if (trimmed.includes('/')) return (path) => re.test(path);
+  return (path) => path.split('/').some((segment) => re.test(segment));
+}
+
+function globSource(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        i++;
+        if (glob[i + 1] === '/') {
+          i++;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (c === '?') {
+      source += '[^/]';
+    } else if (c === '[' && glob.indexOf(']', i + 1) > i + 1) {
+      const end = glob.indexOf(']', i + 1);
+      const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      source += `[${body}]`;
+      i = end;
+    } else if (c === '{' && glob.indexOf('}', i) > i) {
+      const end = glob.indexOf('}', i);
+      source += `(?:${glob.slice(i + 1, end).split(',').map(globSource).join('|')})`;
+      i = end;
+    } else {
+      source += c.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+/**
+ * Results as the search_files tool returns them, in ripgrep's style:
+ * each file's path, then "12:" before matching lines and "12-" before
+ * context lines, with "--" between separate stretches.
+ */
+export function formatSearchResults(results: SearchResults, mode: SearchMode = 'content'): string {
+  if (results.files.length === 0) {
+    return `No matches (searched ${results.filesSearched} file${results.filesSearched === 1 ? '' : 's'}).`;
+  }
+
+  const blocks = results.files.map((file) => {
+    if (mode === 'files') return file.path;
+    if (mode === 'count') return `${file.path}:${file.matchCount}`;
+    const out = [file.path];
+    file.lines.forEach((line, i) => {
+      if (i > 0 && line.line > file.lines[i - 1].line + 1) out.push('--');
+      out.push(`${line.line}${line.ranges ? ':' : '-'}${line.text}`);
+    });
+    return out.join('\n');
+  });
+
+  const fileCount = results.files.length;
+  const summary =
+    `${results.totalMatches} matching line${results.totalMatches === 1 ? '' : 's'} in ` +
+    `${fileCount} file${fileCount === 1 ? '' : 's'} (searched ${results.filesSearched}).` +
+    (results.truncated
+      ? ' Stopped at the result limit; narrow the pattern or path, or raise max_results.'
+      : '');
+  return `${blocks.join(mode === 'content' ? '\n\n' : '\n')}\n\n${summary}`;
+}